@@ -131,4 +131,18 @@ describe('AgentNamer', () => {
       expect(agentNamer.isNameUsed('NonExistentName')).toBe(false);
     });
   });
+
+  describe('isAgentName', () => {
+    test('should recognize assignable names regardless of case and suffix', async () => {
+      const name = await agentNamer.assignName();
+      expect(agentNamer.isAgentName(name)).toBe(true);
+      expect(agentNamer.isAgentName(name.toUpperCase())).toBe(true);
+      expect(agentNamer.isAgentName(`${name}3`)).toBe(true);
+    });
+
+    test('should return false for other names', () => {
+      expect(agentNamer.isAgentName('Alice')).toBe(false);
+      expect(agentNamer.isAgentName('Hansel')).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,196 @@
+/**
+ * Unit tests for broker mode (BrokerServer and BrokerStorage)
+ */
+
+import * as fs from 'fs/promises';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { BrokerServer, BrokerStorage, getBrokerSocketPath } from '../broker';
+import { ChatManager } from '../chat-manager';
+import { PersistenceManager } from '../persistence';
+
+describe('Broker', () => {
+  let tempDir: string;
+  let dataDir: string;
+  let socketPath: string;
+  let broker: BrokerServer;
+  let storages: BrokerStorage[];
+  let agents: ChatManager[];
+  const testProjectPath = '/path/to/project';
+
+  const createAgent = async (): Promise<ChatManager> => {
+    const storage = new BrokerStorage({
+      dataDir,
+      identityDir: path.join(tempDir, 'identities'),
+      // Several instances in one process need separate identity files
+      instanceId: String(storages.length),
+      socketPath,
+      startDaemon: false,
+    });
+    storages.push(storage);
+    const agent = new ChatManager(storage);
+    await agent.initialize('');
+    agents.push(agent);
+    return agent;
+  };
+
+  const readFromFiles = async () => {
+    const files = new PersistenceManager({ dataDir, identityDir: path.join(tempDir, 'ids') });
+    const chatRoom = await files.loadChatRoom(testProjectPath);
+    return chatRoom?.messages.map((msg) => msg.content) ?? [];
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-messaging-'));
+    dataDir = path.join(tempDir, 'data');
+    socketPath = path.join(tempDir, 'broker.sock');
+    broker = new BrokerServer({ dataDir, socketPath });
+    await broker.start();
+    storages = [];
+    agents = [];
+  });
+
+  afterEach(async () => {
+    for (const agent of agents) {
+      await agent.close();
+    }
+    for (const storage of storages) {
+      storage.close();
+    }
+    await broker.stop();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should pass messages between instances and store them in the files', async () => {
+    const alice = await createAgent();
+    const bob = await createAgent();
+    await bob.sendMessage(testProjectPath, 'Joining');
+
+    const waiting = bob.waitForMessages(testProjectPath, {
+      timeoutMs: 5000,
+      sender: alice.getMyName(),
+    });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await alice.sendMessage(testProjectPath, 'Parser is done');
+
+    expect((await waiting).map((msg) => msg.content)).toEqual(['Parser is done']);
+    expect(await readFromFiles()).toEqual(expect.arrayContaining(['Joining', 'Parser is done']));
+  });
+
+  it('should keep writes from many instances in one sequence', async () => {
+    const team = await Promise.all([createAgent(), createAgent(), createAgent()]);
+    await Promise.all(
+      team.flatMap((agent, i) =>
+        [1, 2, 3].map((n) => agent.sendMessage(testProjectPath, `Agent ${i} message ${n}`))
+      )
+    );
+
+    const files = new PersistenceManager({ dataDir, identityDir: path.join(tempDir, 'ids') });
+    const chatRoom = (await files.loadChatRoom(testProjectPath))!;
+    const texts = chatRoom.messages.filter((msg) => msg.type === 'text');
+    expect(texts).toHaveLength(9);
+    const seqs = chatRoom.messages.map((msg) => msg.seq!);
+    expect(seqs).toEqual([...seqs].sort((a, b) => a - b));
+    expect(new Set(seqs).size).toBe(seqs.length);
+  });
+
+  it('should give up the update when the update function fails', async () => {
+    const alice = await createAgent();
+    await expect(
+      alice.sendMessage(testProjectPath, 'Reply', 'text', undefined, 'no-such-message')
+    ).rejects.toThrow('Message not found');
+
+    await alice.sendMessage(testProjectPath, 'Still works');
+    expect(await readFromFiles()).toContain('Still works');
+  });
+
+  it('should fall back to the files when the broker is unavailable', async () => {
+    const alice = await createAgent();
+    await alice.sendMessage(testProjectPath, 'Through the broker');
+
+    await broker.stop();
+    await alice.sendMessage(testProjectPath, 'Directly to the files');
+
+    expect(await readFromFiles()).toEqual(
+      expect.arrayContaining(['Through the broker', 'Directly to the files'])
+    );
+  });
+
+  it('should not repeat an update on the files once it has run', async () => {
+    await createAgent();
+    let runs = 0;
+
+    await expect(
+      storages[0].atomicUpdateChatRoom(testProjectPath, async () => {
+        runs++;
+        await broker.stop();
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      })
+    ).rejects.toThrow('Lost the connection to the broker');
+    expect(runs).toBe(1);
+  });
+
+  it('should keep the socket private to the user', async () => {
+    expect((await fs.stat(socketPath)).mode & 0o777).toBe(0o600);
+
+    const longSocketPath = getBrokerSocketPath(path.join(tempDir, 'x'.repeat(100)));
+    expect(path.dirname(longSocketPath)).not.toBe(os.tmpdir());
+    expect(path.dirname(longSocketPath)).toContain(String(os.userInfo().uid));
+  });
+
+  it('should drop a connection that sends invalid lines', async () => {
+    await broker.stop();
+    const invalidLines = ['not json', 'null', '{"id": "1"}'];
+    let connections = 0;
+    const impostor = net.createServer((socket) => {
+      const line = invalidLines[connections++ % invalidLines.length];
+      socket.on('data', () => socket.write(`${line}\n`));
+    });
+    await new Promise<void>((resolve) => impostor.listen(socketPath, resolve));
+
+    try {
+      for (const line of invalidLines) {
+        const agent = await createAgent();
+        await agent.sendMessage(testProjectPath, `Saved despite ${line}`);
+        expect(await readFromFiles()).toContain(`Saved despite ${line}`);
+      }
+      expect(connections).toBe(invalidLines.length);
+    } finally {
+      await new Promise((resolve) => impostor.close(resolve));
+      await broker.start();
+    }
+  });
+
+  it('should keep serving after invalid requests', async () => {
+    const send = (line: string) =>
+      new Promise<string>((resolve, reject) => {
+        const socket = net.connect(socketPath, () => socket.write(`${line}\n`));
+        let received = '';
+        socket.on('data', (data) => {
+          received += data;
+          socket.end();
+        });
+        socket.on('close', () => resolve(received));
+        socket.on('error', reject);
+      });
+
+    expect(await send('null')).toBe('');
+    expect(await send('{"op": "load", "id": 1}')).toBe('');
+    expect(JSON.parse(await send('{}'))).toEqual({ error: 'Unknown request: undefined' });
+    expect(JSON.parse(await send('{"op": "shout", "id": 7}'))).toEqual({
+      id: 7,
+      error: 'Unknown request: shout',
+    });
+
+    expect(JSON.parse(await send('{"op": "load", "id": 2, "projectPath": "/nowhere"}'))).toEqual({
+      id: 2,
+      room: null,
+    });
+  });
+
+  it('should refuse to start a second broker on the same socket', async () => {
+    const second = new BrokerServer({ dataDir, socketPath });
+    await expect(second.start()).rejects.toThrow('already running');
+  });
+});
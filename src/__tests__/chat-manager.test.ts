@@ -1,12 +1,22 @@
+import * as crypto from 'crypto';
 import { ChatManager } from '../chat-manager';
+import { InMemoryStorage } from '../memory-storage';
 
 describe('ChatManager', () => {
+  let storage: InMemoryStorage;
   let chatManager: ChatManager;
   let testProjectPath: string;
 
   beforeEach(async () => {
-    chatManager = new ChatManager();
+    storage = new InMemoryStorage();
+    // Other agents are simulated as Greta and Klaus, so this agent must get another name
+    chatManager = new ChatManager(storage);
     await chatManager.initialize();
+    while (['Greta', 'Klaus'].includes(chatManager.getMyName())) {
+      await chatManager.close();
+      chatManager = new ChatManager(storage);
+      await chatManager.initialize();
+    }
     testProjectPath = `/tmp/test-project-${Date.now()}`;
   });
 
@@ -37,14 +47,49 @@ describe('ChatManager', () => {
         testProjectPath,
         'Deploy command',
         'command',
-        { env: 'production' }
+        { command: 'deploy', args: { env: 'production' } }
       );
 
       const messages = await chatManager.getLastMessages(testProjectPath, 100);
       const commandMessage = messages.find((m) => m.type === 'command');
 
       expect(commandMessage).toBeDefined();
-      expect(commandMessage?.metadata?.env).toBe('production');
+      expect(commandMessage?.metadata?.args).toEqual({ env: 'production' });
+    });
+
+    it('should validate metadata against the schema of the message type', async () => {
+      await expect(
+        chatManager.sendMessage(testProjectPath, 'Deploy', 'command', { env: 'production' })
+      ).rejects.toThrow('missing required key "command"');
+      await expect(
+        chatManager.sendMessage(testProjectPath, 'Careful', 'notification', { level: 'loud' })
+      ).rejects.toThrow('"level" must be one of info, warning, error');
+      await expect(
+        chatManager.sendMessage(testProjectPath, 'Deploy', 'command', {
+          command: 'deploy',
+          args: ['production'],
+        })
+      ).rejects.toThrow('"args" must be of type object, got array');
+
+      await chatManager.sendMessage(testProjectPath, 'Careful', 'notification', {
+        level: 'warning',
+        source: 'ci',
+      });
+      const messages = await chatManager.getLastMessages(testProjectPath, 100);
+      expect(messages.filter((m) => m.sender !== 'System').map((m) => m.content)).toEqual([
+        'Careful',
+      ]);
+    });
+
+    it('should accept metadata schemas for further message types', async () => {
+      chatManager.metadataSchemas.register('text', {
+        fields: { topic: { type: 'string', required: true } },
+      });
+
+      await expect(chatManager.sendMessage(testProjectPath, 'Hello')).rejects.toThrow(
+        'Invalid metadata for text message'
+      );
+      await chatManager.sendMessage(testProjectPath, 'Hello', 'text', { topic: 'greeting' });
     });
 
     it('should generate unique message IDs', async () => {
@@ -99,6 +144,1080 @@ describe('ChatManager', () => {
     });
   });
 
+  describe('Pagination', () => {
+    beforeEach(async () => {
+      for (let i = 0; i < 5; i++) {
+        await chatManager.sendMessage(testProjectPath, `Message ${i}`);
+      }
+    });
+
+    it('should number messages in order', async () => {
+      const messages = await chatManager.getLastMessages(testProjectPath, 100);
+      const seqs = messages.map((m) => m.seq!);
+
+      expect(seqs[0]).toBe(1);
+      expect(seqs).toEqual([...seqs].sort((a, b) => a - b));
+      expect(new Set(seqs).size).toBe(seqs.length);
+    });
+
+    it('should walk the whole history backward', async () => {
+      const all = await chatManager.getLastMessages(testProjectPath, 100);
+      const walked: string[] = [];
+
+      let page = await chatManager.getMessagePage(testProjectPath, { count: 2 });
+      walked.unshift(...page.messages.map((m) => m.id));
+      while (page.nextCursor !== undefined) {
+        page = await chatManager.getMessagePage(testProjectPath, {
+          before: page.nextCursor,
+          count: 2,
+        });
+        walked.unshift(...page.messages.map((m) => m.id));
+      }
+
+      expect(walked).toEqual(all.map((m) => m.id));
+    });
+
+    it('should page forward from a message ID', async () => {
+      const all = await chatManager.getLastMessages(testProjectPath, 100);
+      const start = all.findIndex((m) => m.content === 'Message 1');
+
+      const page = await chatManager.getMessagePage(testProjectPath, {
+        after: `#${all[start].id.slice(0, 8)}`,
+        count: 2,
+      });
+
+      expect(page.messages.map((m) => m.content)).toEqual(['Message 2', 'Message 3']);
+      const rest = await chatManager.getMessagePage(testProjectPath, {
+        after: page.nextCursor,
+        count: 10,
+      });
+      expect(rest.messages.map((m) => m.content)).toEqual(['Message 4']);
+      expect(rest.nextCursor).toBeUndefined();
+    });
+
+    it('should keep sequence numbers after pruning', async () => {
+      const before = await chatManager.getLastMessages(testProjectPath, 100);
+      const lastSeq = before[before.length - 1].seq!;
+
+      await storage.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.messages = chatRoom.messages.slice(-1);
+      });
+      await chatManager.sendMessage(testProjectPath, 'After pruning');
+
+      const page = await chatManager.getMessagePage(testProjectPath, { after: lastSeq - 2 });
+      expect(page.messages.map((m) => m.content)).toEqual(['Message 4', 'After pruning']);
+      expect(page.messages[1].seq).toBe(lastSeq + 1);
+    });
+
+    it('should reject a cursor naming an unknown message', async () => {
+      await expect(
+        chatManager.getMessagePage(testProjectPath, { before: 'no-such-message' })
+      ).rejects.toThrow('Message not found');
+    });
+  });
+
+  describe('Direct Messages', () => {
+    it('should store the recipient and show the message to the sender', async () => {
+      const { messageId } = await chatManager.sendDirectMessage(
+        testProjectPath,
+        'Greta',
+        'Just between us'
+      );
+
+      const messages = await chatManager.getLastMessages(testProjectPath, 100);
+      const dm = messages.find((m) => m.id === messageId);
+
+      expect(dm).toBeDefined();
+      expect(dm?.recipient).toBe('Greta');
+    });
+
+    it('should report unknown recipients', async () => {
+      const result = await chatManager.sendDirectMessage(
+        testProjectPath,
+        'NobodyHere',
+        'Hello?'
+      );
+      expect(result.recipientStatus).toBe('unknown');
+    });
+
+    it('should report inactive and active recipients from lastSeen', async () => {
+      await storage.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.lastSeen['Greta'] = new Date(Date.now() - 60 * 60 * 1000);
+        chatRoom.lastSeen['Klaus'] = new Date();
+      });
+
+      const toGreta = await chatManager.sendDirectMessage(testProjectPath, 'Greta', 'Hi');
+      const toKlaus = await chatManager.sendDirectMessage(testProjectPath, 'Klaus', 'Hi');
+
+      expect(toGreta.recipientStatus).toBe('inactive');
+      expect(toKlaus.recipientStatus).toBe('active');
+    });
+
+    it('should hide direct messages between other agents', async () => {
+      await chatManager.sendMessage(testProjectPath, 'Public message');
+      await storage.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.messages.push({
+          id: 'private-id',
+          sender: 'Greta',
+          recipient: 'Klaus',
+          content: 'Private message',
+          timestamp: new Date(),
+          type: 'text',
+        });
+      });
+
+      const last = await chatManager.getLastMessages(testProjectPath, 100);
+      const filtered = await chatManager.getFilteredMessages(testProjectPath, {});
+      const searched = (await chatManager.searchMessages(testProjectPath, 'message')).map(
+        (hit) => hit.message
+      );
+
+      for (const messages of [last, filtered, searched]) {
+        const content = messages.map((m) => m.content);
+        expect(content).toContain('Public message');
+        expect(content).not.toContain('Private message');
+      }
+    });
+
+    it('should reject direct messages to yourself', async () => {
+      await expect(
+        chatManager.sendDirectMessage(testProjectPath, chatManager.getMyName(), 'Hi me')
+      ).rejects.toThrow('Cannot send a direct message to yourself');
+    });
+  });
+
+  describe('Threaded Replies', () => {
+    it('should store the reply target on the message', async () => {
+      const rootId = await chatManager.sendMessage(testProjectPath, 'Who takes the tests?');
+      const replyId = await chatManager.sendMessage(
+        testProjectPath,
+        'I will',
+        'text',
+        undefined,
+        rootId
+      );
+
+      const messages = await chatManager.getLastMessages(testProjectPath, 100);
+      expect(messages.find((m) => m.id === replyId)?.replyTo).toBe(rootId);
+    });
+
+    it('should resolve a unique ID prefix to the full message ID', async () => {
+      const rootId = await chatManager.sendMessage(testProjectPath, 'Root');
+      const replyId = await chatManager.sendMessage(
+        testProjectPath,
+        'Reply',
+        'text',
+        undefined,
+        rootId.slice(0, 8)
+      );
+
+      const messages = await chatManager.getLastMessages(testProjectPath, 100);
+      expect(messages.find((m) => m.id === replyId)?.replyTo).toBe(rootId);
+    });
+
+    it('should reject replies to unknown messages', async () => {
+      await chatManager.sendMessage(testProjectPath, 'Root');
+      await expect(
+        chatManager.sendMessage(testProjectPath, 'Reply', 'text', undefined, 'does-not-exist')
+      ).rejects.toThrow('Message not found');
+    });
+
+    it('should not resolve direct messages between other agents', async () => {
+      await storage.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.messages.push({
+          id: 'private-id',
+          sender: 'Greta',
+          recipient: 'Klaus',
+          content: 'Just between us',
+          timestamp: new Date(),
+          type: 'text',
+        });
+      });
+
+      await expect(
+        chatManager.sendMessage(testProjectPath, 'Reply', 'text', undefined, 'private')
+      ).rejects.toThrow('Message not found');
+      await expect(chatManager.getThread(testProjectPath, 'private-id')).rejects.toThrow(
+        'Message not found'
+      );
+    });
+
+    it('should validate reply targets when updating the chat room', async () => {
+      await chatManager.sendMessage(testProjectPath, 'Root');
+      await expect(
+        storage.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+          chatRoom.messages.push({
+            id: 'orphan-id',
+            sender: 'Greta',
+            content: 'Orphan reply',
+            timestamp: new Date(),
+            type: 'text',
+            replyTo: 'does-not-exist',
+          });
+        })
+      ).rejects.toThrow('Reply target not found');
+
+      const messages = await chatManager.getLastMessages(testProjectPath, 100);
+      expect(messages.map((m) => m.id)).not.toContain('orphan-id');
+    });
+
+    it('should return the root message and all descendants in order', async () => {
+      const rootId = await chatManager.sendMessage(testProjectPath, 'Root');
+      const childId = await chatManager.sendMessage(testProjectPath, 'Child', 'text', undefined, rootId);
+      await chatManager.sendMessage(testProjectPath, 'Unrelated');
+      await chatManager.sendMessage(testProjectPath, 'Grandchild', 'text', undefined, childId);
+      await chatManager.sendMessage(testProjectPath, 'Second child', 'text', undefined, rootId);
+
+      const thread = await chatManager.getThread(testProjectPath, rootId);
+
+      expect(thread.map((m) => m.content)).toEqual([
+        'Root',
+        'Child',
+        'Grandchild',
+        'Second child',
+      ]);
+    });
+  });
+
+  describe('Read Cursors', () => {
+    const postAs = async (sender: string, content: string) => {
+      await storage.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.messages.push({
+          id: `${sender}-${content}`,
+          sender,
+          content,
+          timestamp: new Date(),
+          type: 'text',
+        });
+      });
+    };
+
+    it('should return unread messages from other agents once', async () => {
+      await chatManager.sendMessage(testProjectPath, 'My own message');
+      await postAs('Greta', 'First');
+      await postAs('Klaus', 'Second');
+
+      const firstRead = await chatManager.readUnread(testProjectPath);
+      const contents = firstRead.messages.map((m) => m.content);
+
+      expect(contents).toContain('First');
+      expect(contents).toContain('Second');
+      expect(contents).not.toContain('My own message');
+      expect(firstRead.remaining).toBe(0);
+
+      const secondRead = await chatManager.readUnread(testProjectPath);
+      expect(secondRead.messages).toEqual([]);
+    });
+
+    it('should only return messages posted after the cursor', async () => {
+      await postAs('Greta', 'Old');
+      await chatManager.readUnread(testProjectPath);
+      await postAs('Greta', 'New');
+
+      const { messages } = await chatManager.readUnread(testProjectPath);
+      expect(messages.map((m) => m.content)).toEqual(['New']);
+    });
+
+    it('should page through unread messages with a count', async () => {
+      await postAs('Greta', 'One');
+      await postAs('Greta', 'Two');
+      await postAs('Greta', 'Three');
+
+      const firstPage = await chatManager.readUnread(testProjectPath, 2);
+      expect(firstPage.messages.map((m) => m.content)).toEqual(['One', 'Two']);
+      expect(firstPage.remaining).toBe(1);
+
+      const secondPage = await chatManager.readUnread(testProjectPath, 2);
+      expect(secondPage.messages.map((m) => m.content)).toEqual(['Three']);
+      expect(secondPage.remaining).toBe(0);
+    });
+
+    it('should count unread messages without advancing the cursor', async () => {
+      await postAs('Greta', 'One');
+      await postAs('Greta', 'Two');
+
+      expect(await chatManager.getUnreadCount(testProjectPath)).toBe(2);
+      expect(await chatManager.getUnreadCount(testProjectPath)).toBe(2);
+
+      await chatManager.readUnread(testProjectPath);
+      expect(await chatManager.getUnreadCount(testProjectPath)).toBe(0);
+    });
+
+    it('should keep the cursor across restarts', async () => {
+      const identityKey = 'cursor-test';
+      const agent = new ChatManager(storage);
+      await agent.initialize(identityKey);
+      await postAs('Greta', 'Before restart');
+      await agent.readUnread(testProjectPath);
+      await agent.close();
+
+      const restarted = new ChatManager(storage);
+      await restarted.initialize(identityKey);
+
+      expect(restarted.getMyName()).toBe(agent.getMyName());
+      expect(await restarted.getUnreadCount(testProjectPath)).toBe(0);
+    });
+  });
+
+  describe('Editing and Retraction', () => {
+    let reader: ChatManager;
+
+    beforeEach(async () => {
+      reader = new ChatManager(storage);
+      await reader.initialize();
+    });
+
+    it('should keep earlier revisions when editing', async () => {
+      const messageId = await chatManager.sendMessage(testProjectPath, 'Tests pass');
+      const { message } = await chatManager.editMessage(
+        testProjectPath,
+        messageId.slice(0, 8),
+        'Tests fail on CI'
+      );
+
+      expect(message.content).toBe('Tests fail on CI');
+      expect(message.editedAt).toBeInstanceOf(Date);
+      expect(message.revisions?.map((r) => r.content)).toEqual(['Tests pass']);
+
+      const messages = await chatManager.getLastMessages(testProjectPath, 100);
+      expect(messages.find((m) => m.id === messageId)?.content).toBe('Tests fail on CI');
+    });
+
+    it('should notify only readers who already read the message', async () => {
+      const messageId = await chatManager.sendMessage(testProjectPath, 'Tests pass');
+      await reader.readUnread(testProjectPath);
+      const late = new ChatManager(storage);
+      await late.initialize();
+      await late.touch(testProjectPath);
+
+      const { notified } = await chatManager.editMessage(testProjectPath, messageId, 'Tests fail');
+
+      expect(notified).toEqual([reader.getMyName()]);
+      const { messages } = await reader.readUnread(testProjectPath);
+      const notice = messages.find((m) => m.metadata?.messageId === messageId);
+      expect(notice?.content).toContain('Tests fail');
+      expect(notice?.recipient).toBe(reader.getMyName());
+    });
+
+    it('should only let the sender edit or retract a message', async () => {
+      const messageId = await chatManager.sendMessage(testProjectPath, 'Mine');
+
+      await expect(reader.editMessage(testProjectPath, messageId, 'Yours')).rejects.toThrow(
+        'Only the sender'
+      );
+      await expect(reader.retractMessage(testProjectPath, messageId)).rejects.toThrow(
+        'Only the sender'
+      );
+    });
+
+    it('should retract a message and keep its content in the revisions', async () => {
+      const messageId = await chatManager.sendMessage(testProjectPath, 'Deploy is safe');
+      await reader.readUnread(testProjectPath);
+
+      const { message, notified } = await chatManager.retractMessage(testProjectPath, messageId);
+
+      expect(message.content).toBe('');
+      expect(message.retractedAt).toBeInstanceOf(Date);
+      expect(message.revisions?.map((r) => r.content)).toEqual(['Deploy is safe']);
+      expect(notified).toEqual([reader.getMyName()]);
+      await expect(chatManager.editMessage(testProjectPath, messageId, 'Again')).rejects.toThrow(
+        'Message has been retracted'
+      );
+    });
+
+    it('should search the current content only', async () => {
+      const editedId = await chatManager.sendMessage(testProjectPath, 'Database migration done');
+      const retractedId = await chatManager.sendMessage(testProjectPath, 'Release tagged');
+      expect(await chatManager.searchMessages(testProjectPath, 'migration')).toHaveLength(1);
+
+      await chatManager.editMessage(testProjectPath, editedId, 'Schema rollout pending');
+      await chatManager.retractMessage(testProjectPath, retractedId);
+
+      expect(await chatManager.searchMessages(testProjectPath, 'migration')).toEqual([]);
+      expect(await chatManager.searchMessages(testProjectPath, 'release')).toEqual([]);
+      const hits = await chatManager.searchMessages(testProjectPath, 'rollout');
+      expect(hits.map((hit) => hit.message.id)).toEqual([editedId]);
+    });
+  });
+
+  describe('Acknowledgements', () => {
+    let other: ChatManager;
+
+    beforeEach(async () => {
+      other = new ChatManager(storage);
+      await other.initialize();
+    });
+
+    it('should record one acknowledgement per agent', async () => {
+      const messageId = await chatManager.sendMessage(testProjectPath, 'Who can review #42?');
+
+      await other.ackMessage(testProjectPath, messageId, 'on it');
+      const message = await other.ackMessage(testProjectPath, messageId.slice(0, 8), 'done');
+
+      expect(message.acks).toHaveLength(1);
+      expect(message.acks?.[0]).toMatchObject({ agent: other.getMyName(), reaction: 'done' });
+      await expect(chatManager.ackMessage(testProjectPath, messageId)).rejects.toThrow(
+        'Cannot acknowledge your own message'
+      );
+    });
+
+    it('should reject long reactions', async () => {
+      const messageId = await chatManager.sendMessage(testProjectPath, 'Please review');
+      await expect(other.ackMessage(testProjectPath, messageId, 'x'.repeat(51))).rejects.toThrow(
+        'Reaction is too long'
+      );
+    });
+
+    it('should report acknowledgements and read receipts', async () => {
+      const third = new ChatManager(storage);
+      await third.initialize();
+      await third.touch(testProjectPath);
+      const messageId = await chatManager.sendMessage(testProjectPath, 'Deploying now');
+
+      await other.readUnread(testProjectPath);
+      let status = await chatManager.getMessageStatus(testProjectPath, messageId);
+      expect(status.acks).toEqual([]);
+      expect(status.readBy).toEqual([other.getMyName()]);
+      expect(status.unreadBy).toEqual([third.getMyName()]);
+
+      await third.ackMessage(testProjectPath, messageId, 'blocked');
+      status = await chatManager.getMessageStatus(testProjectPath, messageId);
+      expect(status.acks.map((ack) => ack.reaction)).toEqual(['blocked']);
+      expect(status.readBy.sort()).toEqual([other.getMyName(), third.getMyName()].sort());
+      expect(status.unreadBy).toEqual([]);
+    });
+
+    it('should count shown messages as read up to the first unread one not shown', async () => {
+      await other.touch(testProjectPath);
+      const firstId = await chatManager.sendMessage(testProjectPath, 'First');
+      const secondId = await chatManager.sendMessage(testProjectPath, 'Second');
+      const thirdId = await chatManager.sendMessage(testProjectPath, 'Third');
+
+      const shown = await other.getLastMessages(testProjectPath, 100);
+      await other.markRead(
+        testProjectPath,
+        shown.filter((msg) => msg.id !== firstId && msg.id !== thirdId)
+      );
+      expect((await chatManager.getMessageStatus(testProjectPath, secondId)).readBy).toEqual([]);
+
+      await other.markRead(testProjectPath, shown.filter((msg) => msg.id !== thirdId));
+      expect((await chatManager.getMessageStatus(testProjectPath, secondId)).readBy).toEqual([
+        other.getMyName(),
+      ]);
+      expect((await chatManager.getMessageStatus(testProjectPath, thirdId)).readBy).toEqual([]);
+
+      const { messages } = await other.readUnread(testProjectPath);
+      expect(messages.map((msg) => msg.content)).toEqual(['Third']);
+    });
+
+    it('should not reveal direct messages between other agents', async () => {
+      const messageId = (
+        await chatManager.sendDirectMessage(testProjectPath, other.getMyName(), 'Secret')
+      ).messageId;
+      const third = new ChatManager(storage);
+      await third.initialize();
+
+      await expect(third.getMessageStatus(testProjectPath, messageId)).rejects.toThrow(
+        'Message not found'
+      );
+      await expect(third.ackMessage(testProjectPath, messageId)).rejects.toThrow(
+        'Message not found'
+      );
+    });
+  });
+
+  describe('Questions', () => {
+    let callee: ChatManager;
+
+    beforeEach(async () => {
+      callee = new ChatManager(storage);
+      await callee.initialize();
+      await callee.touch(testProjectPath);
+    });
+
+    const answerWhenAsked = async (answer: string) => {
+      let pending = await callee.getPendingQuestions(testProjectPath);
+      while (pending.length === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        pending = await callee.getPendingQuestions(testProjectPath);
+      }
+      await callee.answerQuestion(testProjectPath, pending[0].questionId.slice(0, 8), answer);
+      return pending[0];
+    };
+
+    it('should return the answer to a question', async () => {
+      const [result, asked] = await Promise.all([
+        chatManager.askAgent(testProjectPath, 'Which port does the API use?', {
+          to: callee.getMyName(),
+          timeoutMs: 5000,
+        }),
+        answerWhenAsked('8080'),
+      ]);
+
+      expect(asked.askedOf).toBe(callee.getMyName());
+      expect(result.questionId).toBe(asked.questionId);
+      expect(result.answer?.content).toBe('8080');
+      expect(result.answer?.replyTo).toBe(result.question.id);
+      expect(result.recipientStatus).toBe('active');
+      expect(await callee.getPendingQuestions(testProjectPath)).toEqual([]);
+    });
+
+    it('should give up when the timeout expires', async () => {
+      const result = await chatManager.askAgent(testProjectPath, 'Anyone there?', {
+        timeoutMs: 50,
+      });
+
+      expect(result.answer).toBeNull();
+      expect(await callee.getPendingQuestions(testProjectPath)).toEqual([]);
+      await expect(
+        callee.answerQuestion(testProjectPath, result.questionId, 'Too late')
+      ).rejects.toThrow('Question has expired');
+    });
+
+    it('should accept only one answer per question', async () => {
+      const third = new ChatManager(storage);
+      await third.initialize();
+
+      const [result] = await Promise.all([
+        chatManager.askAgent(testProjectPath, 'Who takes the release?', { timeoutMs: 5000 }),
+        answerWhenAsked('Me'),
+      ]);
+
+      await expect(
+        third.answerQuestion(testProjectPath, result.questionId, 'Me too')
+      ).rejects.toThrow(`Question already answered by ${callee.getMyName()}`);
+    });
+
+    it('should only list questions for this agent or anyone', async () => {
+      const third = new ChatManager(storage);
+      await third.initialize();
+      await third.touch(testProjectPath);
+
+      const asks = [
+        chatManager.askAgent(testProjectPath, 'For the callee', {
+          to: callee.getMyName(),
+          timeoutMs: 200,
+        }),
+        chatManager.askAgent(testProjectPath, 'For anyone', { timeoutMs: 200 }),
+        chatManager.askAgent(testProjectPath, 'For the third', {
+          to: third.getMyName(),
+          timeoutMs: 200,
+        }),
+      ];
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const pending = await callee.getPendingQuestions(testProjectPath);
+      expect(pending.map((q) => q.message.content).sort()).toEqual([
+        'For anyone',
+        'For the callee',
+      ]);
+      expect(await chatManager.getPendingQuestions(testProjectPath)).toEqual([]);
+
+      const forThird = (await third.getPendingQuestions(testProjectPath)).find(
+        (q) => q.askedOf === third.getMyName()
+      )!;
+      await expect(
+        callee.answerQuestion(testProjectPath, forThird.questionId, 'Not mine')
+      ).rejects.toThrow(`Question is addressed to ${third.getMyName()}`);
+
+      await Promise.all(asks);
+    });
+  });
+
+  describe('Retention', () => {
+    const seed = (contents: string[], ageDays: number = 0) =>
+      storage.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        const timestamp = new Date(Date.now() - ageDays * 24 * 60 * 60 * 1000);
+        for (const content of contents) {
+          chatRoom.messages.push({
+            id: crypto.randomUUID(),
+            sender: 'Greta',
+            content,
+            timestamp,
+            type: 'text',
+          });
+        }
+      });
+
+    it('should archive the oldest messages beyond the limit, except pinned ones', async () => {
+      await seed(Array.from({ length: 110 }, (_, i) => `Message ${i}`));
+      const [first] = await chatManager.getLastMessages(testProjectPath, 1000);
+      await chatManager.pinMessage(testProjectPath, first.id.slice(0, 8));
+
+      const { retention, archived } = await chatManager.setRetention(testProjectPath, {
+        maxMessages: 100,
+      });
+
+      expect(retention).toEqual({ maxMessages: 100 });
+      expect(archived).toBe(10);
+      const messages = await chatManager.getLastMessages(testProjectPath, 1000);
+      expect(messages).toHaveLength(101);
+      expect(messages[0]).toMatchObject({
+        content: 'Message 0',
+        pinnedBy: chatManager.getMyName(),
+      });
+      expect(messages[1].content).toBe('Message 11');
+      const archive = await chatManager.getArchivedMessages(testProjectPath);
+      expect(archive.map((m) => m.content)).toEqual(
+        Array.from({ length: 10 }, (_, i) => `Message ${i + 1}`)
+      );
+    });
+
+    it('should archive messages older than the age limit', async () => {
+      await seed(['Old decision', 'Old chatter'], 40);
+      await seed(['Recent']);
+      const pinned = await chatManager.searchMessages(testProjectPath, 'decision');
+      await chatManager.pinMessage(testProjectPath, pinned[0].message.id);
+
+      await chatManager.setRetention(testProjectPath, { maxAgeDays: 30 });
+      await chatManager.sendMessage(testProjectPath, 'Newest');
+
+      const messages = await chatManager.getLastMessages(testProjectPath, 1000);
+      expect(messages.filter((m) => m.type === 'text').map((m) => m.content)).toEqual([
+        'Old decision',
+        'Recent',
+        'Newest',
+      ]);
+      expect(await chatManager.getPinnedMessages(testProjectPath)).toHaveLength(1);
+
+      await chatManager.pinMessage(testProjectPath, pinned[0].message.id, false);
+      await chatManager.setRetention(testProjectPath, { maxAgeDays: 30 });
+      const archive = await chatManager.getArchivedMessages(testProjectPath);
+      expect(archive.map((m) => m.content)).toEqual(['Old chatter', 'Old decision']);
+    });
+
+    it('should search archived messages on request', async () => {
+      await seed(['Deploy key rotated'], 40);
+      await seed(['Deploy tomorrow']);
+      await chatManager.setRetention(testProjectPath, { maxAgeDays: 30 });
+
+      expect(await chatManager.searchMessages(testProjectPath, 'deploy')).toHaveLength(1);
+      const hits = await chatManager.searchMessages(testProjectPath, 'deploy', {
+        includeArchived: true,
+        contextSize: 1,
+      });
+      expect(hits.map((hit) => [hit.message.content, hit.archived])).toEqual(
+        expect.arrayContaining([
+          ['Deploy key rotated', true],
+          ['Deploy tomorrow', false],
+        ])
+      );
+    });
+
+    it('should reject limits out of range', async () => {
+      await expect(
+        chatManager.setRetention(testProjectPath, { maxMessages: 10 })
+      ).rejects.toThrow('maxMessages must be a whole number between 100 and 50000');
+      await expect(
+        chatManager.setRetention(testProjectPath, { maxAgeDays: -1 })
+      ).rejects.toThrow('maxAgeDays must be a whole number between 0 and 3650');
+    });
+  });
+
+  describe('Export and Import', () => {
+    it('should export readable transcripts', async () => {
+      const questionId = await chatManager.sendMessage(testProjectPath, 'Is <main> green?');
+      await chatManager.sendMessage(testProjectPath, 'Yes', 'text', undefined, questionId);
+
+      const markdown = await chatManager.exportChat(testProjectPath, 'markdown');
+      expect(markdown).toContain(`# Chat transcript: ${testProjectPath}`);
+      expect(markdown).toContain('Is <main> green?');
+      expect(markdown).toContain(`_reply to #${questionId.slice(0, 8)}_`);
+
+      const html = await chatManager.exportChat(testProjectPath, 'html');
+      expect(html).toContain('Is &lt;main&gt; green?');
+      expect(html).not.toContain('<main>');
+    });
+
+    it('should import a bundle into another room once', async () => {
+      const otherProjectPath = `${testProjectPath}-copy`;
+      const rootId = await chatManager.sendMessage(testProjectPath, 'Plan: split the parser');
+      await chatManager.sendMessage(testProjectPath, 'Agreed', 'text', undefined, rootId);
+      await chatManager.sendMessage(otherProjectPath, 'Already here');
+      const bundle = await chatManager.exportChat(testProjectPath, 'json');
+      const exported = JSON.parse(bundle).messages.length;
+
+      expect(await chatManager.importChat(otherProjectPath, bundle)).toEqual({
+        imported: exported,
+        skipped: 0,
+      });
+      expect(await chatManager.importChat(otherProjectPath, bundle)).toEqual({
+        imported: 0,
+        skipped: exported,
+      });
+
+      const messages = await chatManager.getLastMessages(otherProjectPath, 100);
+      const seqs = messages.map((m) => m.seq!);
+      expect(seqs).toEqual([...seqs].sort((a, b) => a - b));
+      expect(messages.find((m) => m.content === 'Agreed')?.replyTo).toBe(rootId);
+      expect(await chatManager.getThread(otherProjectPath, rootId)).toHaveLength(2);
+    });
+
+    it('should append older history after the room and drop repeated IDs', async () => {
+      const otherProjectPath = `${testProjectPath}-copy`;
+      await chatManager.sendMessage(testProjectPath, 'Old news');
+      const bundle = JSON.parse(await chatManager.exportChat(testProjectPath, 'json'));
+      const exported = bundle.messages.length;
+      const oldMessage = bundle.messages.find((m: { content: string }) => m.content === 'Old news');
+      bundle.messages.push({ ...oldMessage, content: 'Old news, again' });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await chatManager.sendMessage(otherProjectPath, 'Fresh news');
+
+      expect(await chatManager.importChat(otherProjectPath, JSON.stringify(bundle))).toEqual({
+        imported: exported,
+        skipped: 1,
+      });
+
+      const messages = await chatManager.getLastMessages(otherProjectPath, 100);
+      const fresh = messages.find((m) => m.content === 'Fresh news')!;
+      const imported = messages.filter((m) => m.content.startsWith('Old news'));
+      expect(imported.map((m) => m.content)).toEqual(['Old news']);
+      expect(imported[0].seq!).toBeGreaterThan(fresh.seq!);
+      expect(imported[0].timestamp.toISOString()).toBe(oldMessage.timestamp);
+      expect(imported[0].timestamp.getTime()).toBeLessThan(fresh.timestamp.getTime());
+    });
+
+    it('should reject files that are not chat bundles', async () => {
+      await expect(chatManager.importChat(testProjectPath, '{"messages": []}')).rejects.toThrow(
+        'Invalid chat bundle'
+      );
+      await expect(chatManager.importChat(testProjectPath, 'not json')).rejects.toThrow(
+        'Invalid chat bundle'
+      );
+    });
+
+    it('should reject bundles with malformed messages or times', async () => {
+      const otherProjectPath = `${testProjectPath}-copy`;
+      await chatManager.sendMessage(testProjectPath, 'Hello');
+      const bundle = JSON.parse(await chatManager.exportChat(testProjectPath, 'json'));
+      const tamper = (change: (copy: any) => void): string => {
+        const copy = JSON.parse(JSON.stringify(bundle));
+        change(copy);
+        return JSON.stringify(copy);
+      };
+
+      const invalid = [
+        tamper((copy) => (copy.messages[0].content = { html: '<b>' })),
+        tamper((copy) => (copy.messages[0].type = 'shout')),
+        tamper((copy) => (copy.messages[0].timestamp = 'yesterday')),
+        tamper((copy) => (copy.lastSeen = { Greta: 'soon' })),
+        tamper((copy) => (copy.createdAt = 'long ago')),
+      ];
+      for (const json of invalid) {
+        await expect(chatManager.importChat(otherProjectPath, json)).rejects.toThrow(
+          'Invalid chat bundle'
+        );
+      }
+      expect(await chatManager.getLastMessages(otherProjectPath, 100)).toEqual([]);
+    });
+  });
+
+  describe('Waiting for Messages', () => {
+    const postLater = (sender: string, content: string, delayMs: number) =>
+      setTimeout(() => {
+        void storage.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+          chatRoom.messages.push({
+            id: `${sender}-${content}`,
+            sender,
+            content,
+            timestamp: new Date(),
+            type: 'text',
+          });
+        });
+      }, delayMs);
+
+    it('should resolve when another agent posts a message', async () => {
+      await chatManager.sendMessage(testProjectPath, 'Anyone there?');
+      postLater('Greta', 'Here!', 100);
+
+      const messages = await chatManager.waitForMessages(testProjectPath, {
+        timeoutMs: 3000,
+      });
+
+      expect(messages.map((m) => m.content)).toEqual(['Here!']);
+    });
+
+    it('should ignore messages that do not match the filters', async () => {
+      await chatManager.sendMessage(testProjectPath, 'Klaus, are you done?');
+      postLater('Greta', 'Not me', 100);
+      postLater('Klaus', 'Done', 300);
+
+      const messages = await chatManager.waitForMessages(testProjectPath, {
+        timeoutMs: 3000,
+        sender: 'Klaus',
+      });
+
+      expect(messages.map((m) => m.content)).toEqual(['Done']);
+    });
+
+    it('should return an empty array when the timeout expires', async () => {
+      await chatManager.sendMessage(testProjectPath, 'Hello?');
+
+      const messages = await chatManager.waitForMessages(testProjectPath, {
+        timeoutMs: 200,
+      });
+
+      expect(messages).toEqual([]);
+    });
+  });
+
+  describe('Chat Room Watching', () => {
+    it('should list saved chat rooms', async () => {
+      await chatManager.sendMessage(testProjectPath, 'Hello');
+
+      const rooms = await chatManager.listChatRooms();
+      expect(rooms).toContain(testProjectPath);
+    });
+
+    it('should notify about new messages but not about heartbeats', async () => {
+      await chatManager.sendMessage(testProjectPath, 'First');
+
+      let notifications = 0;
+      const stop = await chatManager.watchForNewMessages(testProjectPath, () => {
+        notifications++;
+      });
+
+      try {
+        await chatManager.heartbeat(testProjectPath);
+        await new Promise((resolve) => setTimeout(resolve, 300));
+        expect(notifications).toBe(0);
+
+        await chatManager.sendMessage(testProjectPath, 'Second');
+        await new Promise((resolve) => setTimeout(resolve, 300));
+        expect(notifications).toBe(1);
+      } finally {
+        stop();
+      }
+    });
+  });
+
+  describe('Task Board', () => {
+    it('should create tasks with sequential IDs', async () => {
+      const first = await chatManager.createTask(testProjectPath, 'Write API tests');
+      const second = await chatManager.createTask(testProjectPath, 'Update docs', 'README only');
+
+      expect(first.id).toBe('T1');
+      expect(first.status).toBe('open');
+      expect(second.id).toBe('T2');
+      expect(second.description).toBe('README only');
+    });
+
+    it('should claim an open task', async () => {
+      await chatManager.createTask(testProjectPath, 'Write API tests');
+
+      const task = await chatManager.claimTask(testProjectPath, 't1');
+
+      expect(task.status).toBe('claimed');
+      expect(task.assignee).toBe(chatManager.getMyName());
+    });
+
+    it('should report who holds a task claimed by another agent', async () => {
+      await chatManager.createTask(testProjectPath, 'Write API tests');
+      await storage.atomicUpdateTaskBoard(testProjectPath, (taskBoard) => {
+        taskBoard.tasks[0].assignee = 'Greta';
+        taskBoard.tasks[0].status = 'claimed';
+      });
+
+      await expect(chatManager.claimTask(testProjectPath, 'T1')).rejects.toThrow(
+        'Task T1 is already claimed by Greta'
+      );
+    });
+
+    it('should release a task when set back to open', async () => {
+      await chatManager.createTask(testProjectPath, 'Write API tests');
+      await chatManager.claimTask(testProjectPath, 'T1');
+
+      const task = await chatManager.updateTaskStatus(testProjectPath, 'T1', 'open');
+
+      expect(task.status).toBe('open');
+      expect(task.assignee).toBeUndefined();
+    });
+
+    it('should filter tasks by status', async () => {
+      await chatManager.createTask(testProjectPath, 'First');
+      await chatManager.createTask(testProjectPath, 'Second');
+      await chatManager.updateTaskStatus(testProjectPath, 'T2', 'done');
+
+      const done = await chatManager.listTasks(testProjectPath, { status: 'done' });
+      expect(done.map((t) => t.title)).toEqual(['Second']);
+    });
+
+    it('should post task changes as notifications', async () => {
+      await chatManager.createTask(testProjectPath, 'Write API tests');
+      await chatManager.claimTask(testProjectPath, 'T1');
+
+      const messages = await chatManager.getLastMessages(testProjectPath, 100);
+      const notifications = messages.filter((m) => m.type === 'notification');
+
+      expect(notifications.map((m) => m.metadata?.taskStatus)).toEqual(['open', 'claimed']);
+    });
+  });
+
+  describe('Path Claims', () => {
+    const claimAs = async (agent: string, pattern: string, lastSeen: Date) => {
+      await storage.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.lastSeen[agent] = lastSeen;
+        chatRoom.claims.push({ pattern, agent, claimedAt: lastSeen });
+      });
+    };
+
+    it('should claim and list paths', async () => {
+      const { claims, conflicts } = await chatManager.claimPaths(
+        testProjectPath,
+        ['src/api/**', './README.md'],
+        'Refactoring the API'
+      );
+
+      expect(conflicts).toEqual([]);
+      expect(claims.map((c) => c.pattern)).toEqual(['src/api/**', 'README.md']);
+
+      const listed = await chatManager.listClaims(testProjectPath);
+      expect(listed.map((c) => c.agent)).toEqual([
+        chatManager.getMyName(),
+        chatManager.getMyName(),
+      ]);
+    });
+
+    it('should report who holds an overlapping claim and claim nothing', async () => {
+      await claimAs('Greta', 'src/api/**', new Date());
+
+      const { claims, conflicts } = await chatManager.claimPaths(testProjectPath, [
+        'docs/**',
+        'src/api/users.ts',
+      ]);
+
+      expect(claims).toEqual([]);
+      expect(conflicts).toEqual([
+        { pattern: 'src/api/users.ts', heldBy: 'Greta', heldPattern: 'src/api/**' },
+      ]);
+    });
+
+    it('should treat a directory claim as covering its files', async () => {
+      await claimAs('Greta', 'src/api', new Date());
+
+      const { conflicts } = await chatManager.claimPaths(testProjectPath, ['src/api/*.ts']);
+      expect(conflicts.map((c) => c.heldBy)).toEqual(['Greta']);
+    });
+
+    it('should not conflict with non-overlapping patterns', async () => {
+      await claimAs('Greta', 'src/api/*.ts', new Date());
+
+      const { conflicts } = await chatManager.claimPaths(testProjectPath, ['src/ui/**', 'src/api.ts']);
+      expect(conflicts).toEqual([]);
+    });
+
+    it('should conflict with wildcard patterns that match some of the same files', async () => {
+      await claimAs('Greta', 'src/**/*.ts', new Date());
+      await claimAs('Klaus', 'src/*.ts', new Date());
+
+      const { conflicts } = await chatManager.claimPaths(testProjectPath, [
+        'src/api/**',
+        'src/a*.ts',
+      ]);
+      expect(conflicts).toEqual(
+        expect.arrayContaining([
+          { pattern: 'src/api/**', heldBy: 'Greta', heldPattern: 'src/**/*.ts' },
+          { pattern: 'src/a*.ts', heldBy: 'Klaus', heldPattern: 'src/*.ts' },
+        ])
+      );
+    });
+
+    it('should not conflict with wildcard patterns for different files', async () => {
+      await claimAs('Greta', 'src/**/*.ts', new Date());
+
+      const { conflicts } = await chatManager.claimPaths(testProjectPath, [
+        'src/**/*.md',
+        'docs/*.ts',
+      ]);
+      expect(conflicts).toEqual([]);
+    });
+
+    it('should ignore claims whose holder has not been seen within the lease', async () => {
+      await claimAs('Greta', 'src/**', new Date(Date.now() - 60 * 60 * 1000));
+
+      const { conflicts } = await chatManager.claimPaths(testProjectPath, ['src/index.ts']);
+      expect(conflicts).toEqual([]);
+
+      const listed = await chatManager.listClaims(testProjectPath);
+      expect(listed.map((c) => c.agent)).not.toContain('Greta');
+    });
+
+    it('should release claims', async () => {
+      await chatManager.claimPaths(testProjectPath, ['src/a.ts', 'src/b.ts']);
+
+      expect(await chatManager.releasePaths(testProjectPath, ['src/a.ts'])).toEqual(['src/a.ts']);
+      expect(await chatManager.releasePaths(testProjectPath)).toEqual(['src/b.ts']);
+      expect(await chatManager.listClaims(testProjectPath)).toEqual([]);
+    });
+  });
+
+  describe('Mentions', () => {
+    const postAs = async (sender: string, content: string, metadata?: Record<string, unknown>) => {
+      await storage.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.lastSeen[sender] = new Date();
+        chatRoom.messages.push({
+          id: `${sender}-${content}`,
+          sender,
+          content,
+          timestamp: new Date(),
+          type: 'text',
+          metadata,
+        });
+      });
+    };
+
+    it('should store mentions of known agents in metadata', async () => {
+      await postAs('Greta', 'Hi all');
+
+      const messageId = await chatManager.sendMessage(
+        testProjectPath,
+        'Thanks @greta, and @Nobody, see mail@example.com'
+      );
+
+      const messages = await chatManager.getLastMessages(testProjectPath, 100);
+      const message = messages.find((m) => m.id === messageId);
+      expect(message?.metadata?.mentions).toEqual(['Greta']);
+    });
+
+    it('should store no mentions when nobody is mentioned', async () => {
+      const messageId = await chatManager.sendMessage(testProjectPath, 'No mentions here');
+
+      const messages = await chatManager.getLastMessages(testProjectPath, 100);
+      expect(messages.find((m) => m.id === messageId)?.metadata).toEqual({ mentions: [] });
+    });
+
+    it('should replace mentions supplied in the metadata', async () => {
+      await postAs('Greta', 'Hi all');
+
+      const messageId = await chatManager.sendMessage(testProjectPath, 'Nothing here', 'text', {
+        mentions: ['Greta'],
+      });
+
+      const messages = await chatManager.getLastMessages(testProjectPath, 100);
+      expect(messages.find((m) => m.id === messageId)?.metadata?.mentions).toEqual([]);
+    });
+
+    it('should return messages mentioning this agent', async () => {
+      const myName = chatManager.getMyName();
+      await postAs('Greta', `@${myName} can you review?`, { mentions: [myName] });
+      await postAs('Klaus', 'Unrelated');
+      await postAs('Klaus', `Ping @${myName}`);
+
+      const mentions = await chatManager.getMentions(testProjectPath);
+      expect(mentions.map((m) => m.sender)).toEqual(['Greta', 'Klaus']);
+    });
+
+    it('should only return unread mentions when asked', async () => {
+      const myName = chatManager.getMyName();
+      await postAs('Greta', `@${myName} first`, { mentions: [myName] });
+      await chatManager.readUnread(testProjectPath);
+      await postAs('Greta', `@${myName} second`, { mentions: [myName] });
+
+      const mentions = await chatManager.getMentions(testProjectPath, { unreadOnly: true });
+      expect(mentions.map((m) => m.content)).toEqual([`@${myName} second`]);
+    });
+  });
+
   describe('Message Searching', () => {
     beforeEach(async () => {
       await chatManager.sendMessage(testProjectPath, 'This is a test message.');
@@ -106,24 +1225,109 @@ describe('ChatManager', () => {
       await chatManager.sendMessage(testProjectPath, 'Completely different.');
     });
 
-    it('should return messages matching a simple query', async () => {
+    const contents = (hits: Array<{ message: { content: string } }>) =>
+      hits.map((hit) => hit.message.content);
+
+    it('should return messages matching a simple query, shorter messages first', async () => {
       const results = await chatManager.searchMessages(testProjectPath, 'test');
-      expect(results.length).toBe(2);
-      expect(results[0].content).toBe('This is a test message.');
-      expect(results[1].content).toBe('Another TEST message.');
+      expect(contents(results)).toEqual(['Another TEST message.', 'This is a test message.']);
     });
 
     it('should be case-insensitive', async () => {
       const results = await chatManager.searchMessages(testProjectPath, 'TEST');
       expect(results.length).toBe(2);
-      expect(results[0].content).toBe('This is a test message.');
-      expect(results[1].content).toBe('Another TEST message.');
     });
 
     it('should return an empty array if no messages match', async () => {
       const results = await chatManager.searchMessages(testProjectPath, 'nomatch');
       expect(results.length).toBe(0);
     });
+
+    it('should require every word and rank by relevance', async () => {
+      await chatManager.sendMessage(testProjectPath, 'deploy deploy deploy staging today');
+      await chatManager.sendMessage(testProjectPath, 'deploy to staging later this week maybe');
+      await chatManager.sendMessage(testProjectPath, 'deploy to production');
+
+      const results = await chatManager.searchMessages(testProjectPath, 'deploy staging');
+      expect(contents(results)).toEqual([
+        'deploy deploy deploy staging today',
+        'deploy to staging later this week maybe',
+      ]);
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+    });
+
+    it('should match word prefixes', async () => {
+      const results = await chatManager.searchMessages(testProjectPath, 'mess');
+      expect(results.length).toBe(2);
+    });
+
+    it('should match quoted phrases verbatim', async () => {
+      const results = await chatManager.searchMessages(testProjectPath, '"a test message"');
+      expect(contents(results)).toEqual(['This is a test message.']);
+    });
+
+    it('should support regular expressions', async () => {
+      const results = await chatManager.searchMessages(testProjectPath, '^(another|completely)', {
+        regex: true,
+      });
+      expect(contents(results).sort()).toEqual(['Another TEST message.', 'Completely different.']);
+
+      await expect(
+        chatManager.searchMessages(testProjectPath, '(unclosed', { regex: true })
+      ).rejects.toThrow('Invalid regular expression: /(unclosed/i: Unterminated group');
+    });
+
+    it('should filter by sender, type, metadata keys and date range', async () => {
+      await chatManager.sendMessage(testProjectPath, 'Run the tests', 'command', {
+        command: 'test',
+        args: {},
+        target: 'ci',
+      });
+
+      const byType = await chatManager.searchMessages(testProjectPath, '', { type: 'command' });
+      const byKey = await chatManager.searchMessages(testProjectPath, 'tests', {
+        metadataKeys: ['target'],
+      });
+      const bySender = await chatManager.searchMessages(testProjectPath, 'test', {
+        sender: 'Greta',
+      });
+      const future = await chatManager.searchMessages(testProjectPath, 'test', {
+        sinceTimestamp: new Date(Date.now() + 60 * 1000).toISOString(),
+      });
+
+      expect(contents(byType)).toEqual(['Run the tests']);
+      expect(contents(byKey)).toEqual(['Run the tests']);
+      expect(bySender).toEqual([]);
+      expect(future).toEqual([]);
+    });
+
+    it('should include surrounding messages', async () => {
+      const [hit] = await chatManager.searchMessages(testProjectPath, '"another test"', {
+        contextSize: 1,
+      });
+
+      expect(hit.before.map((m) => m.content)).toEqual(['This is a test message.']);
+      expect(hit.after.map((m) => m.content)).toEqual(['Completely different.']);
+    });
+
+    it('should search all chat rooms', async () => {
+      const otherProject = `${testProjectPath}-other`;
+      await chatManager.sendMessage(otherProject, 'A test from elsewhere');
+
+      const results = await chatManager.searchMessages(testProjectPath, 'test', {
+        allRooms: true,
+      });
+
+      expect(results.map((hit) => hit.projectPath)).toContain(otherProject);
+      expect(results.length).toBe(3);
+    });
+
+    it('should save the search index for other instances', async () => {
+      await chatManager.searchMessages(testProjectPath, 'test');
+
+      const saved = await storage.loadSearchIndex(testProjectPath);
+      expect(saved?.docs.length).toBeGreaterThanOrEqual(3);
+    });
   });
 
   describe('Agent Identity', () => {
@@ -134,6 +1338,178 @@ describe('ChatManager', () => {
     });
   });
 
+  describe('Human Participants', () => {
+    it('should post under the chosen name with the human role', async () => {
+      const human = new ChatManager(storage);
+      human.initializeAsHuman(' Alice ');
+      await human.sendMessage(testProjectPath, 'Please prioritize the login bug');
+
+      const [message] = await chatManager.searchMessages(testProjectPath, 'login');
+      expect(message.message.sender).toBe('Alice');
+      const agents = await chatManager.getAgentDetails(testProjectPath);
+      expect(agents.find((agent) => agent.name === 'Alice')?.profile?.role).toBe('human');
+      expect(() => human.initializeAsHuman('system')).toThrow('The name System is reserved');
+    });
+
+    it('should not let a human take an agent name', async () => {
+      const human = new ChatManager(storage);
+
+      expect(() => human.initializeAsHuman(chatManager.getMyName())).toThrow(
+        'reserved for agents'
+      );
+      expect(() => human.initializeAsHuman('greta')).toThrow('reserved for agents');
+      expect(() => human.initializeAsHuman('Klaus2')).toThrow('reserved for agents');
+      expect(() => human.initializeAsHuman('Gretchen')).not.toThrow();
+    });
+  });
+
+  describe('Agent Profiles', () => {
+    it('should show the profile and last seen time in agent details', async () => {
+      await chatManager.setProfile(testProjectPath, {
+        role: 'reviewer',
+        capabilities: 'TypeScript, testing',
+        activity: 'Reviewing the API changes',
+      });
+
+      const agents = await chatManager.getAgentDetails(testProjectPath);
+      const me = agents.find((a) => a.name === chatManager.getMyName());
+
+      expect(me?.profile?.role).toBe('reviewer');
+      expect(me?.profile?.capabilities).toBe('TypeScript, testing');
+      expect(me?.profile?.activity).toBe('Reviewing the API changes');
+      expect(me?.lastSeen).toBeInstanceOf(Date);
+    });
+
+    it('should keep omitted fields and clear empty ones', async () => {
+      await chatManager.setProfile(testProjectPath, { role: 'reviewer', activity: 'Reviewing' });
+      const profile = await chatManager.setProfile(testProjectPath, { activity: '' });
+
+      expect(profile.role).toBe('reviewer');
+      expect(profile.activity).toBeUndefined();
+    });
+
+    it('should carry role but not activity into other rooms', async () => {
+      const otherProject = `${testProjectPath}-other`;
+      await chatManager.setProfile(testProjectPath, { role: 'implementer', activity: 'Coding' });
+      await chatManager.sendMessage(otherProject, 'Hello');
+
+      const agents = await chatManager.getAgentDetails(otherProject);
+      const me = agents.find((a) => a.name === chatManager.getMyName());
+
+      expect(me?.profile?.role).toBe('implementer');
+      expect(me?.profile?.activity).toBeUndefined();
+    });
+  });
+
+  describe('Presence', () => {
+    const seeAs = async (agent: string, lastSeen: Date) => {
+      await storage.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.lastSeen[agent] = lastSeen;
+      });
+    };
+
+    it('should derive presence states from last seen times', async () => {
+      await chatManager.sendMessage(testProjectPath, 'Hello');
+      await seeAs('Greta', new Date(Date.now() - 3 * 60 * 1000));
+      await seeAs('Klaus', new Date(Date.now() - 7 * 60 * 1000));
+
+      const agents = await chatManager.getAgentDetails(testProjectPath);
+      const presence = Object.fromEntries(agents.map((a) => [a.name, a.presence]));
+
+      expect(presence[chatManager.getMyName()]).toBe('online');
+      expect(presence['Greta']).toBe('idle');
+      expect(presence['Klaus']).toBe('away');
+    });
+
+    it('should announce agents that timed out once', async () => {
+      await chatManager.sendMessage(testProjectPath, 'Hello');
+      await seeAs('Greta', new Date(Date.now() - 60 * 60 * 1000));
+
+      await chatManager.heartbeat(testProjectPath);
+      await chatManager.heartbeat(testProjectPath);
+
+      const messages = await chatManager.getLastMessages(testProjectPath, 100);
+      const timeouts = messages.filter((m) => m.metadata?.presence === 'timeout');
+      expect(timeouts.map((m) => m.content)).toEqual(['Greta timed out']);
+      expect(await chatManager.getAgentNames(testProjectPath)).not.toContain('Greta');
+    });
+
+    it('should announce leaving and rejoining', async () => {
+      const myName = chatManager.getMyName();
+      await chatManager.sendMessage(testProjectPath, 'Hello');
+
+      await chatManager.leave(testProjectPath);
+      const names = await chatManager.getAgentNames(testProjectPath);
+      const details = await chatManager.getAgentDetails(testProjectPath);
+      expect(names).toEqual([myName]);
+      expect(details).toHaveLength(1);
+
+      await chatManager.sendMessage(testProjectPath, 'Back again');
+
+      const messages = await chatManager.getLastMessages(testProjectPath, 100);
+      expect(messages.slice(-3).map((m) => m.content)).toEqual([
+        `${myName} left the chat`,
+        `${myName} joined the chat`,
+        'Back again',
+      ]);
+    });
+
+    it('should not count announcements about yourself as unread', async () => {
+      await chatManager.sendMessage(testProjectPath, 'Hello');
+      const unreadBefore = await chatManager.getUnreadCount(testProjectPath);
+      await chatManager.leave(testProjectPath);
+      await chatManager.heartbeat(testProjectPath);
+
+      expect(await chatManager.getUnreadCount(testProjectPath)).toBe(unreadBefore);
+    });
+
+    it('should leave visited rooms on close', async () => {
+      const manager = new ChatManager(storage);
+      await manager.initialize(`test-key-close-${Date.now()}`);
+      await manager.sendMessage(testProjectPath, 'Hello');
+      await manager.close();
+
+      const messages = await chatManager.getLastMessages(testProjectPath, 100);
+      expect(messages[messages.length - 1].content).toBe(`${manager.getMyName()} left the chat`);
+      expect(await chatManager.getAgentNames(testProjectPath)).not.toContain(manager.getMyName());
+    });
+  });
+
+  describe('Stable Identity', () => {
+    it('should reuse the same name for the same identity key', async () => {
+      const identityKey = `test-key-${Date.now()}`;
+
+      const first = new ChatManager(storage);
+      await first.initialize(identityKey);
+      const name = first.getMyName();
+      await first.close();
+
+      const restarted = new ChatManager(storage);
+      await restarted.initialize(identityKey);
+      try {
+        expect(restarted.getMyName()).toBe(name);
+      } finally {
+        await restarted.close();
+      }
+    });
+
+    it('should not share a name between two live instances with the same key', async () => {
+      const identityKey = `test-key-live-${Date.now()}`;
+
+      const first = new ChatManager(storage);
+      await first.initialize(identityKey);
+      const second = new ChatManager(storage);
+      await second.initialize(identityKey);
+
+      try {
+        expect(second.getMyName()).not.toBe(first.getMyName());
+      } finally {
+        await first.close();
+        await second.close();
+      }
+    });
+  });
+
   describe('Multi-Project Isolation', () => {
     it('should maintain separate chat histories for different projects', async () => {
       const projectPathA = `/tmp/test-project-a-${Date.now()}-1`;
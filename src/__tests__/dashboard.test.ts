@@ -0,0 +1,114 @@
+/**
+ * Unit tests for the web dashboard (DashboardServer)
+ */
+
+import * as http from 'http';
+import { ChatManager } from '../chat-manager';
+import { DashboardServer } from '../dashboard';
+import { InMemoryStorage } from '../memory-storage';
+
+describe('DashboardServer', () => {
+  let storage: InMemoryStorage;
+  let dashboard: DashboardServer;
+  let baseUrl: string;
+  const testProjectPath = '/path/to/project';
+
+  const postMessage = (body: unknown, contentType = 'application/json') =>
+    fetch(`${baseUrl}/api/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': contentType },
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(async () => {
+    storage = new InMemoryStorage();
+    dashboard = new DashboardServer(storage);
+    const port = await dashboard.start(0);
+    baseUrl = `http://localhost:${port}`;
+  });
+
+  afterEach(async () => {
+    await dashboard.stop();
+  });
+
+  it('should list rooms and show their messages and agents', async () => {
+    const agent = new ChatManager(storage);
+    await agent.initialize();
+    await agent.sendMessage(testProjectPath, 'Working on the parser');
+
+    const { rooms } = await (await fetch(`${baseUrl}/api/rooms`)).json();
+    expect(rooms).toEqual([expect.objectContaining({ projectPath: testProjectPath })]);
+
+    const room = await (
+      await fetch(`${baseUrl}/api/room?project=${encodeURIComponent(testProjectPath)}`)
+    ).json();
+    expect(room.messages.map((m: { content: string }) => m.content)).toContain(
+      'Working on the parser'
+    );
+    expect(room.agents.map((a: { name: string }) => a.name)).toEqual([agent.getMyName()]);
+  });
+
+  it('should post messages as the named human', async () => {
+    const res = await postMessage({ project: testProjectPath, name: 'Alice', content: 'Hi all' });
+    expect(res.status).toBe(201);
+
+    const viewer = new ChatManager(storage);
+    await viewer.initialize();
+    const [hit] = await viewer.searchMessages(testProjectPath, 'all');
+    expect(hit.message.sender).toBe('Alice');
+
+    expect((await postMessage({ project: testProjectPath, name: 'Alice' })).status).toBe(400);
+    const asAgent = await postMessage({
+      project: testProjectPath,
+      name: viewer.getMyName(),
+      content: 'Posing as an agent',
+    });
+    expect(asAgent.status).toBe(400);
+    expect((await asAgent.json()).error).toContain('reserved for agents');
+    expect(
+      (await postMessage({ project: testProjectPath, name: 'A', content: 'x' }, 'text/plain'))
+        .status
+    ).toBe(415);
+  });
+
+  it('should stream new messages as server-sent events', async () => {
+    const controller = new AbortController();
+    const res = await fetch(
+      `${baseUrl}/api/events?project=${encodeURIComponent(testProjectPath)}`,
+      { signal: controller.signal }
+    );
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+
+    await postMessage({ project: testProjectPath, name: 'Alice', content: 'Streamed' });
+
+    let received = '';
+    while (!received.includes('Streamed')) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+      received += decoder.decode(value);
+    }
+    controller.abort();
+
+    expect(received).toContain('event: message');
+    expect(received).toMatch(/id: \d+\nevent: message\ndata: .*"content":"Streamed"/);
+  });
+
+  it('should reject requests for other hosts', async () => {
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      const req = http.request(
+        `${baseUrl}/api/rooms`,
+        { headers: { Host: 'attacker.example' } },
+        (res) => {
+          res.resume();
+          resolve(res.statusCode);
+        }
+      );
+      req.on('error', reject);
+      req.end();
+    });
+    expect(status).toBe(403);
+  });
+});
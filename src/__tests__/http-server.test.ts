@@ -0,0 +1,181 @@
+/**
+ * Unit tests for the Streamable HTTP transport (StreamableHttpServer)
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { AgentMessagingServer } from '../index';
+import { StreamableHttpServer } from '../http-server';
+import { SharedStorage } from '../session-storage';
+
+describe('StreamableHttpServer', () => {
+  let tempDir: string;
+  let storage: SharedStorage;
+  let httpServer: StreamableHttpServer;
+  let endpoint: URL;
+  let clients: Client[];
+  const testProjectPath = '/path/to/project';
+
+  const connect = async (): Promise<Client> => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(endpoint));
+    clients.push(client);
+    return client;
+  };
+
+  const callTool = async (
+    client: Client,
+    name: string,
+    args: Record<string, unknown> = {}
+  ): Promise<string> => {
+    const result = await client.callTool({
+      name,
+      arguments: { project_path: testProjectPath, ...args },
+    });
+    return (result.content as Array<{ text: string }>)[0].text;
+  };
+
+  const myName = async (client: Client): Promise<string> =>
+    (await callTool(client, 'read_messages')).match(/You are: (\S+)/)![1];
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-messaging-'));
+    storage = new SharedStorage({
+      dataDir: path.join(tempDir, 'data'),
+      identityDir: path.join(tempDir, 'identities'),
+    });
+    httpServer = new StreamableHttpServer(
+      (chatManager) => new AgentMessagingServer(chatManager),
+      storage
+    );
+    const port = await httpServer.start(0);
+    endpoint = new URL(`http://localhost:${port}/mcp`);
+    clients = [];
+  });
+
+  afterEach(async () => {
+    for (const client of clients) {
+      await client.close();
+    }
+    await httpServer.stop();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should give every session its own agent identity', async () => {
+    const alice = await connect();
+    const bob = await connect();
+
+    const names = [await myName(alice), await myName(bob)];
+    expect(names[0]).not.toBe(names[1]);
+
+    const agents = await callTool(alice, 'get_agent_names');
+    expect(agents).toContain(names[0]);
+    expect(agents).toContain(names[1]);
+  });
+
+  it('should wake up waiting sessions when another session sends a message', async () => {
+    const alice = await connect();
+    const bob = await connect();
+    await myName(alice);
+    const bobName = await myName(bob);
+
+    const waiting = callTool(alice, 'wait_for_messages', {
+      timeout_seconds: 20,
+      sender: bobName,
+    });
+    await callTool(bob, 'send_message', { message: 'Parser is done' });
+
+    expect(await waiting).toContain('Parser is done');
+  });
+
+  it('should count messages shown by read_messages as read', async () => {
+    const alice = await connect();
+    const bob = await connect();
+    const bobName = await myName(bob);
+    const sent = await callTool(alice, 'send_message', { message: 'Deploying now' });
+    const messageId = sent.match(/ID: ([\w-]+)/)![1];
+
+    await callTool(bob, 'read_messages');
+
+    const status = await callTool(alice, 'get_message_status', { message_id: messageId });
+    expect(status).toContain(`Read by 1: ${bobName}`);
+  });
+
+  it('should close a session when the client ends it', async () => {
+    const alice = await connect();
+    await myName(alice);
+    const transport = alice.transport as StreamableHTTPClientTransport;
+    const sessionId = transport.sessionId!;
+
+    await transport.terminateSession();
+
+    const res = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'Mcp-Session-Id': sessionId,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it('should close sessions that stay idle', async () => {
+    await httpServer.stop();
+    httpServer = new StreamableHttpServer(
+      (chatManager) => new AgentMessagingServer(chatManager),
+      storage,
+      { idleTimeoutMs: 300 }
+    );
+    endpoint = new URL(`http://localhost:${await httpServer.start(0)}/mcp`);
+
+    const post = async (body: unknown, sessionId?: string) => {
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+        },
+        body: JSON.stringify(body),
+      });
+      await res.text();
+      return res;
+    };
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    const initialized = await post({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: '2025-03-26',
+        capabilities: {},
+        clientInfo: { name: 'test-client', version: '1.0.0' },
+      },
+    });
+    const sessionId = initialized.headers.get('mcp-session-id')!;
+
+    // Each request restarts the idle timer
+    await sleep(200);
+    expect((await post({ jsonrpc: '2.0', id: 2, method: 'ping' }, sessionId)).status).toBe(200);
+    await sleep(200);
+    expect((await post({ jsonrpc: '2.0', id: 3, method: 'ping' }, sessionId)).status).toBe(200);
+
+    await sleep(600);
+    expect((await post({ jsonrpc: '2.0', id: 4, method: 'ping' }, sessionId)).status).toBe(404);
+  });
+
+  it('should reject requests without a session that do not initialize one', async () => {
+    const res = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Unit tests for the file storage backend (PersistenceManager)
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { jest } from '@jest/globals';
+import { AgentNamer } from '../agent-namer';
+import { PersistenceManager } from '../persistence';
+import { Message } from '../types';
+
+function createMessage(content: string): Message {
+  return {
+    id: crypto.randomUUID(),
+    sender: 'Greta',
+    content,
+    timestamp: new Date(),
+    type: 'text',
+  };
+}
+
+describe('PersistenceManager', () => {
+  let tempDir: string;
+  let dataDir: string;
+  let persistence: PersistenceManager;
+  const testProjectPath = '/path/to/project';
+
+  const createPersistence = () =>
+    new PersistenceManager({ dataDir, identityDir: path.join(tempDir, 'identities') });
+
+  const roomDir = (projectPath: string) => {
+    const hash = crypto.createHash('sha256').update(projectPath).digest('hex');
+    return path.join(dataDir, 'rooms', hash);
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-messaging-'));
+    dataDir = path.join(tempDir, 'data');
+    persistence = createPersistence();
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('Append-only log', () => {
+    it('should append messages without rewriting the snapshot', async () => {
+      await persistence.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.messages.push(createMessage('First'));
+      });
+      const files = await fs.readdir(roomDir(testProjectPath));
+      const snapshot = files.find((file) => file.startsWith('snapshot-'))!;
+      const snapshotStat = await fs.stat(path.join(roomDir(testProjectPath), snapshot));
+
+      await persistence.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.messages.push(createMessage('Second'));
+      });
+
+      const after = await fs.stat(path.join(roomDir(testProjectPath), snapshot));
+      expect(after.mtimeMs).toBe(snapshotStat.mtimeMs);
+
+      const log = await fs.readFile(
+        path.join(roomDir(testProjectPath), 'log-000001-000001.jsonl'),
+        'utf-8'
+      );
+      expect(log).toContain('"content":"Second"');
+    });
+
+    it('should show appends from another instance', async () => {
+      const other = createPersistence();
+      await persistence.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.messages.push(createMessage('First'));
+      });
+      expect((await other.loadChatRoom(testProjectPath))?.messages).toHaveLength(1);
+
+      await persistence.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.messages.push(createMessage('Second'));
+        chatRoom.lastSeen['Greta'] = new Date();
+      });
+
+      const chatRoom = await other.loadChatRoom(testProjectPath);
+      expect(chatRoom?.messages.map((m) => m.content)).toEqual(['First', 'Second']);
+      expect(chatRoom?.messages.map((m) => m.seq)).toEqual([1, 2]);
+      expect(chatRoom?.lastSeen['Greta']).toBeInstanceOf(Date);
+    });
+
+    it('should store pruning as removals', async () => {
+      await persistence.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.messages.push(createMessage('Old'), createMessage('Kept'));
+      });
+      await persistence.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.messages = chatRoom.messages.slice(1);
+      });
+
+      const chatRoom = await createPersistence().loadChatRoom(testProjectPath);
+      expect(chatRoom?.messages.map((m) => m.content)).toEqual(['Kept']);
+    });
+
+    it('should store edits as updates with their revisions', async () => {
+      const original = createMessage('Tests pass');
+      await persistence.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.messages.push(original);
+      });
+      await persistence.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.messages[0] = {
+          ...chatRoom.messages[0],
+          content: 'Tests fail',
+          editedAt: new Date(),
+          revisions: [{ content: 'Tests pass', timestamp: original.timestamp }],
+        };
+      });
+
+      const log = await fs.readFile(
+        path.join(roomDir(testProjectPath), 'log-000001-000001.jsonl'),
+        'utf-8'
+      );
+      expect(log).toContain('"type":"update"');
+      const [msg] = (await createPersistence().loadChatRoom(testProjectPath))!.messages;
+      expect(msg.content).toBe('Tests fail');
+      expect(msg.editedAt).toBeInstanceOf(Date);
+      expect(msg.revisions).toEqual([{ content: 'Tests pass', timestamp: original.timestamp }]);
+    });
+
+    it('should start a new generation when messages are reordered', async () => {
+      const other = createPersistence();
+      await persistence.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.messages.push(createMessage('First'));
+      });
+      await other.loadChatRoom(testProjectPath);
+
+      await persistence.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.messages.unshift(createMessage('Zeroth'));
+      });
+
+      const files = await fs.readdir(roomDir(testProjectPath));
+      expect(files.sort()).toEqual(['manifest.json', 'snapshot-000002.jsonl.gz']);
+      const chatRoom = await other.loadChatRoom(testProjectPath);
+      expect(chatRoom?.messages.map((m) => m.content)).toEqual(['Zeroth', 'First']);
+    });
+
+    it('should skip an incomplete record left by a crashed writer', async () => {
+      await persistence.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.messages.push(createMessage('First'));
+      });
+      await fs.appendFile(
+        path.join(roomDir(testProjectPath), 'log-000001-000001.jsonl'),
+        '{"type":"message","mess'
+      );
+
+      const writer = createPersistence();
+      await writer.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.messages.push(createMessage('Second'));
+      });
+
+      const chatRoom = await persistence.loadChatRoom(testProjectPath);
+      expect(chatRoom?.messages.map((m) => m.content)).toEqual(['First', 'Second']);
+    });
+  });
+
+  describe('Archive', () => {
+    it('should keep archived messages across instances, each once', async () => {
+      const first = createMessage('First');
+      await persistence.archiveMessages(testProjectPath, [first]);
+      await persistence.archiveMessages(testProjectPath, [first, createMessage('Second')]);
+
+      const archived = await createPersistence().loadArchivedMessages(testProjectPath);
+      expect(archived.map((m) => m.content)).toEqual(['First', 'Second']);
+      expect(archived[0].timestamp).toBeInstanceOf(Date);
+
+      await persistence.deleteChatRoom(testProjectPath);
+      expect(await persistence.loadArchivedMessages(testProjectPath)).toEqual([]);
+    });
+
+    it('should read an archive with a truncated last entry', async () => {
+      await persistence.archiveMessages(testProjectPath, [createMessage('Kept')]);
+      await persistence.archiveMessages(testProjectPath, [createMessage('Truncated')]);
+
+      const hash = crypto.createHash('sha256').update(testProjectPath).digest('hex');
+      const file = path.join(dataDir, 'archive', hash, 'archive-000001.jsonl.gz');
+      const data = await fs.readFile(file);
+      await fs.writeFile(file, data.subarray(0, data.length - 30));
+
+      const archived = await persistence.loadArchivedMessages(testProjectPath);
+      expect(archived.map((m) => m.content)).toEqual(['Kept']);
+    });
+  });
+
+  describe('Identities', () => {
+    it('should hand out a stable identity to one live instance at a time', async () => {
+      const first = await persistence.loadOrCreateIdentity(new AgentNamer(), 'frontend-agent');
+      const other = createPersistence();
+      const second = await other.loadOrCreateIdentity(new AgentNamer(), 'frontend-agent');
+      expect(second.name).not.toBe(first.name);
+
+      await persistence.releaseIdentity();
+      const restarted = createPersistence();
+      const third = await restarted.loadOrCreateIdentity(new AgentNamer(), 'frontend-agent');
+      await restarted.releaseIdentity();
+
+      expect(third.name).toBe(first.name);
+    });
+
+    it('should assign a new identity when the identity file is corrupt', async () => {
+      const hash = crypto.createHash('sha256').update('frontend-agent').digest('hex').slice(0, 16);
+      const identityDir = path.join(tempDir, 'identities');
+      await fs.mkdir(identityDir, { recursive: true });
+      const filePath = path.join(identityDir, `.agent-identity-key-${hash}.json`);
+      await fs.writeFile(filePath, '{"name": "Gr');
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      try {
+        const identity = await persistence.loadOrCreateIdentity(new AgentNamer(), 'frontend-agent');
+        expect(identity.name).toBeTruthy();
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('Corrupt identity file'));
+      } finally {
+        warn.mockRestore();
+      }
+    });
+  });
+
+  describe('Migration', () => {
+    it('should read and migrate a chat room saved as a single compressed file', async () => {
+      const hash = crypto.createHash('sha256').update(testProjectPath).digest('hex');
+      const legacyPath = path.join(dataDir, `${hash}.json.gz`);
+      const legacy = {
+        projectPath: testProjectPath,
+        createdAt: new Date().toISOString(),
+        messages: [{ ...createMessage('Legacy'), timestamp: new Date().toISOString() }],
+        lastSeen: { Greta: new Date().toISOString() },
+      };
+      await fs.mkdir(dataDir, { recursive: true });
+      await fs.writeFile(legacyPath, zlib.gzipSync(JSON.stringify(legacy)));
+
+      expect((await persistence.loadChatRoom(testProjectPath))?.messages[0].content).toBe(
+        'Legacy'
+      );
+      expect(await persistence.listSavedChatRooms()).toContain(testProjectPath);
+
+      await persistence.atomicUpdateChatRoom(testProjectPath, (chatRoom) => {
+        chatRoom.messages.push(createMessage('New'));
+      });
+
+      await expect(fs.access(legacyPath)).rejects.toThrow();
+      const chatRoom = await createPersistence().loadChatRoom(testProjectPath);
+      expect(chatRoom?.messages.map((m) => m.content)).toEqual(['Legacy', 'New']);
+      expect(chatRoom?.messages.map((m) => m.seq)).toEqual([1, 2]);
+      expect(chatRoom?.nextSeq).toBe(3);
+      expect(chatRoom?.lastSeen['Greta']).toBeInstanceOf(Date);
+      expect(await persistence.listSavedChatRooms()).toContain(testProjectPath);
+    });
+  });
+});
@@ -90,4 +90,17 @@ export class AgentNamer {
   isNameUsed(name: string): boolean {
     return this.usedNames.has(name);
   }
+
+  /**
+   * Checks if a name is one that could be assigned to an agent, ignoring case
+   * @param name The name to check
+   * @returns True for the German names, with or without a numeric suffix
+   */
+  isAgentName(name: string): boolean {
+    const lowerName = name.toLowerCase();
+    return GERMAN_NAMES.some((baseName) => {
+      const lowerBase = baseName.toLowerCase();
+      return lowerName.startsWith(lowerBase) && /^\d*$/.test(lowerName.slice(lowerBase.length));
+    });
+  }
 }
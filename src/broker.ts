@@ -0,0 +1,1124 @@
+/**
+ * Local broker daemon
+ * When many agents share a project, every write waits for the chat room's file lock, with
+ * growing back-off between retries. In broker mode, one daemon per data directory owns the
+ * chat rooms in memory and serializes the writes, and server instances talk to it over a
+ * Unix domain socket. The daemon still keeps everything in the data directory under the
+ * usual locks, so an instance that can't reach it falls back to using the files directly.
+ *
+ * The protocol is one JSON object per line. Chat rooms travel as the records of the room log:
+ * the daemon sends each instance only the changes since what it last sent that instance, and
+ * an instance sends back the changes made by its update function while the daemon holds the
+ * room's lock. After every write, instances watching the room are told that it changed.
+ */
+
+import { spawn } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as lockfile from 'proper-lockfile';
+import { createInterface } from 'readline';
+import { fileURLToPath } from 'url';
+import { AgentIdentity, ChatRoom, Message, TaskBoard } from './types.js';
+import { AgentNamer } from './agent-namer.js';
+import { DEFAULT_DATA_DIR, PersistenceManager, PersistenceOptions } from './persistence.js';
+import { SerializedSearchIndex } from './search-index.js';
+import { StorageBackend } from './storage-backend.js';
+import {
+  RoomLogRecord,
+  applyRecords,
+  cloneChatRoom,
+  createEmptyChatRoom,
+  diffChatRoom,
+  serializeMessage,
+  serializeRoomState,
+} from './room-log.js';
+import { createLogger } from './logger.js';
+
+/**
+ * File name of the socket in the data directory
+ */
+const SOCKET_FILE_NAME = 'broker.sock';
+
+/**
+ * Longest socket path used; the operating systems allow 104 to 108 bytes
+ */
+const MAX_SOCKET_PATH_BYTES = 100;
+
+/**
+ * How long the daemon holds a room for an instance's update function before giving up,
+ * the same time after which a file lock goes stale
+ */
+const UPDATE_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * How long an instance waits for a daemon it started to accept connections
+ */
+const DAEMON_START_TIMEOUT_MS = 3 * 1000;
+
+/**
+ * How often an instance polls for the socket of a starting daemon
+ */
+const DAEMON_START_POLL_MS = 100;
+
+/**
+ * How long an instance uses the files directly before trying to reach the daemon again
+ */
+const RECONNECT_INTERVAL_MS = 5 * 1000;
+
+// The daemon's lock is held while it runs and refreshed periodically, so it goes stale
+// soon after the daemon dies
+const DAEMON_LOCK_OPTIONS = {
+  realpath: false,
+  retries: 0,
+  stale: 10000,
+  update: 5000,
+};
+
+/**
+ * Broker mode - configurable via environment variable
+ * Default: off (instances use the files directly)
+ *
+ * Environment variable: MCP_BROKER
+ * Example: MCP_BROKER=1
+ * @returns Whether server instances go through the broker daemon
+ */
+export function isBrokerEnabled(): boolean {
+  const envBroker = process.env.MCP_BROKER;
+
+  if (!envBroker) {
+    return false;
+  }
+
+  const value = envBroker.toLowerCase();
+  if (['1', 'true', 'on'].includes(value)) {
+    return true;
+  }
+  if (!['0', 'false', 'off'].includes(value)) {
+    console.warn(`Invalid MCP_BROKER: "${envBroker}". Broker mode is off.`);
+  }
+  return false;
+}
+
+/**
+ * Gets the socket of the broker daemon for a data directory
+ * Falls back to a socket in a private directory of the user in the temp directory if the
+ * path would be too long for a socket
+ * @param dataDir The data directory (default: ./data)
+ * @returns The socket path
+ */
+export function getBrokerSocketPath(dataDir: string = DEFAULT_DATA_DIR): string {
+  const resolvedDir = path.resolve(dataDir);
+  const socketPath = path.join(resolvedDir, SOCKET_FILE_NAME);
+  if (Buffer.byteLength(socketPath) <= MAX_SOCKET_PATH_BYTES) {
+    return socketPath;
+  }
+
+  const hash = crypto.createHash('sha256').update(resolvedDir).digest('hex').slice(0, 16);
+  return path.join(getPrivateSocketDir(), `${hash}.sock`);
+}
+
+/**
+ * Gets the directory in the temp directory that holds the user's fallback sockets
+ * @returns The directory path
+ */
+function getPrivateSocketDir(): string {
+  return path.join(os.tmpdir(), `mcp-agent-broker-${os.userInfo().uid}`);
+}
+
+/**
+ * Creates the directory of a socket if needed
+ * Anyone can create the private directory in the temp directory before the user does, and
+ * then listen in place of the daemon; so it is created with mode 0700 and must belong to the
+ * user and be closed to everyone else.
+ * @param socketPath The socket path
+ * @throws Error if the private directory belongs to another user or is open to others
+ */
+async function ensureSocketDirectory(socketPath: string): Promise<void> {
+  const dir = path.dirname(socketPath);
+  if (dir !== getPrivateSocketDir()) {
+    await fs.mkdir(dir, { recursive: true });
+    return;
+  }
+
+  await fs.mkdir(dir, { recursive: true, mode: 0o700 });
+  const stats = await fs.lstat(dir);
+  if (!stats.isDirectory() || stats.uid !== os.userInfo().uid || (stats.mode & 0o077) !== 0) {
+    throw new Error(`Broker socket directory is not private: ${dir}`);
+  }
+}
+
+/**
+ * Options for the broker daemon and the instances connecting to it
+ */
+export interface BrokerOptions extends PersistenceOptions {
+  /** Socket of the daemon (default: broker.sock in the data directory) */
+  socketPath?: string;
+  /** Whether an instance starts the daemon if none is running (default: true) */
+  startDaemon?: boolean;
+  /** Time without connected instances after which the daemon stops (default: never) */
+  idleTimeoutMs?: number;
+}
+
+/**
+ * Changes that turn a copy of a chat room into the current version
+ * - reset: the records rebuild the room from scratch
+ */
+interface RoomChanges {
+  reset: boolean;
+  records: RoomLogRecord[];
+}
+
+/**
+ * Request sent by an instance
+ * - load: sends the room's changes, or null if the room doesn't exist
+ * - begin: locks the room and sends its changes; answered again after the commit
+ * - commit: the changes made by the update function of a begun update
+ * - abort: gives up a begun update without changing the room
+ */
+type BrokerRequest =
+  | { id: number; op: 'load' | 'begin' | 'delete'; projectPath: string }
+  | { id: number; op: 'commit'; projectPath: string; update: number; changes: RoomChanges }
+  | { op: 'abort'; update: number }
+  | { op: 'watch' | 'unwatch'; projectPath: string };
+
+/**
+ * Request that is answered, without the ID the connection gives it
+ */
+type AnsweredRequest = WithoutId<Extract<BrokerRequest, { id: number }>>;
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+
+/**
+ * Message sent by the daemon: an answer to a request, or a change notification
+ */
+type BrokerReply =
+  | { id: number; room?: RoomChanges | null; error?: string }
+  | { error: string }
+  | { event: 'change'; projectPath: string };
+
+/**
+ * A chat room with its serialized state, to compute changes against
+ */
+interface RoomCopy {
+  chatRoom: ChatRoom;
+  stateJson: string;
+}
+
+/**
+ * Copies a chat room for computing changes against later
+ * @param chatRoom The chat room
+ * @returns The copy
+ */
+function copyRoom(chatRoom: ChatRoom): RoomCopy {
+  return {
+    chatRoom: cloneChatRoom(chatRoom),
+    stateJson: JSON.stringify(serializeRoomState(chatRoom)),
+  };
+}
+
+/**
+ * Computes the changes from a copy of a chat room to its current version
+ * @param before The copy, or undefined if the other side has none
+ * @param after The current version
+ * @returns The changes
+ */
+function diffRoom(before: RoomCopy | undefined, after: ChatRoom): RoomChanges {
+  const records = before ? diffChatRoom(before.chatRoom, after, before.stateJson) : null;
+  if (records) {
+    return { reset: false, records };
+  }
+
+  return {
+    reset: true,
+    records: [
+      { type: 'state', state: serializeRoomState(after) },
+      ...after.messages.map((msg): RoomLogRecord => ({
+        type: 'message',
+        message: serializeMessage(msg),
+      })),
+    ],
+  };
+}
+
+/**
+ * Applies changes to a chat room
+ * @param chatRoom The chat room to change
+ * @param changes The changes
+ */
+function applyChanges(chatRoom: ChatRoom, changes: RoomChanges): void {
+  if (changes.reset) {
+    chatRoom.messages = [];
+  }
+  applyRecords(chatRoom, changes.records);
+}
+
+/**
+ * Checks whether a parsed line is a JSON object
+ * @param value The parsed line
+ * @returns True for objects other than null and arrays
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Operations the daemon answers or acts on
+ */
+const REQUEST_OPS = new Set(['load', 'begin', 'delete', 'commit', 'abort', 'watch', 'unwatch']);
+
+/**
+ * Checks that a request has the fields its operation needs
+ * @param request The request
+ * @returns True if the operation is known and its fields have the right types
+ */
+function isWellFormedRequest(request: Record<string, unknown>): request is BrokerRequest {
+  const hasId = typeof request.id === 'number';
+  const hasProjectPath = typeof request.projectPath === 'string';
+
+  switch (request.op) {
+    case 'load':
+    case 'begin':
+    case 'delete':
+      return hasId && hasProjectPath;
+    case 'commit':
+      return (
+        hasId && hasProjectPath && typeof request.update === 'number' && isObject(request.changes)
+      );
+    case 'abort':
+      return typeof request.update === 'number';
+    case 'watch':
+    case 'unwatch':
+      return hasProjectPath;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Writes one protocol message to a socket
+ * @param socket The socket
+ * @param message The message
+ */
+function writeLine(socket: net.Socket, message: BrokerRequest | BrokerReply): void {
+  if (!socket.destroyed) {
+    socket.write(JSON.stringify(message) + '\n');
+  }
+}
+
+/**
+ * An instance connected to the daemon
+ */
+interface BrokerClient {
+  socket: net.Socket;
+  /** Chat rooms as last sent to the instance, by project path */
+  rooms: Map<string, RoomCopy>;
+  /** Project paths of the rooms the instance watches */
+  watched: Set<string>;
+  /** Begun updates waiting for their commit, by the ID of their begin request */
+  updates: Map<
+    number,
+    {
+      resolve: (commit: { id: number; changes: RoomChanges }) => void;
+      reject: (error: Error) => void;
+    }
+  >;
+}
+
+/**
+ * Broker daemon owning the chat rooms of one data directory
+ */
+export class BrokerServer {
+  readonly socketPath: string;
+  private storage: PersistenceManager;
+  private idleTimeoutMs: number;
+  private server: net.Server | null = null;
+  private clients: Set<BrokerClient> = new Set();
+  private releaseLock: (() => Promise<void>) | null = null;
+  private idleTimer: NodeJS.Timeout | null = null;
+  private idleWaiters: Array<() => void> = [];
+  private logger = createLogger('Broker');
+
+  /**
+   * @param options Where the files and the socket are kept
+   */
+  constructor(options: BrokerOptions = {}) {
+    this.storage = new PersistenceManager(options);
+    this.socketPath = options.socketPath ?? getBrokerSocketPath(options.dataDir);
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 0;
+  }
+
+  /**
+   * Starts listening on the socket
+   * @throws Error if another daemon is already running for the socket
+   */
+  async start(): Promise<void> {
+    await ensureSocketDirectory(this.socketPath);
+    try {
+      this.releaseLock = await lockfile.lock(this.socketPath, {
+        ...DAEMON_LOCK_OPTIONS,
+        lockfilePath: `${this.socketPath}.lock`,
+        onCompromised: () => {
+          // The lock went stale (e.g., the process was suspended); keep serving
+          this.releaseLock = null;
+          this.logger.warn('Broker lock was compromised', { socketPath: this.socketPath });
+        },
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ELOCKED') {
+        throw new Error(`A broker is already running on ${this.socketPath}`);
+      }
+      throw error;
+    }
+
+    // The socket file of a crashed daemon would make listening fail
+    await fs.rm(this.socketPath, { force: true });
+
+    const server = net.createServer((socket) => this.handleConnection(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    // Only the user may connect; the socket gets the umask's permissions otherwise
+    await fs.chmod(this.socketPath, 0o600);
+
+    this.server = server;
+    this.resetIdleTimer();
+    this.logger.info('Broker listening', { socketPath: this.socketPath });
+  }
+
+  /**
+   * Waits until no instance has been connected for the idle timeout
+   */
+  waitUntilIdle(): Promise<void> {
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Disconnects all instances and stops listening
+   * Updates in progress are given up; the instances fall back to the files
+   */
+  async stop(): Promise<void> {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+
+    for (const client of this.clients) {
+      client.socket.destroy();
+    }
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await fs.rm(this.socketPath, { force: true });
+    }
+
+    const release = this.releaseLock;
+    this.releaseLock = null;
+    if (release) {
+      await release();
+    }
+  }
+
+  /**
+   * Starts the idle timeout if no instance is connected
+   */
+  private resetIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    if (this.idleTimeoutMs <= 0 || this.clients.size > 0) {
+      return;
+    }
+
+    this.idleTimer = setTimeout(() => {
+      this.logger.info('Broker idle', { socketPath: this.socketPath });
+      for (const resolve of this.idleWaiters.splice(0)) {
+        resolve();
+      }
+    }, this.idleTimeoutMs);
+  }
+
+  /**
+   * Sets up a newly connected instance
+   * @param socket The instance's connection
+   */
+  private handleConnection(socket: net.Socket): void {
+    const client: BrokerClient = {
+      socket,
+      rooms: new Map(),
+      watched: new Set(),
+      updates: new Map(),
+    };
+    this.clients.add(client);
+    this.resetIdleTimer();
+
+    createInterface({ input: socket, crlfDelay: Infinity }).on('line', (line) =>
+      this.handleLine(client, line)
+    );
+    socket.on('error', () => {
+      // Handled when the socket closes
+    });
+    socket.on('close', () => {
+      this.clients.delete(client);
+      for (const update of client.updates.values()) {
+        update.reject(new Error('Instance disconnected'));
+      }
+      client.updates.clear();
+      this.resetIdleTimer();
+    });
+  }
+
+  /**
+   * Handles one line sent by an instance
+   * @param client The instance
+   * @param line The line
+   */
+  private handleLine(client: BrokerClient, line: string): void {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      parsed = null;
+    }
+    if (!isObject(parsed)) {
+      this.logger.warn('Invalid request, disconnecting instance');
+      client.socket.destroy();
+      return;
+    }
+    if (!REQUEST_OPS.has(parsed.op as string)) {
+      const error = `Unknown request: ${String(parsed.op)}`;
+      const id = typeof parsed.id === 'number' ? parsed.id : undefined;
+      writeLine(client.socket, id === undefined ? { error } : { id, error });
+      return;
+    }
+    if (!isWellFormedRequest(parsed)) {
+      this.logger.warn('Malformed request, disconnecting instance', { op: parsed.op });
+      client.socket.destroy();
+      return;
+    }
+
+    const request = parsed;
+    switch (request.op) {
+      case 'commit': {
+        const update = client.updates.get(request.update);
+        if (update) {
+          update.resolve({ id: request.id, changes: request.changes });
+        } else {
+          writeLine(client.socket, { id: request.id, error: 'Update timed out' });
+        }
+        return;
+      }
+
+      case 'abort':
+        client.updates.get(request.update)?.reject(new Error('Update aborted'));
+        return;
+
+      case 'watch':
+        client.watched.add(request.projectPath);
+        return;
+
+      case 'unwatch':
+        client.watched.delete(request.projectPath);
+        return;
+
+      default:
+        this.handleRequest(client, request).catch((error) => {
+          writeLine(client.socket, {
+            id: request.id,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+    }
+  }
+
+  /**
+   * Answers a request that reads, updates or deletes a chat room
+   * @param client The instance
+   * @param request The request
+   */
+  private async handleRequest(
+    client: BrokerClient,
+    request: Extract<BrokerRequest, { op: 'load' | 'begin' | 'delete' }>
+  ): Promise<void> {
+    const { id, projectPath } = request;
+
+    switch (request.op) {
+      case 'load': {
+        const chatRoom = await this.storage.loadChatRoom(projectPath);
+        if (!chatRoom) {
+          client.rooms.delete(projectPath);
+        }
+        writeLine(client.socket, {
+          id,
+          room: chatRoom ? this.getChanges(client, projectPath, chatRoom) : null,
+        });
+        return;
+      }
+
+      case 'begin':
+        return this.runUpdate(client, id, projectPath);
+
+      case 'delete':
+        await this.storage.deleteChatRoom(projectPath);
+        for (const other of this.clients) {
+          other.rooms.delete(projectPath);
+        }
+        writeLine(client.socket, { id });
+        this.notifyWatchers(projectPath);
+        return;
+    }
+  }
+
+  /**
+   * Runs an update for an instance: sends the locked room, applies the changes the instance
+   * commits, and answers the commit with the stored room
+   * @param client The instance
+   * @param id The ID of the begin request
+   * @param projectPath The project path
+   */
+  private async runUpdate(client: BrokerClient, id: number, projectPath: string): Promise<void> {
+    let commitId: number | null = null;
+    let chatRoom: ChatRoom;
+
+    try {
+      chatRoom = await this.storage.atomicUpdateChatRoom(projectPath, async (locked) => {
+        // Don't hold the room for an instance that went away while waiting for the lock
+        if (client.socket.destroyed) {
+          throw new Error('Instance disconnected');
+        }
+        const commit = new Promise<{ id: number; changes: RoomChanges }>((resolve, reject) => {
+          const timer = setTimeout(() => reject(new Error('Update timed out')), UPDATE_TIMEOUT_MS);
+          client.updates.set(id, {
+            resolve: (value) => {
+              clearTimeout(timer);
+              resolve(value);
+            },
+            reject: (error) => {
+              clearTimeout(timer);
+              reject(error);
+            },
+          });
+        });
+        writeLine(client.socket, { id, room: this.getChanges(client, projectPath, locked) });
+
+        try {
+          const { id: receivedCommitId, changes } = await commit;
+          commitId = receivedCommitId;
+          applyChanges(locked, changes);
+        } finally {
+          client.updates.delete(id);
+        }
+      });
+    } catch (error) {
+      // Without a commit the instance gave up or went away and expects no answer
+      if (commitId !== null) {
+        writeLine(client.socket, {
+          id: commitId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      return;
+    }
+
+    writeLine(client.socket, {
+      id: commitId!,
+      room: this.getChanges(client, projectPath, chatRoom),
+    });
+    this.notifyWatchers(projectPath);
+  }
+
+  /**
+   * Computes the changes of a chat room since it was last sent to an instance
+   * The instance applies them to its copy, so the room counts as sent afterwards
+   * @param client The instance
+   * @param projectPath The project path
+   * @param chatRoom The current chat room
+   * @returns The changes
+   */
+  private getChanges(client: BrokerClient, projectPath: string, chatRoom: ChatRoom): RoomChanges {
+    const changes = diffRoom(client.rooms.get(projectPath), chatRoom);
+    client.rooms.set(projectPath, copyRoom(chatRoom));
+    return changes;
+  }
+
+  /**
+   * Tells the instances watching a chat room that it changed
+   * The event carries no changes: watchers also hear about writes made to the files directly,
+   * so they load the room either way, and that load sends only what changed since their copy.
+   * Several events before a load then cost a single diff.
+   * @param projectPath The project path
+   */
+  private notifyWatchers(projectPath: string): void {
+    for (const client of this.clients) {
+      if (client.watched.has(projectPath)) {
+        writeLine(client.socket, { event: 'change', projectPath });
+      }
+    }
+  }
+}
+
+/**
+ * Error for a request that the daemon never received or never answered,
+ * so it is safe to repeat on the files
+ */
+class BrokerUnavailableError extends Error {
+  constructor() {
+    super('Broker unavailable');
+  }
+}
+
+/**
+ * Connection of an instance to the daemon
+ */
+class BrokerConnection {
+  /** Chat rooms as the daemon last sent them, by project path */
+  readonly rooms: Map<string, RoomCopy> = new Map();
+  closed = false;
+  private nextId = 1;
+  /** Requests waiting for their answer, by ID */
+  private pending: Map<
+    number,
+    { projectPath: string; resolve: (id: number) => void; reject: (error: Error) => void }
+  > = new Map();
+
+  /**
+   * @param socket The connected socket
+   * @param onChange Called when the daemon reports a change of a watched room
+   */
+  constructor(
+    private readonly socket: net.Socket,
+    onChange: (projectPath: string) => void
+  ) {
+    createInterface({ input: socket, crlfDelay: Infinity }).on('line', (line) => {
+      let reply: unknown;
+      try {
+        reply = JSON.parse(line);
+      } catch {
+        reply = null;
+      }
+      if (isObject(reply) && reply.event === 'change' && typeof reply.projectPath === 'string') {
+        onChange(reply.projectPath);
+      } else if (isObject(reply) && typeof reply.id === 'number') {
+        this.handleReply(reply as Extract<BrokerReply, { id: number }>);
+      } else {
+        // Whatever sent this is not a daemon to trust; waiting requests fall back to the files
+        socket.destroy();
+      }
+    });
+    socket.on('error', () => {
+      // Handled when the socket closes
+    });
+    socket.on('close', () => {
+      this.closed = true;
+      for (const request of this.pending.values()) {
+        request.reject(new BrokerUnavailableError());
+      }
+      this.pending.clear();
+    });
+  }
+
+  /**
+   * Sends a request and waits for its answer
+   * A room in the answer is applied to the copy of the room before the request settles
+   * @param request The request without its ID
+   * @returns The ID of the request
+   * @throws BrokerUnavailableError if the connection is or gets closed before the answer
+   * @throws Error if the daemon answers with an error
+   */
+  request(request: AnsweredRequest): Promise<number> {
+    if (this.closed) {
+      return Promise.reject(new BrokerUnavailableError());
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { projectPath: request.projectPath, resolve, reject });
+      writeLine(this.socket, { ...request, id } as BrokerRequest);
+    });
+  }
+
+  /**
+   * Sends a message that has no answer
+   * @param message The message
+   */
+  send(message: Exclude<BrokerRequest, { id: number }>): void {
+    if (!this.closed) {
+      writeLine(this.socket, message);
+    }
+  }
+
+  /**
+   * Closes the connection
+   */
+  close(): void {
+    this.socket.destroy();
+  }
+
+  /**
+   * Applies the room in an answer and settles its request
+   * @param reply The answer
+   */
+  private handleReply(reply: Extract<BrokerReply, { id: number }>): void {
+    const request = this.pending.get(reply.id);
+    if (!request) {
+      return;
+    }
+    this.pending.delete(reply.id);
+
+    if (reply.error !== undefined) {
+      request.reject(new Error(reply.error));
+      return;
+    }
+
+    if (reply.room === null) {
+      this.rooms.delete(request.projectPath);
+    } else if (reply.room) {
+      const chatRoom =
+        this.rooms.get(request.projectPath)?.chatRoom ?? createEmptyChatRoom(request.projectPath);
+      applyChanges(chatRoom, reply.room);
+      this.rooms.set(request.projectPath, {
+        chatRoom,
+        stateJson: JSON.stringify(serializeRoomState(chatRoom)),
+      });
+    }
+    request.resolve(reply.id);
+  }
+}
+
+/**
+ * Storage backend of a server instance in broker mode
+ * Chat rooms are read and written through the daemon, which is started if it isn't running.
+ * While the daemon can't be reached, the instance uses the files directly and tries again
+ * every few seconds. Task boards, archives, search indexes and the agent identity are
+ * always kept in the files.
+ */
+export class BrokerStorage implements StorageBackend {
+  private readonly files: PersistenceManager;
+  private readonly dataDir: string;
+  private readonly socketPath: string;
+  private readonly startDaemon: boolean;
+  private connection: BrokerConnection | null = null;
+  private connecting: Promise<BrokerConnection | null> | null = null;
+  private lastConnectAttempt = 0;
+  /** Change listeners by project path, registered with every new connection */
+  private watchers: Map<string, Set<() => void>> = new Map();
+  private closed = false;
+  private logger = createLogger('Broker');
+
+  /**
+   * @param options Where the files and the socket are kept
+   */
+  constructor(options: BrokerOptions = {}) {
+    this.files = new PersistenceManager(options);
+    this.dataDir = path.resolve(options.dataDir ?? DEFAULT_DATA_DIR);
+    this.socketPath = options.socketPath ?? getBrokerSocketPath(this.dataDir);
+    this.startDaemon = options.startDaemon ?? true;
+  }
+
+  /**
+   * Disconnects from the daemon
+   */
+  close(): void {
+    this.closed = true;
+    this.connection?.close();
+    this.connection = null;
+  }
+
+  /**
+   * Loads a chat room
+   * @param projectPath The project path
+   * @returns A copy of the chat room or null if not found
+   */
+  async loadChatRoom(projectPath: string): Promise<ChatRoom | null> {
+    return this.withBroker(
+      async (connection) => {
+        await connection.request({ op: 'load', projectPath });
+        const copy = connection.rooms.get(projectPath);
+        return copy ? cloneChatRoom(copy.chatRoom) : null;
+      },
+      () => this.files.loadChatRoom(projectPath)
+    );
+  }
+
+  /**
+   * Atomically updates a chat room, creating it if needed
+   * The daemon holds the room while updateFn runs in this process, then stores the changes
+   * @param projectPath The project path
+   * @param updateFn Function that modifies the chat room
+   * @returns A copy of the updated chat room
+   * @throws Error if the connection is lost once updateFn has run; the update is not repeated
+   *   on the files, and changes already sent may or may not have been stored
+   */
+  async atomicUpdateChatRoom(
+    projectPath: string,
+    updateFn: (chatRoom: ChatRoom) => void | Promise<void>
+  ): Promise<ChatRoom> {
+    return this.withBroker(
+      async (connection) => {
+        const update = await connection.request({ op: 'begin', projectPath });
+        const locked = connection.rooms.get(projectPath)!;
+        const before: RoomCopy = {
+          chatRoom: cloneChatRoom(locked.chatRoom),
+          stateJson: locked.stateJson,
+        };
+        const chatRoom = cloneChatRoom(before.chatRoom);
+
+        try {
+          await updateFn(chatRoom);
+        } catch (error) {
+          connection.send({ op: 'abort', update });
+          throw error;
+        }
+
+        // updateFn may have had effects beyond the room, so it must not run again on the files
+        if (connection.closed) {
+          throw new Error('Lost the connection to the broker while updating; nothing was saved');
+        }
+        try {
+          await connection.request({
+            op: 'commit',
+            projectPath,
+            update,
+            changes: diffRoom(before, chatRoom),
+          });
+        } catch (error) {
+          if (error instanceof BrokerUnavailableError) {
+            throw new Error(
+              'Lost the connection to the broker while saving; the change may be lost'
+            );
+          }
+          throw error;
+        }
+        return cloneChatRoom(connection.rooms.get(projectPath)!.chatRoom);
+      },
+      () => this.files.atomicUpdateChatRoom(projectPath, updateFn)
+    );
+  }
+
+  /**
+   * Watches a chat room for changes
+   * The daemon reports changes made through it; the files are watched as well, for changes
+   * made by instances that use the files directly
+   * @param projectPath The project path
+   * @param onChange Called whenever the chat room may have changed
+   * @returns Function that stops watching
+   */
+  async watchChatRoom(projectPath: string, onChange: () => void): Promise<() => void> {
+    const stopWatchingFiles = await this.files.watchChatRoom(projectPath, onChange);
+
+    let listeners = this.watchers.get(projectPath);
+    if (!listeners) {
+      listeners = new Set();
+      this.watchers.set(projectPath, listeners);
+      this.connection?.send({ op: 'watch', projectPath });
+    }
+    listeners.add(onChange);
+    // Connect now, so changes are reported before this instance reads or writes the room
+    void this.getConnection();
+
+    return () => {
+      stopWatchingFiles();
+      listeners.delete(onChange);
+      if (listeners.size === 0 && this.watchers.get(projectPath) === listeners) {
+        this.watchers.delete(projectPath);
+        this.connection?.send({ op: 'unwatch', projectPath });
+      }
+    };
+  }
+
+  async listSavedChatRooms(): Promise<string[]> {
+    return this.files.listSavedChatRooms();
+  }
+
+  /**
+   * Deletes a chat room, including its archive
+   * @param projectPath The project path
+   */
+  async deleteChatRoom(projectPath: string): Promise<void> {
+    await this.withBroker(
+      async (connection) => {
+        await connection.request({ op: 'delete', projectPath });
+      },
+      () => this.files.deleteChatRoom(projectPath)
+    );
+  }
+
+  async archiveMessages(projectPath: string, messages: Message[]): Promise<void> {
+    await this.files.archiveMessages(projectPath, messages);
+  }
+
+  async loadArchivedMessages(projectPath: string): Promise<Message[]> {
+    return this.files.loadArchivedMessages(projectPath);
+  }
+
+  async loadTaskBoard(projectPath: string): Promise<TaskBoard | null> {
+    return this.files.loadTaskBoard(projectPath);
+  }
+
+  async atomicUpdateTaskBoard(
+    projectPath: string,
+    updateFn: (taskBoard: TaskBoard) => void | Promise<void>
+  ): Promise<TaskBoard> {
+    return this.files.atomicUpdateTaskBoard(projectPath, updateFn);
+  }
+
+  async loadSearchIndex(projectPath: string): Promise<SerializedSearchIndex | null> {
+    return this.files.loadSearchIndex(projectPath);
+  }
+
+  async saveSearchIndex(projectPath: string, index: SerializedSearchIndex): Promise<void> {
+    await this.files.saveSearchIndex(projectPath, index);
+  }
+
+  async loadOrCreateIdentity(namer: AgentNamer, identityKey?: string): Promise<AgentIdentity> {
+    return this.files.loadOrCreateIdentity(namer, identityKey);
+  }
+
+  async saveIdentity(identity: AgentIdentity): Promise<void> {
+    await this.files.saveIdentity(identity);
+  }
+
+  async releaseIdentity(): Promise<void> {
+    await this.files.releaseIdentity();
+  }
+
+  /**
+   * Runs an operation through the daemon, or on the files if the daemon can't be reached
+   * viaBroker may only throw BrokerUnavailableError before it has done anything that
+   * running viaFiles would repeat.
+   * @param viaBroker The operation through the daemon
+   * @param viaFiles The same operation on the files
+   * @returns The result of the operation
+   */
+  private async withBroker<T>(
+    viaBroker: (connection: BrokerConnection) => Promise<T>,
+    viaFiles: () => Promise<T>
+  ): Promise<T> {
+    const connection = await this.getConnection();
+    if (connection) {
+      try {
+        return await viaBroker(connection);
+      } catch (error) {
+        if (!(error instanceof BrokerUnavailableError)) {
+          throw error;
+        }
+        this.logger.warn('Lost the connection to the broker, using the files directly', {
+          socketPath: this.socketPath,
+        });
+      }
+    }
+    return viaFiles();
+  }
+
+  /**
+   * Gets the connection to the daemon, connecting if needed
+   * @returns The connection, or null while the daemon can't be reached
+   */
+  private async getConnection(): Promise<BrokerConnection | null> {
+    if (this.connection && !this.connection.closed) {
+      return this.connection;
+    }
+    if (this.closed) {
+      return null;
+    }
+    if (!this.connecting) {
+      if (Date.now() - this.lastConnectAttempt < RECONNECT_INTERVAL_MS) {
+        return null;
+      }
+      this.lastConnectAttempt = Date.now();
+      this.connecting = this.connect().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  /**
+   * Connects to the daemon, starting it if none is running
+   * @returns The connection, or null if the daemon can't be reached
+   */
+  private async connect(): Promise<BrokerConnection | null> {
+    try {
+      await ensureSocketDirectory(this.socketPath);
+    } catch (error) {
+      this.logger.warn('Broker socket is not safe, using the files directly', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+
+    let socket = await this.openSocket();
+    if (!socket && this.startDaemon) {
+      this.spawnDaemon();
+      const deadline = Date.now() + DAEMON_START_TIMEOUT_MS;
+      while (!socket && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, DAEMON_START_POLL_MS));
+        socket = await this.openSocket();
+      }
+    }
+
+    if (!socket) {
+      this.logger.warn('Broker unavailable, using the files directly', {
+        socketPath: this.socketPath,
+      });
+      return null;
+    }
+    if (this.closed) {
+      socket.destroy();
+      return null;
+    }
+
+    const connection = new BrokerConnection(socket, (projectPath) => {
+      for (const onChange of this.watchers.get(projectPath) ?? []) {
+        onChange();
+      }
+    });
+    for (const projectPath of this.watchers.keys()) {
+      connection.send({ op: 'watch', projectPath });
+    }
+    this.connection = connection;
+    this.logger.info('Connected to broker', { socketPath: this.socketPath });
+    return connection;
+  }
+
+  /**
+   * Opens a connection to the daemon's socket
+   * @returns The socket, or null if no daemon is listening
+   */
+  private openSocket(): Promise<net.Socket | null> {
+    return new Promise((resolve) => {
+      const socket = net.createConnection(this.socketPath);
+      socket.once('connect', () => {
+        socket.off('error', onError);
+        resolve(socket);
+      });
+      const onError = () => resolve(null);
+      socket.once('error', onError);
+    });
+  }
+
+  /**
+   * Starts the daemon in the background, detached from this process
+   * If several instances start a daemon at once, all but one exit right away
+   */
+  private spawnDaemon(): void {
+    const cliPath = fileURLToPath(new URL('./cli.js', import.meta.url));
+    const daemon = spawn(
+      process.execPath,
+      [cliPath, 'broker', '--data-dir', this.dataDir, '--socket', this.socketPath],
+      { detached: true, stdio: 'ignore' }
+    );
+    daemon.on('error', (error) => {
+      this.logger.warn('Could not start broker', { error: error.message });
+    });
+    daemon.unref();
+  }
+}
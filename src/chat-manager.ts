@@ -4,10 +4,38 @@
  */
 
 import { randomUUID } from 'crypto';
-import { ChatRoom, Message, AgentIdentity } from './types.js';
+import {
+  ChatRoom,
+  Message,
+  MessageAck,
+  MessagePage,
+  MessageStatus,
+  AgentIdentity,
+  AgentProfile,
+  AskResult,
+  PathClaim,
+  PendingQuestion,
+  PresenceState,
+  PRESENCE_CONFIG,
+  RecipientStatus,
+  RetentionPolicy,
+  SearchHit,
+  SearchOptions,
+  Task,
+  TaskBoard,
+  TaskStatus,
+  Transcript,
+  TranscriptFormat,
+} from './types.js';
 import { AgentNamer } from './agent-namer.js';
 import { PersistenceManager } from './persistence.js';
+import { StorageBackend } from './storage-backend.js';
 import { createLogger } from './logger.js';
+import { normalizePattern, patternsOverlap } from './glob.js';
+import { mentionsAgent, parseMentions } from './mentions.js';
+import { SearchIndex, parseSearchQuery } from './search-index.js';
+import { MetadataSchemaRegistry } from './message-schemas.js';
+import { fromChatBundle, renderHtml, renderMarkdown, toChatBundle } from './transcript.js';
 
 /**
  * Message retention limit - configurable via environment variable
@@ -47,29 +75,212 @@ function getMessageRetentionLimit(): number {
 
 const MAX_MESSAGES = getMessageRetentionLimit();
 
+/**
+ * Message age limit - configurable via environment variable
+ * Default: 0 (messages are only pruned by count)
+ * Min: 0, Max: 3650 days
+ *
+ * Environment variable: MCP_MESSAGE_RETENTION_DAYS
+ * Example: MCP_MESSAGE_RETENTION_DAYS=30
+ */
+function getMessageRetentionDays(): number {
+  const envDays = process.env.MCP_MESSAGE_RETENTION_DAYS;
+
+  if (!envDays) {
+    return 0; // Default
+  }
+
+  const days = parseInt(envDays, 10);
+
+  if (isNaN(days) || days < 0) {
+    console.warn(
+      `Invalid MCP_MESSAGE_RETENTION_DAYS: "${envDays}". Using default of 0 (no limit).`
+    );
+    return 0;
+  }
+
+  if (days > 3650) {
+    console.warn(`MCP_MESSAGE_RETENTION_DAYS too high: ${days}. Using maximum of 3650.`);
+    return 3650;
+  }
+
+  return days;
+}
+
+const MAX_AGE_DAYS = getMessageRetentionDays();
+
+/**
+ * Milliseconds in a day, for age-based retention
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Presence thresholds - configurable via environment variables
+ * Default: idle after 120 seconds, away after 300 seconds, offline after 600 seconds
+ * The thresholds must increase from idle to away to offline
+ *
+ * Environment variables: MCP_PRESENCE_IDLE_SECONDS, MCP_PRESENCE_AWAY_SECONDS,
+ * MCP_PRESENCE_OFFLINE_SECONDS
+ * Example: MCP_PRESENCE_OFFLINE_SECONDS=1800
+ */
+function getPresenceThresholds(): { idleMs: number; awayMs: number; offlineMs: number } {
+  const readSeconds = (envVar: string, defaultSeconds: number): number => {
+    const envValue = process.env[envVar];
+    if (!envValue) {
+      return defaultSeconds;
+    }
+
+    const seconds = parseInt(envValue, 10);
+    if (isNaN(seconds) || seconds <= 0) {
+      console.warn(`Invalid ${envVar}: "${envValue}". Using default of ${defaultSeconds}.`);
+      return defaultSeconds;
+    }
+    return seconds;
+  };
+
+  const idle = readSeconds(PRESENCE_CONFIG.IDLE_ENV_VAR_NAME, PRESENCE_CONFIG.DEFAULT_IDLE_SECONDS);
+  const away = readSeconds(PRESENCE_CONFIG.AWAY_ENV_VAR_NAME, PRESENCE_CONFIG.DEFAULT_AWAY_SECONDS);
+  const offline = readSeconds(
+    PRESENCE_CONFIG.OFFLINE_ENV_VAR_NAME,
+    PRESENCE_CONFIG.DEFAULT_OFFLINE_SECONDS
+  );
+
+  if (idle >= away || away >= offline) {
+    console.warn(
+      `Presence thresholds must increase (idle ${idle}s < away ${away}s < offline ${offline}s). Using defaults.`
+    );
+    return {
+      idleMs: PRESENCE_CONFIG.DEFAULT_IDLE_SECONDS * 1000,
+      awayMs: PRESENCE_CONFIG.DEFAULT_AWAY_SECONDS * 1000,
+      offlineMs: PRESENCE_CONFIG.DEFAULT_OFFLINE_SECONDS * 1000,
+    };
+  }
+
+  return { idleMs: idle * 1000, awayMs: away * 1000, offlineMs: offline * 1000 };
+}
+
+const PRESENCE_THRESHOLDS = getPresenceThresholds();
+
+/**
+ * Number of search hits returned when no limit is given
+ */
+const DEFAULT_SEARCH_LIMIT = 20;
+
+/**
+ * A search index is saved after this many messages were added or removed since the last save
+ */
+const SEARCH_INDEX_SAVE_INTERVAL = 100;
+
+/**
+ * Maximum length of the reaction of an acknowledgement
+ */
+const MAX_REACTION_LENGTH = 50;
+
+/**
+ * Minimum time between automatic heartbeats for the same chat room
+ */
+const AUTO_HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Interval for re-checking a chat room while waiting for messages,
+ * in case a file change event is missed (e.g., on network file systems)
+ */
+const WAIT_FALLBACK_POLL_MS = 5000;
+
+/**
+ * Delay for coalescing bursts of file change events (a single write emits several)
+ */
+const WATCH_DEBOUNCE_MS = 100;
+
 /**
  * Manages chat rooms for a single agent instance
  * Each MCP server instance represents one agent
  */
 export class ChatManager {
-  private persistence: PersistenceManager = new PersistenceManager();
+  /** Metadata schemas of message types, checked when a message is sent */
+  readonly metadataSchemas: MetadataSchemaRegistry = new MetadataSchemaRegistry();
+  private persistence: StorageBackend;
   private agentNamer: AgentNamer = new AgentNamer();
   private myIdentity: AgentIdentity | null = null;
   private logger = createLogger('ChatManager');
+  /** Chat rooms this agent was seen in, with the time it was last marked as seen */
+  private seenRooms: Map<string, number> = new Map();
+  /** Search indexes by project path, with the number of changes not yet saved */
+  private searchIndexes: Map<
+    string,
+    { index: SearchIndex; unsavedChanges: number; saved: boolean }
+  > = new Map();
+
+  /**
+   * @param storage Where chat rooms, task boards and the agent identity are kept
+   *   (default: files in ./data, shared with other server instances)
+   */
+  constructor(storage: StorageBackend = new PersistenceManager()) {
+    this.persistence = storage;
+  }
 
   /**
    * Initializes the chat manager and loads/creates agent identity
+   * @param identityKey Optional key for a stable identity across restarts
+   *   (default: MCP_AGENT_IDENTITY_KEY environment variable)
    */
-  async initialize(): Promise<void> {
+  async initialize(identityKey: string | undefined = process.env.MCP_AGENT_IDENTITY_KEY): Promise<void> {
     await this.logger.timeAsync(
       'Initializing ChatManager',
       async () => {
-        this.myIdentity = await this.persistence.loadOrCreateIdentity(this.agentNamer);
+        this.myIdentity = await this.persistence.loadOrCreateIdentity(
+          this.agentNamer,
+          identityKey || undefined
+        );
         this.logger.info('Agent identity assigned', { agentName: this.myIdentity?.name });
       }
     );
   }
 
+  /**
+   * Initializes the chat manager for a human participant with a name of their choice
+   * Unlike agent names, the name is not reserved in storage. Humans can't take the names
+   * agents are given, so they can't post as an agent. The participant's profile has the
+   * role 'human', so agents can tell them apart.
+   * @param name The participant's name
+   * @throws Error if the name is empty, reserved for system messages or an agent name
+   */
+  initializeAsHuman(name: string): void {
+    const trimmedName = name.trim();
+    if (trimmedName.length === 0) {
+      throw new Error('Name cannot be empty');
+    }
+    if (trimmedName.toLowerCase() === 'system') {
+      throw new Error('The name System is reserved');
+    }
+    if (this.agentNamer.isAgentName(trimmedName)) {
+      throw new Error(`The name ${trimmedName} is reserved for agents; choose another name`);
+    }
+
+    this.myIdentity = { name: trimmedName, createdAt: new Date(), profile: { role: 'human' } };
+  }
+
+  /**
+   * Leaves every chat room this agent was seen in and releases resources
+   * held by this agent, such as the lock on a stable identity
+   */
+  async close(): Promise<void> {
+    for (const projectPath of this.seenRooms.keys()) {
+      try {
+        await this.leave(projectPath);
+      } catch (error) {
+        this.logger.warn('Could not leave chat room', {
+          project: projectPath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    this.seenRooms.clear();
+    if (this.myIdentity) {
+      await this.persistence.releaseIdentity(this.myIdentity);
+    }
+  }
+
   /**
    * Gets this agent's name
    * @returns The agent name
@@ -90,18 +301,77 @@ export class ChatManager {
    * @param content The message content
    * @param type The message type (default: 'text')
    * @param metadata Optional metadata for the message
+   * @param replyTo Optional ID (or unique ID prefix) of the message being replied to
+   * @throws Error if the metadata doesn't match the schema of the message type
    */
   async sendMessage(
     projectPath: string,
     content: string,
     type: 'text' | 'system' | 'command' | 'notification' = 'text',
-    metadata?: Record<string, unknown>
+    metadata?: Record<string, unknown>,
+    replyTo?: string
   ): Promise<string> {
+    this.metadataSchemas.validate(type, metadata);
+
+    const { messageId } = await this.appendMessage(projectPath, {
+      content,
+      type,
+      metadata,
+      replyTo,
+    });
+    return messageId;
+  }
+
+  /**
+   * Sends a direct message to a single agent in a project chat
+   * Direct messages are only visible to the sender and the recipient
+   * @param projectPath The project path
+   * @param recipient The name of the receiving agent
+   * @param content The message content
+   * @returns The message ID and the recipient's status at the time of sending
+   */
+  async sendDirectMessage(
+    projectPath: string,
+    recipient: string,
+    content: string
+  ): Promise<{ messageId: string; recipientStatus: RecipientStatus }> {
+    if (recipient === this.getMyName()) {
+      throw new Error('Cannot send a direct message to yourself');
+    }
+
+    const { messageId, chatRoom } = await this.appendMessage(projectPath, {
+      content,
+      type: 'text',
+      recipient,
+    });
+
+    return {
+      messageId,
+      recipientStatus: this.getRecipientStatus(chatRoom, recipient),
+    };
+  }
+
+  /**
+   * Appends a message to a project chat
+   * Uses atomic file locking to prevent race conditions
+   * @param projectPath The project path
+   * @param draft The message content, type and optional metadata, recipient and reply target
+   * @param precondition Optional check of the chat room, made under the same lock as the
+   *   append; throwing prevents the message from being added. It may fill in the draft's
+   *   metadata and reply target from the chat room.
+   * @returns The new message ID and the updated chat room
+   */
+  private async appendMessage(
+    projectPath: string,
+    draft: Pick<Message, 'content' | 'type' | 'metadata' | 'recipient' | 'replyTo'>,
+    precondition?: (chatRoom: ChatRoom) => void
+  ): Promise<{ messageId: string; chatRoom: ChatRoom }> {
     if (!this.myIdentity) {
       throw new Error('ChatManager not initialized');
     }
 
     const myName = this.myIdentity.name;
+    const { content, type, recipient } = draft;
     let messageId = '';
 
     // Log message sending with timing
@@ -109,7 +379,9 @@ export class ChatManager {
       'Sending message',
       async () => {
         // Use atomic update to prevent race conditions
-        await this.persistence.atomicUpdateChatRoom(projectPath, async (chatRoom) => {
+        const updatedRoom = await this.persistence.atomicUpdateChatRoom(projectPath, async (chatRoom) => {
+          precondition?.(chatRoom);
+
           // Check if this is a newly created chat room
           const isNewRoom = chatRoom.messages.length === 0;
 
@@ -124,6 +396,18 @@ export class ChatManager {
             });
           }
 
+          // The creator doesn't need a separate join announcement
+          this.markSeen(chatRoom, !isNewRoom);
+
+          // Resolve short reply references to the full message ID
+          const replyTo = draft.replyTo
+            ? this.resolveMessageId(chatRoom, draft.replyTo)
+            : undefined;
+
+          // Record @mentions of agents known in this room under their canonical names,
+          // replacing any mentions the caller put in the metadata
+          const mentions = this.resolveMentions(chatRoom, content);
+
           // Add the message
           messageId = randomUUID();
           const message: Message = {
@@ -132,215 +416,2009 @@ export class ChatManager {
             content,
             timestamp: new Date(),
             type,
-            metadata,
+            metadata: { ...draft.metadata, mentions },
+            recipient,
+            replyTo,
           };
           chatRoom.messages.push(message);
-          chatRoom.lastSeen[myName] = new Date();
-
-          // Prune old messages if history is too long
-          if (chatRoom.messages.length > MAX_MESSAGES) {
-            const messagesToKeep = chatRoom.messages.slice(
-              chatRoom.messages.length - MAX_MESSAGES
-            );
-            chatRoom.messages = messagesToKeep;
-            this.logger.debug('Pruned old messages', {
-              retained: messagesToKeep.length,
-              project: projectPath,
-            });
-          }
+
+          // Move messages beyond the retention limits to the archive
+          await this.pruneMessages(chatRoom);
         });
 
         this.logger.debug('Message sent', {
           messageId,
           sender: myName,
           type,
+          recipient,
           project: projectPath,
         });
 
-        return messageId;
+        return { messageId, chatRoom: updatedRoom };
       },
       { sender: myName, messageType: type, project: projectPath }
     );
   }
 
   /**
-   * Updates the last seen timestamp for the current agent
-   * @param projectPath The project path
+   * Moves the messages beyond a chat room's retention limits to its archive
+   * The oldest messages go first; pinned messages are kept and don't count towards
+   * the message limit. Must be called from within a chat room update.
+   * @param chatRoom The chat room being updated
+   * @returns The number of messages archived
    */
-  async heartbeat(projectPath: string): Promise<void> {
-    if (!this.myIdentity) {
-      throw new Error('ChatManager not initialized');
+  private async pruneMessages(chatRoom: ChatRoom): Promise<number> {
+    const maxMessages = chatRoom.retention.maxMessages ?? MAX_MESSAGES;
+    const maxAgeDays = chatRoom.retention.maxAgeDays ?? MAX_AGE_DAYS;
+    const cutoff = maxAgeDays > 0 ? Date.now() - maxAgeDays * DAY_MS : null;
+
+    let excess = chatRoom.messages.filter((msg) => !msg.pinnedAt).length - maxMessages;
+    const kept: Message[] = [];
+    const pruned: Message[] = [];
+    for (const msg of chatRoom.messages) {
+      if (msg.pinnedAt) {
+        kept.push(msg);
+      } else if (excess > 0) {
+        pruned.push(msg);
+        excess--;
+      } else if (cutoff !== null && msg.timestamp.getTime() < cutoff) {
+        pruned.push(msg);
+      } else {
+        kept.push(msg);
+      }
     }
 
-    const myName = this.myIdentity.name;
+    if (pruned.length === 0) {
+      return 0;
+    }
 
-    await this.persistence.atomicUpdateChatRoom(projectPath, async (chatRoom) => {
-      chatRoom.lastSeen[myName] = new Date();
+    // Archive first, so a failed update never loses messages
+    await this.persistence.archiveMessages(chatRoom.projectPath, pruned);
+    chatRoom.messages = kept;
+    this.logger.debug('Pruned old messages', {
+      archived: pruned.length,
+      retained: kept.length,
+      project: chatRoom.projectPath,
     });
+    return pruned.length;
   }
 
   /**
-   * Gets the last N messages from a project chat
-   * Always reloads from disk to get latest messages from other agents
+   * Edits a message this agent sent
+   * The previous content is kept in the message's revisions. Agents that had already read
+   * the message are sent a direct system message with the new content.
    * @param projectPath The project path
-   * @param count Number of messages to retrieve
-   * @returns Array of messages
+   * @param messageId ID (or unique ID prefix) of the message
+   * @param content The new content
+   * @returns The edited message and the agents that were notified
+   * @throws Error if the message is not found, was sent by another agent or was retracted
    */
-  async getLastMessages(projectPath: string, count: number): Promise<Message[]> {
-    return await this.logger.timeAsync(
-      'Getting last messages',
-      async () => {
-        // Always reload from disk
-        const chatRoom = await this.persistence.loadChatRoom(projectPath);
+  async editMessage(
+    projectPath: string,
+    messageId: string,
+    content: string
+  ): Promise<{ message: Message; notified: string[] }> {
+    if (content.trim().length === 0) {
+      throw new Error('Message cannot be empty');
+    }
 
-        if (!chatRoom) {
-          this.logger.debug('No chat room found', { project: projectPath });
-          return [];
-        }
+    return this.reviseMessage(projectPath, messageId, 'edited', (chatRoom, msg, now) => {
+      // Mentions follow the new content
+      const mentions = this.resolveMentions(chatRoom, content);
+      return {
+        ...msg,
+        content,
+        metadata: { ...msg.metadata, mentions },
+        editedAt: now,
+        revisions: [
+          ...(msg.revisions ?? []),
+          { content: msg.content, timestamp: msg.editedAt ?? msg.timestamp },
+        ],
+      };
+    });
+  }
 
-        const startIndex = Math.max(0, chatRoom.messages.length - count);
-        const messages = chatRoom.messages.slice(startIndex);
+  /**
+   * Retracts a message this agent sent
+   * The message stays in the chat room with empty content; its content is kept in the
+   * message's revisions. Agents that had already read the message are notified.
+   * @param projectPath The project path
+   * @param messageId ID (or unique ID prefix) of the message
+   * @returns The retracted message and the agents that were notified
+   * @throws Error if the message is not found, was sent by another agent or was retracted
+   */
+  async retractMessage(
+    projectPath: string,
+    messageId: string
+  ): Promise<{ message: Message; notified: string[] }> {
+    return this.reviseMessage(projectPath, messageId, 'retracted', (_chatRoom, msg, now) => ({
+      ...msg,
+      content: '',
+      metadata: { ...msg.metadata, mentions: [] },
+      retractedAt: now,
+      revisions: [
+        ...(msg.revisions ?? []),
+        { content: msg.content, timestamp: msg.editedAt ?? msg.timestamp },
+      ],
+    }));
+  }
 
-        this.logger.debug('Retrieved messages', {
-          count: messages.length,
-          total: chatRoom.messages.length,
-          project: projectPath,
+  /**
+   * Replaces a message this agent sent with a revised version, and notifies
+   * the agents whose read cursor is already past the message
+   * @param projectPath The project path
+   * @param messageId ID (or unique ID prefix) of the message
+   * @param change What happened to the message
+   * @param revise Creates the revised message
+   * @returns The revised message and the agents that were notified
+   * @throws Error if the message is not found, was sent by another agent or was retracted
+   */
+  private async reviseMessage(
+    projectPath: string,
+    messageId: string,
+    change: 'edited' | 'retracted',
+    revise: (chatRoom: ChatRoom, msg: Message, now: Date) => Message
+  ): Promise<{ message: Message; notified: string[] }> {
+    const myName = this.getMyName();
+    let message: Message | undefined;
+    let notified: string[] = [];
+
+    await this.persistence.atomicUpdateChatRoom(projectPath, (chatRoom) => {
+      const id = this.resolveMessageId(chatRoom, messageId);
+      const index = chatRoom.messages.findIndex((msg) => msg.id === id);
+      const original = chatRoom.messages[index];
+
+      if (original.sender !== myName) {
+        throw new Error('Only the sender can edit or retract a message');
+      }
+      if (original.retractedAt) {
+        throw new Error('Message has been retracted');
+      }
+
+      const now = new Date();
+      message = revise(chatRoom, original, now);
+      chatRoom.messages[index] = message;
+
+      // Readers who haven't reached the message yet will see the new version anyway
+      notified = this.getReaders(chatRoom, index);
+
+      const reference = `#${id.slice(0, 8)}`;
+      for (const reader of notified) {
+        chatRoom.messages.push({
+          id: randomUUID(),
+          sender: 'System',
+          content:
+            change === 'edited'
+              ? `${myName} edited a message you already read (${reference}): ${message.content}`
+              : `${myName} retracted a message you already read (${reference})`,
+          timestamp: now,
+          type: 'notification',
+          metadata: { level: 'info', messageId: id, change },
+          recipient: reader,
         });
+      }
 
-        return messages;
-      },
-      { count, project: projectPath }
-    );
+      this.markSeen(chatRoom);
+    });
+
+    this.logger.debug('Message revised', {
+      messageId: message!.id,
+      change,
+      notified: notified.length,
+      project: projectPath,
+    });
+
+    return { message: message!, notified };
   }
 
   /**
-   * Gets messages with advanced filtering options
+   * Acknowledges a message from another agent, optionally with a short reaction
+   * Acknowledging a message again replaces the earlier acknowledgement
    * @param projectPath The project path
-   * @param options Filtering options
-   * @returns Filtered array of messages
+   * @param messageId ID (or unique ID prefix) of the message
+   * @param reaction Optional short reaction, e.g. 'on it', 'done' or 'blocked'
+   * @returns The message with the acknowledgement
+   * @throws Error if the message is not found, was sent by this agent or was retracted,
+   *   or the reaction is too long
    */
-  async getFilteredMessages(
-    projectPath: string,
-    options: {
-      count?: number;
-      sinceTimestamp?: string;
-      lastSeconds?: number;
-    }
-  ): Promise<Message[]> {
-    // Always reload from disk
-    const chatRoom = await this.persistence.loadChatRoom(projectPath);
-
-    if (!chatRoom) {
-      return [];
+  async ackMessage(projectPath: string, messageId: string, reaction?: string): Promise<Message> {
+    const myName = this.getMyName();
+    const trimmedReaction = reaction?.trim() || undefined;
+    if (trimmedReaction && trimmedReaction.length > MAX_REACTION_LENGTH) {
+      throw new Error(`Reaction is too long (max ${MAX_REACTION_LENGTH} characters)`);
     }
 
-    let filtered = [...chatRoom.messages];
+    let message: Message | undefined;
+    await this.persistence.atomicUpdateChatRoom(projectPath, (chatRoom) => {
+      const index = this.findVisibleMessage(chatRoom, messageId);
+      const original = chatRoom.messages[index];
 
-    // Filter by timestamp if provided
-    if (options.sinceTimestamp) {
-      const sinceDate = new Date(options.sinceTimestamp);
-      filtered = filtered.filter((msg) => msg.timestamp >= sinceDate);
-    }
+      if (original.sender === myName) {
+        throw new Error('Cannot acknowledge your own message');
+      }
+      if (original.retractedAt) {
+        throw new Error('Message has been retracted');
+      }
 
-    // Filter by last N seconds if provided
-    if (options.lastSeconds !== undefined) {
-      const now = new Date();
-      const cutoffTime = new Date(now.getTime() - options.lastSeconds * 1000);
-      filtered = filtered.filter((msg) => msg.timestamp >= cutoffTime);
-    }
+      const ack: MessageAck = { agent: myName, reaction: trimmedReaction, timestamp: new Date() };
+      message = {
+        ...original,
+        acks: [...(original.acks ?? []).filter((a) => a.agent !== myName), ack],
+      };
+      chatRoom.messages[index] = message;
+      this.markSeen(chatRoom);
+    });
 
-    // Apply count limit if provided
-    if (options.count !== undefined) {
-      const startIndex = Math.max(0, filtered.length - options.count);
-      filtered = filtered.slice(startIndex);
-    }
+    this.logger.debug('Message acknowledged', {
+      messageId: message!.id,
+      reaction: trimmedReaction,
+      project: projectPath,
+    });
 
-    return filtered;
+    return message!;
   }
 
-
   /**
-   * Searches messages in a project chat
+   * Reports who has acknowledged and read a message
+   * An agent has read a message when its read cursor is at or past it, or it acknowledged it
    * @param projectPath The project path
-   * @param query The search query
-   * @returns Array of messages that match the query
+   * @param messageId ID (or unique ID prefix) of the message
+   * @returns The acknowledgements and read receipts
+   * @throws Error if the chat room or message is not found
    */
-  async searchMessages(projectPath: string, query: string): Promise<Message[]> {
+  async getMessageStatus(projectPath: string, messageId: string): Promise<MessageStatus> {
     const chatRoom = await this.persistence.loadChatRoom(projectPath);
 
     if (!chatRoom) {
-      return [];
+      throw new Error('Chat room not found');
     }
 
-    const lowerCaseQuery = query.toLowerCase();
+    const index = this.findVisibleMessage(chatRoom, messageId);
+    const message = chatRoom.messages[index];
+    const acks = message.acks ?? [];
+    const readBy = new Set([...this.getReaders(chatRoom, index), ...acks.map((a) => a.agent)]);
 
-    return chatRoom.messages.filter((msg) =>
-      msg.content.toLowerCase().includes(lowerCaseQuery)
+    const unreadBy = Object.keys(chatRoom.lastSeen).filter(
+      (agentName) =>
+        agentName !== message.sender &&
+        !readBy.has(agentName) &&
+        (!message.recipient || message.recipient === agentName)
     );
+
+    return { message, acks, readBy: [...readBy], unreadBy };
   }
 
   /**
-   * Gets all unique agent names from recent messages in a project
-   * Derives active agents from message history
+   * Asks another agent (or anyone) a question and waits for the answer
+   * The question is posted to the chat room with a correlation ID in its metadata; it stays
+   * open for answer_question until it is answered or the timeout expires.
    * @param projectPath The project path
-   * @param recentMessageCount How many recent messages to look at (default: 50)
-   * @returns Array of agent names
+   * @param question The question
+   * @param options How long to wait, and optionally the agent the question is addressed to
+   * @returns The question and its answer, or a null answer if the timeout expired
    */
-  async getAgentNames(projectPath: string): Promise<string[]> {
-    // Always reload from disk
-    const chatRoom = await this.persistence.loadChatRoom(projectPath);
-    const myName = this.getMyName();
+  async askAgent(
+    projectPath: string,
+    question: string,
+    options: { timeoutMs: number; to?: string }
+  ): Promise<AskResult> {
+    if (question.trim().length === 0) {
+      throw new Error('Question cannot be empty');
+    }
+    if (options.to === this.getMyName()) {
+      throw new Error('Cannot ask yourself');
+    }
 
-    if (!chatRoom) {
-      return [myName];
+    const questionId = randomUUID();
+    const expiresAt = new Date(Date.now() + options.timeoutMs);
+    const { messageId, chatRoom } = await this.appendMessage(projectPath, {
+      content: question,
+      type: 'text',
+      metadata: {
+        questionId,
+        expiresAt: expiresAt.toISOString(),
+        ...(options.to ? { askedOf: options.to } : {}),
+      },
+    });
+
+    const answers = await this.waitForMatch(
+      projectPath,
+      (msg) => msg.metadata?.answerTo === questionId,
+      options.timeoutMs
+    );
+
+    return {
+      questionId,
+      question: chatRoom.messages.find((msg) => msg.id === messageId)!,
+      answer: answers[0] ?? null,
+      recipientStatus: options.to ? this.getRecipientStatus(chatRoom, options.to) : undefined,
+    };
+  }
+
+  /**
+   * Answers an open question
+   * Only one answer is accepted per question; the check and the answer are made
+   * under the chat room lock, so two agents can't both answer.
+   * @param projectPath The project path
+   * @param questionId The question's correlation ID, or the ID of the question message
+   *   (a unique prefix of either is enough)
+   * @param answer The answer
+   * @returns The ID of the answer message
+   * @throws Error if the question is not found, already answered, expired, or addressed to
+   *   another agent
+   */
+  async answerQuestion(projectPath: string, questionId: string, answer: string): Promise<string> {
+    if (answer.trim().length === 0) {
+      throw new Error('Answer cannot be empty');
     }
 
-    const activeAgents = new Set<string>();
-    const now = new Date();
-    const fiveMinutesAgo = new Date(now.getTime() - 5 * 60 * 1000);
+    const draft: Pick<Message, 'content' | 'type' | 'metadata' | 'replyTo'> = {
+      content: answer,
+      type: 'text',
+    };
 
-    for (const agentName in chatRoom.lastSeen) {
-      if (chatRoom.lastSeen[agentName] > fiveMinutesAgo) {
-        activeAgents.add(agentName);
+    // The question is looked up under the lock, so no other agent can answer it in between
+    const { messageId } = await this.appendMessage(projectPath, draft, (chatRoom) => {
+      const question = this.findQuestion(chatRoom, questionId);
+      const id = question.metadata!.questionId as string;
+      if (question.sender === this.getMyName()) {
+        throw new Error('Cannot answer your own question');
+      }
+      const askedOf = question.metadata?.askedOf;
+      if (askedOf && askedOf !== this.getMyName()) {
+        throw new Error(`Question is addressed to ${askedOf}`);
+      }
+      const existing = chatRoom.messages.find((msg) => msg.metadata?.answerTo === id);
+      if (existing) {
+        throw new Error(`Question already answered by ${existing.sender}`);
+      }
+      if (Date.parse(question.metadata?.expiresAt as string) <= Date.now()) {
+        throw new Error('Question has expired');
       }
-    }
 
-    // Always include yourself
-    activeAgents.add(myName);
+      draft.metadata = { answerTo: id };
+      draft.replyTo = question.id;
+    });
 
-    return Array.from(activeAgents).sort();
+    return messageId;
   }
 
   /**
-   * Gets statistics about a specific chat room
+   * Gets the open questions this agent can answer: unanswered, not expired, and addressed
+   * to this agent or to anyone
    * @param projectPath The project path
-   * @returns Statistics object
+   * @returns The questions, oldest first
    */
-  async getChatStats(projectPath: string): Promise<{
-    createdAt: Date;
-    totalMessages: number;
-    allAgents: string[];
-  }> {
+  async getPendingQuestions(projectPath: string): Promise<PendingQuestion[]> {
     const chatRoom = await this.persistence.loadChatRoom(projectPath);
 
     if (!chatRoom) {
-      throw new Error('Chat room not found');
+      return [];
     }
 
-    const allAgents = new Set<string>();
-    chatRoom.messages.forEach((msg) => {
-      if (msg.sender !== 'System') {
-        allAgents.add(msg.sender);
-      }
-    });
+    const myName = this.getMyName();
+    const now = Date.now();
+    const answered = new Set(chatRoom.messages.map((msg) => msg.metadata?.answerTo));
 
-    return {
+    return this.getVisibleMessages(chatRoom.messages)
+      .filter((msg) => typeof msg.metadata?.questionId === 'string')
+      .map((msg) => ({
+        questionId: msg.metadata!.questionId as string,
+        message: msg,
+        askedOf: msg.metadata!.askedOf as string | undefined,
+        expiresAt: new Date(msg.metadata!.expiresAt as string),
+      }))
+      .filter(
+        (question) =>
+          question.message.sender !== myName &&
+          !question.message.retractedAt &&
+          (!question.askedOf || question.askedOf === myName) &&
+          !answered.has(question.questionId) &&
+          question.expiresAt.getTime() > now
+      );
+  }
+
+  /**
+   * Sets the retention limits of a chat room, replacing its earlier ones
+   * Limits that are not given fall back to the server-wide settings. Messages beyond the new
+   * limits are moved to the archive right away.
+   * @param projectPath The project path
+   * @param policy The maximum number of messages and maximum age in days (0: no age limit)
+   * @returns The room's retention limits and the number of messages archived
+   * @throws Error if a limit is out of range
+   */
+  async setRetention(
+    projectPath: string,
+    policy: RetentionPolicy
+  ): Promise<{ retention: RetentionPolicy; archived: number }> {
+    const { maxMessages, maxAgeDays } = policy;
+    if (
+      maxMessages !== undefined &&
+      !(Number.isInteger(maxMessages) && maxMessages >= 100 && maxMessages <= 50000)
+    ) {
+      throw new Error('maxMessages must be a whole number between 100 and 50000');
+    }
+    if (
+      maxAgeDays !== undefined &&
+      !(Number.isInteger(maxAgeDays) && maxAgeDays >= 0 && maxAgeDays <= 3650)
+    ) {
+      throw new Error('maxAgeDays must be a whole number between 0 and 3650');
+    }
+
+    let archived = 0;
+    const chatRoom = await this.persistence.atomicUpdateChatRoom(projectPath, async (room) => {
+      room.retention = {};
+      if (maxMessages !== undefined) {
+        room.retention.maxMessages = maxMessages;
+      }
+      if (maxAgeDays !== undefined) {
+        room.retention.maxAgeDays = maxAgeDays;
+      }
+      this.markSeen(room);
+      archived = await this.pruneMessages(room);
+    });
+
+    this.logger.debug('Retention set', { ...chatRoom.retention, archived, project: projectPath });
+
+    return { retention: chatRoom.retention, archived };
+  }
+
+  /**
+   * Pins a message so it is never pruned, or unpins it
+   * @param projectPath The project path
+   * @param messageId ID (or unique ID prefix) of the message
+   * @param pinned Whether to pin (default) or unpin the message
+   * @returns The updated message
+   * @throws Error if the message is not found or was retracted
+   */
+  async pinMessage(
+    projectPath: string,
+    messageId: string,
+    pinned: boolean = true
+  ): Promise<Message> {
+    const myName = this.getMyName();
+
+    let message: Message | undefined;
+    await this.persistence.atomicUpdateChatRoom(projectPath, (chatRoom) => {
+      const index = this.findVisibleMessage(chatRoom, messageId);
+      const original = chatRoom.messages[index];
+
+      if (pinned && original.retractedAt) {
+        throw new Error('Message has been retracted');
+      }
+
+      if (pinned) {
+        message = { ...original, pinnedAt: new Date(), pinnedBy: myName };
+      } else {
+        const { pinnedAt: _pinnedAt, pinnedBy: _pinnedBy, ...unpinned } = original;
+        message = unpinned;
+      }
+      chatRoom.messages[index] = message;
+      this.markSeen(chatRoom);
+    });
+
+    this.logger.debug(pinned ? 'Message pinned' : 'Message unpinned', {
+      messageId: message!.id,
+      project: projectPath,
+    });
+
+    return message!;
+  }
+
+  /**
+   * Gets the pinned messages of a project chat that are visible to this agent
+   * @param projectPath The project path
+   * @returns The pinned messages in chronological order
+   */
+  async getPinnedMessages(projectPath: string): Promise<Message[]> {
+    const chatRoom = await this.persistence.loadChatRoom(projectPath);
+    if (!chatRoom) {
+      return [];
+    }
+    return this.getVisibleMessages(chatRoom.messages).filter((msg) => msg.pinnedAt);
+  }
+
+  /**
+   * Gets the messages of a project chat that were pruned into its archive and are
+   * visible to this agent
+   * @param projectPath The project path
+   * @returns The archived messages in chronological order
+   */
+  async getArchivedMessages(projectPath: string): Promise<Message[]> {
+    const archived = await this.persistence.loadArchivedMessages(projectPath);
+    return this.getVisibleMessages(archived);
+  }
+
+  /**
+   * Exports the history of a project chat that is visible to this agent
+   * @param projectPath The project path
+   * @param format Markdown or HTML for human readers, or a JSON bundle for importChat
+   * @param options Whether to include messages pruned into the archive (default: true)
+   * @returns The exported transcript
+   * @throws Error if the chat room is not found
+   */
+  async exportChat(
+    projectPath: string,
+    format: TranscriptFormat,
+    options: { includeArchived?: boolean } = {}
+  ): Promise<string> {
+    const chatRoom = await this.persistence.loadChatRoom(projectPath);
+
+    if (!chatRoom) {
+      throw new Error('Chat room not found');
+    }
+
+    const archived =
+      options.includeArchived === false
+        ? []
+        : await this.persistence.loadArchivedMessages(projectPath);
+    const roomIds = new Set(chatRoom.messages.map((msg) => msg.id));
+    const transcript: Transcript = {
+      projectPath,
+      createdAt: chatRoom.createdAt,
+      exportedAt: new Date(),
+      exportedBy: this.getMyName(),
+      // An archived message can still be in the room if archiving raced with a failed update
+      messages: this.getVisibleMessages([
+        ...archived.filter((msg) => !roomIds.has(msg.id)),
+        ...chatRoom.messages,
+      ]),
+      lastSeen: chatRoom.lastSeen,
+    };
+
+    this.logger.debug('Chat exported', {
+      format,
+      messages: transcript.messages.length,
+      project: projectPath,
+    });
+
+    switch (format) {
+      case 'markdown':
+        return renderMarkdown(transcript, this.metadataSchemas);
+      case 'html':
+        return renderHtml(transcript, this.metadataSchemas);
+      case 'json':
+        return JSON.stringify(toChatBundle(transcript), null, 2);
+      default:
+        throw new Error(`Unknown export format: ${format}`);
+    }
+  }
+
+  /**
+   * Imports a JSON bundle made by exportChat into a project chat
+   * Messages already in the chat room or its archive are skipped, as are repeated IDs within
+   * the bundle, so importing the same bundle twice changes nothing. New messages are appended
+   * in the bundle's order and get the next sequence numbers of the room, even when their
+   * timestamps are older: sequence numbers only grow, so imported history lands at the end of
+   * the room and keeps its original timestamps. Replies to messages that are in neither the
+   * room nor the bundle become top-level messages. Last seen times are merged, keeping the
+   * later one.
+   * @param projectPath The project path
+   * @param bundle The bundle as JSON text
+   * @returns The number of messages imported and skipped
+   * @throws Error if the bundle is invalid
+   */
+  async importChat(
+    projectPath: string,
+    bundle: string
+  ): Promise<{ imported: number; skipped: number }> {
+    const transcript = fromChatBundle(bundle);
+    const archivedIds = new Set(
+      (await this.persistence.loadArchivedMessages(projectPath)).map((msg) => msg.id)
+    );
+
+    let imported = 0;
+    await this.persistence.atomicUpdateChatRoom(projectPath, async (chatRoom) => {
+      const knownIds = new Set([...archivedIds, ...chatRoom.messages.map((msg) => msg.id)]);
+      const newMessages: Message[] = [];
+      for (const msg of transcript.messages) {
+        if (!knownIds.has(msg.id)) {
+          knownIds.add(msg.id);
+          newMessages.push(msg);
+        }
+      }
+      const roomIds = new Set([
+        ...chatRoom.messages.map((msg) => msg.id),
+        ...newMessages.map((msg) => msg.id),
+      ]);
+
+      for (const msg of newMessages) {
+        if (msg.replyTo && !roomIds.has(msg.replyTo)) {
+          const { replyTo: _replyTo, ...topLevel } = msg;
+          chatRoom.messages.push(topLevel);
+        } else {
+          chatRoom.messages.push(msg);
+        }
+      }
+      imported = newMessages.length;
+
+      for (const [agentName, date] of Object.entries(transcript.lastSeen)) {
+        const current = chatRoom.lastSeen[agentName];
+        if (!current || current < date) {
+          chatRoom.lastSeen[agentName] = date;
+        }
+      }
+
+      this.markSeen(chatRoom);
+      await this.pruneMessages(chatRoom);
+    });
+
+    const skipped = transcript.messages.length - imported;
+    this.logger.debug('Chat imported', { imported, skipped, project: projectPath });
+
+    return { imported, skipped };
+  }
+
+  /**
+   * Updates the last seen timestamp for the current agent
+   * @param projectPath The project path
+   */
+  async heartbeat(projectPath: string): Promise<void> {
+    if (!this.myIdentity) {
+      throw new Error('ChatManager not initialized');
+    }
+
+    await this.persistence.atomicUpdateChatRoom(projectPath, async (chatRoom) => {
+      this.markSeen(chatRoom);
+    });
+  }
+
+  /**
+   * Sends a heartbeat unless this agent was already seen in the chat room very recently
+   * Called on every tool call, so agents stay present without explicit heartbeats
+   * @param projectPath The project path
+   */
+  async touch(projectPath: string): Promise<void> {
+    const lastMarked = this.seenRooms.get(projectPath) ?? 0;
+    if (Date.now() - lastMarked < AUTO_HEARTBEAT_INTERVAL_MS) {
+      return;
+    }
+    await this.heartbeat(projectPath);
+  }
+
+  /**
+   * Leaves a project chat, announcing it to the other agents
+   * The agent is offline until its next activity in the room
+   * @param projectPath The project path
+   */
+  async leave(projectPath: string): Promise<void> {
+    const myName = this.getMyName();
+
+    await this.persistence.atomicUpdateChatRoom(projectPath, async (chatRoom) => {
+      if (this.getPresence(chatRoom, myName) === 'offline') {
+        return;
+      }
+
+      const now = new Date();
+      chatRoom.messages.push(
+        this.createPresenceMessage(`${myName} left the chat`, myName, 'left', now)
+      );
+      chatRoom.departures[myName] = now;
+    });
+
+    this.seenRooms.delete(projectPath);
+  }
+
+  /**
+   * Gets the last N messages from a project chat
+   * Always reloads from disk to get latest messages from other agents
+   * @param projectPath The project path
+   * @param count Number of messages to retrieve
+   * @returns Array of messages
+   */
+  async getLastMessages(projectPath: string, count: number): Promise<Message[]> {
+    return await this.logger.timeAsync(
+      'Getting last messages',
+      async () => {
+        // Always reload from disk
+        const chatRoom = await this.persistence.loadChatRoom(projectPath);
+
+        if (!chatRoom) {
+          this.logger.debug('No chat room found', { project: projectPath });
+          return [];
+        }
+
+        const visible = this.getVisibleMessages(chatRoom.messages);
+        const startIndex = Math.max(0, visible.length - count);
+        const messages = visible.slice(startIndex);
+
+        this.logger.debug('Retrieved messages', {
+          count: messages.length,
+          total: chatRoom.messages.length,
+          project: projectPath,
+        });
+
+        return messages;
+      },
+      { count, project: projectPath }
+    );
+  }
+
+  /**
+   * Gets one page of messages, for walking the history of a chat room page by page
+   * Pages are defined by sequence numbers, so they stay stable while messages are added
+   * or pruned. With `after`, the page starts right after the cursor and the next page
+   * continues forward; otherwise the page ends before `before` (or with the newest message)
+   * and the next page continues backward.
+   * @param projectPath The project path
+   * @param options Cursors (sequence number or message ID) and page size (default 10)
+   * @returns The messages in chronological order, and the cursor for the next page
+   * @throws Error if a cursor names an unknown message
+   */
+  async getMessagePage(
+    projectPath: string,
+    options: { before?: number | string; after?: number | string; count?: number } = {}
+  ): Promise<MessagePage> {
+    const chatRoom = await this.persistence.loadChatRoom(projectPath);
+
+    if (!chatRoom) {
+      return { messages: [] };
+    }
+
+    const count = options.count ?? 10;
+    const before =
+      options.before !== undefined ? this.resolveCursor(chatRoom, options.before) : Infinity;
+    const after =
+      options.after !== undefined ? this.resolveCursor(chatRoom, options.after) : -Infinity;
+    const inRange = this.getVisibleMessages(chatRoom.messages).filter((msg) => {
+      const seq = msg.seq ?? 0;
+      return seq > after && seq < before;
+    });
+
+    if (options.after !== undefined) {
+      const messages = inRange.slice(0, count);
+      const hasMore = inRange.length > messages.length;
+      return { messages, nextCursor: hasMore ? messages[messages.length - 1].seq : undefined };
+    }
+
+    const messages = inRange.slice(Math.max(0, inRange.length - count));
+    const hasMore = inRange.length > messages.length;
+    return { messages, nextCursor: hasMore ? messages[0].seq : undefined };
+  }
+
+  /**
+   * Gets the messages this agent has not read yet and advances its read cursor
+   * The cursor is stored in the chat room, so it survives restarts and is shared across processes
+   * @param projectPath The project path
+   * @param count Optional maximum number of messages to return (oldest unread first)
+   * @returns The unread messages and how many unread messages remain after them
+   */
+  async readUnread(
+    projectPath: string,
+    count?: number
+  ): Promise<{ messages: Message[]; remaining: number }> {
+    const myName = this.getMyName();
+    let messages: Message[] = [];
+    let remaining = 0;
+
+    await this.persistence.atomicUpdateChatRoom(projectPath, async (chatRoom) => {
+      const unread = this.getUnreadMessages(chatRoom);
+      messages = count !== undefined ? unread.slice(0, count) : unread;
+      remaining = unread.length - messages.length;
+
+      // Move the cursor past everything when all unread messages were returned,
+      // otherwise stop at the last message handed out
+      const cursorMessage =
+        remaining > 0
+          ? messages[messages.length - 1]
+          : chatRoom.messages[chatRoom.messages.length - 1];
+      if (cursorMessage) {
+        chatRoom.readCursors[myName] = cursorMessage.id;
+      }
+      this.markSeen(chatRoom);
+    });
+
+    this.logger.debug('Read unread messages', {
+      count: messages.length,
+      remaining,
+      project: projectPath,
+    });
+
+    return { messages, remaining };
+  }
+
+  /**
+   * Records that messages were shown to this agent by a tool other than read_unread
+   * The read cursor moves past the messages as far as it can without skipping an unread message
+   * that was not shown, so read receipts cover them and read_unread doesn't repeat them.
+   * @param projectPath The project path
+   * @param messages The messages shown to the agent
+   */
+  async markRead(projectPath: string, messages: Message[]): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+
+    const myName = this.getMyName();
+    const shownIds = new Set(messages.map((msg) => msg.id));
+
+    await this.persistence.atomicUpdateChatRoom(projectPath, (chatRoom) => {
+      const unreadIds = new Set(this.getUnreadMessages(chatRoom).map((msg) => msg.id));
+      const cursor = chatRoom.readCursors[myName];
+      const cursorIndex = cursor ? chatRoom.messages.findIndex((msg) => msg.id === cursor) : -1;
+
+      let cursorMessage: Message | undefined;
+      for (const msg of chatRoom.messages.slice(cursorIndex + 1)) {
+        if (unreadIds.has(msg.id) && !shownIds.has(msg.id)) {
+          break;
+        }
+        cursorMessage = msg;
+      }
+      if (cursorMessage) {
+        chatRoom.readCursors[myName] = cursorMessage.id;
+      }
+    });
+  }
+
+  /**
+   * Counts the messages this agent has not read yet, without advancing its read cursor
+   * @param projectPath The project path
+   * @returns Number of unread messages
+   */
+  async getUnreadCount(projectPath: string): Promise<number> {
+    const chatRoom = await this.persistence.loadChatRoom(projectPath);
+
+    if (!chatRoom) {
+      return 0;
+    }
+
+    return this.getUnreadMessages(chatRoom).length;
+  }
+
+  /**
+   * Gets messages that @mention this agent
+   * @param projectPath The project path
+   * @param options Optional count limit (most recent first kept) and unread-only filter
+   * @returns Array of messages in chronological order
+   */
+  async getMentions(
+    projectPath: string,
+    options: { count?: number; unreadOnly?: boolean } = {}
+  ): Promise<Message[]> {
+    const chatRoom = await this.persistence.loadChatRoom(projectPath);
+
+    if (!chatRoom) {
+      return [];
+    }
+
+    const myName = this.getMyName();
+    const candidates = options.unreadOnly
+      ? this.getUnreadMessages(chatRoom)
+      : this.getVisibleMessages(chatRoom.messages);
+    const mentioned = candidates.filter((msg) => mentionsAgent(msg, myName));
+
+    if (options.count !== undefined) {
+      return mentioned.slice(Math.max(0, mentioned.length - options.count));
+    }
+    return mentioned;
+  }
+
+  /**
+   * Waits until a new message from another agent arrives in a project chat
+   * @param projectPath The project path
+   * @param options Timeout and optional filters on sender, type and @mentions
+   * @returns The new matching messages, or an empty array if the timeout expired
+   */
+  async waitForMessages(
+    projectPath: string,
+    options: {
+      timeoutMs: number;
+      sender?: string;
+      type?: 'text' | 'system' | 'command' | 'notification';
+      mention?: string;
+    }
+  ): Promise<Message[]> {
+    const myName = this.getMyName();
+    const initialRoom = await this.persistence.loadChatRoom(projectPath);
+    const knownIds = new Set((initialRoom?.messages ?? []).map((msg) => msg.id));
+
+    const matches = (msg: Message): boolean =>
+      !knownIds.has(msg.id) &&
+      msg.sender !== myName &&
+      (!options.sender || msg.sender === options.sender) &&
+      (!options.type || msg.type === options.type) &&
+      (!options.mention || mentionsAgent(msg, options.mention));
+
+    return this.waitForMatch(projectPath, matches, options.timeoutMs);
+  }
+
+  /**
+   * Waits until a project chat holds visible messages that match a condition
+   * Driven by file change notifications on the chat room file, with a slow fallback poll
+   * @param projectPath The project path
+   * @param matches The condition
+   * @param timeoutMs How long to wait
+   * @returns The matching messages, or an empty array if the timeout expired
+   */
+  private waitForMatch(
+    projectPath: string,
+    matches: (msg: Message) => boolean,
+    timeoutMs: number
+  ): Promise<Message[]> {
+    return new Promise<Message[]>((resolve) => {
+      let settled = false;
+      let checking = false;
+      let recheck = false;
+      let stopWatching: (() => void) | null = null;
+
+      const finish = (messages: Message[]) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        clearInterval(poll);
+        stopWatching?.();
+        resolve(messages);
+      };
+
+      const check = async (): Promise<void> => {
+        if (settled) {
+          return;
+        }
+        if (checking) {
+          recheck = true;
+          return;
+        }
+
+        checking = true;
+        try {
+          const chatRoom = await this.persistence.loadChatRoom(projectPath);
+          const found = chatRoom ? this.getVisibleMessages(chatRoom.messages).filter(matches) : [];
+          if (found.length > 0) {
+            finish(found);
+          }
+        } catch (error) {
+          // Another process may be in the middle of rewriting the file;
+          // the next change event or fallback poll will try again
+          this.logger.debug('Chat room not readable while waiting', {
+            project: projectPath,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        } finally {
+          checking = false;
+          if (recheck) {
+            recheck = false;
+            void check();
+          }
+        }
+      };
+
+      const timer = setTimeout(() => finish([]), timeoutMs);
+      const poll = setInterval(() => void check(), WAIT_FALLBACK_POLL_MS);
+
+      this.persistence
+        .watchChatRoom(projectPath, () => void check())
+        .then((stop) => {
+          if (settled) {
+            stop();
+          } else {
+            stopWatching = stop;
+          }
+        })
+        .catch((error) => {
+          this.logger.warn('Could not watch chat room, relying on polling', {
+            project: projectPath,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+
+      // Catch messages that arrived before the watcher was in place
+      void check();
+    });
+  }
+
+  /**
+   * Watches a project chat for new messages from any process
+   * Changes that don't add messages (e.g., heartbeats) are ignored
+   * @param projectPath The project path
+   * @param onNewMessages Called after new messages were appended
+   * @returns Function that stops watching
+   */
+  async watchForNewMessages(
+    projectPath: string,
+    onNewMessages: () => void
+  ): Promise<() => void> {
+    const initialRoom = await this.persistence.loadChatRoom(projectPath);
+    let lastMessageId = initialRoom?.messages[initialRoom.messages.length - 1]?.id;
+    let debounce: NodeJS.Timeout | null = null;
+
+    const check = async (): Promise<void> => {
+      try {
+        const chatRoom = await this.persistence.loadChatRoom(projectPath);
+        const latestId = chatRoom?.messages[chatRoom.messages.length - 1]?.id;
+        if (latestId && latestId !== lastMessageId) {
+          lastMessageId = latestId;
+          onNewMessages();
+        }
+      } catch {
+        // File is being rewritten; the change event that ends the write triggers another check
+      }
+    };
+
+    const stopWatching = await this.persistence.watchChatRoom(projectPath, () => {
+      if (debounce) {
+        clearTimeout(debounce);
+      }
+      debounce = setTimeout(() => void check(), WATCH_DEBOUNCE_MS);
+    });
+
+    return () => {
+      if (debounce) {
+        clearTimeout(debounce);
+      }
+      stopWatching();
+    };
+  }
+
+  /**
+   * Gets messages with advanced filtering options
+   * @param projectPath The project path
+   * @param options Filtering options
+   * @returns Filtered array of messages
+   */
+  async getFilteredMessages(
+    projectPath: string,
+    options: {
+      count?: number;
+      sinceTimestamp?: string;
+      lastSeconds?: number;
+    }
+  ): Promise<Message[]> {
+    // Always reload from disk
+    const chatRoom = await this.persistence.loadChatRoom(projectPath);
+
+    if (!chatRoom) {
+      return [];
+    }
+
+    let filtered = this.getVisibleMessages(chatRoom.messages);
+
+    // Filter by timestamp if provided
+    if (options.sinceTimestamp) {
+      const sinceDate = new Date(options.sinceTimestamp);
+      filtered = filtered.filter((msg) => msg.timestamp >= sinceDate);
+    }
+
+    // Filter by last N seconds if provided
+    if (options.lastSeconds !== undefined) {
+      const now = new Date();
+      const cutoffTime = new Date(now.getTime() - options.lastSeconds * 1000);
+      filtered = filtered.filter((msg) => msg.timestamp >= cutoffTime);
+    }
+
+    // Apply count limit if provided
+    if (options.count !== undefined) {
+      const startIndex = Math.max(0, filtered.length - options.count);
+      filtered = filtered.slice(startIndex);
+    }
+
+    return filtered;
+  }
+
+
+  /**
+   * Searches messages in a project chat, or in all chat rooms
+   * Words are looked up in the search index and ranked by relevance (BM25). Every word must
+   * occur, and a word also matches longer words starting with it. "Quoted phrases" must occur
+   * verbatim. In regex mode the query is a case-insensitive regular expression, and hits are
+   * ranked by their number of matches. An empty query matches every message passing the filters.
+   * With includeArchived, messages pruned into the chat room's archive are searched as well.
+   * @param projectPath The project path
+   * @param query The search query
+   * @param options Filters and output options
+   * @returns The hits, best first (newest first among equal scores)
+   * @throws Error if the regular expression or a timestamp is invalid
+   */
+  async searchMessages(
+    projectPath: string,
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<SearchHit[]> {
+    let pattern: RegExp | null = null;
+    if (options.regex) {
+      try {
+        pattern = new RegExp(query, 'i');
+      } catch (error) {
+        // The SyntaxError's message already reads "Invalid regular expression: /query/i: reason"
+        throw new Error(
+          error instanceof SyntaxError ? error.message : `Invalid regular expression: ${query}`
+        );
+      }
+    }
+    const parsedQuery = parseSearchQuery(pattern ? '' : query);
+    const since = this.parseSearchTimestamp(options.sinceTimestamp);
+    const until = this.parseSearchTimestamp(options.untilTimestamp);
+
+    const matchesFilters = (msg: Message): boolean =>
+      (!options.sender || msg.sender === options.sender) &&
+      (!options.type || msg.type === options.type) &&
+      (!options.metadataKeys ||
+        options.metadataKeys.every((key) => msg.metadata !== undefined && key in msg.metadata)) &&
+      (!since || msg.timestamp >= since) &&
+      (!until || msg.timestamp <= until);
+
+    const projectPaths = options.allRooms ? await this.listChatRooms() : [projectPath];
+    const hits: SearchHit[] = [];
+    // The messages each hit was found among, for its context
+    const hitSources = new Map<SearchHit, Message[]>();
+
+    for (const roomPath of projectPaths) {
+      const chatRoom = await this.persistence.loadChatRoom(roomPath);
+      if (!chatRoom) {
+        continue;
+      }
+
+      const sources: Array<{
+        messages: Message[];
+        archived: boolean;
+        index: () => Promise<SearchIndex>;
+      }> = [
+        {
+          messages: this.getVisibleMessages(chatRoom.messages),
+          archived: false,
+          index: () => this.getSearchIndex(chatRoom),
+        },
+      ];
+      if (options.includeArchived) {
+        const archivedMessages = this.getVisibleMessages(
+          await this.persistence.loadArchivedMessages(roomPath)
+        );
+        sources.push({
+          messages: archivedMessages,
+          archived: true,
+          // Archives are searched rarely, so their index is built on demand and not kept
+          index: async () => {
+            const index = new SearchIndex();
+            index.sync(archivedMessages);
+            return index;
+          },
+        });
+      }
+
+      for (const source of sources) {
+        const scores =
+          !pattern && parsedQuery.terms.length > 0
+            ? (await source.index()).score(parsedQuery.terms)
+            : null;
+
+        for (const msg of source.messages) {
+          if (msg.retractedAt || !matchesFilters(msg)) {
+            continue;
+          }
+
+          let score = 0;
+          if (pattern) {
+            if (!pattern.test(msg.content)) {
+              continue;
+            }
+            const globalPattern = new RegExp(pattern.source, 'gi');
+            score = (msg.content.match(globalPattern) ?? []).filter((m) => m.length > 0).length;
+          } else if (scores) {
+            const termScore = scores.get(msg.id);
+            if (termScore === undefined) {
+              continue;
+            }
+            score = termScore;
+          }
+
+          const content = msg.content.toLowerCase();
+          if (!parsedQuery.phrases.every((phrase) => content.includes(phrase))) {
+            continue;
+          }
+
+          const hit: SearchHit = {
+            projectPath: roomPath,
+            message: msg,
+            score,
+            before: [],
+            after: [],
+            archived: source.archived,
+          };
+          hits.push(hit);
+          hitSources.set(hit, source.messages);
+        }
+      }
+    }
+
+    hits.sort(
+      (a, b) => b.score - a.score || b.message.timestamp.getTime() - a.message.timestamp.getTime()
+    );
+    const limited = hits.slice(0, options.limit ?? DEFAULT_SEARCH_LIMIT);
+
+    // Only look up context for the hits that are returned
+    const contextSize = options.contextSize ?? 0;
+    if (contextSize > 0) {
+      for (const hit of limited) {
+        const source = hitSources.get(hit)!;
+        const position = source.indexOf(hit.message);
+        hit.before = source.slice(Math.max(0, position - contextSize), position);
+        hit.after = source.slice(position + 1, position + 1 + contextSize);
+      }
+    }
+
+    return limited;
+  }
+
+  /**
+   * Parses an optional timestamp for a search filter
+   * @param timestamp ISO 8601 timestamp or undefined
+   * @returns The date, or null if no timestamp was given
+   * @throws Error if the timestamp is invalid
+   */
+  private parseSearchTimestamp(timestamp: string | undefined): Date | null {
+    if (!timestamp) {
+      return null;
+    }
+    const date = new Date(timestamp);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid timestamp: ${timestamp}`);
+    }
+    return date;
+  }
+
+  /**
+   * Gets a chat room's search index, brought up to date with its messages
+   * The index is kept in memory and saved to storage after enough changes, so a restarted
+   * server doesn't have to index the whole history again
+   * @param chatRoom The chat room
+   * @returns The search index
+   */
+  private async getSearchIndex(chatRoom: ChatRoom): Promise<SearchIndex> {
+    let entry = this.searchIndexes.get(chatRoom.projectPath);
+    if (!entry) {
+      const saved = await this.persistence.loadSearchIndex(chatRoom.projectPath);
+      entry = {
+        index: saved ? SearchIndex.fromJSON(saved) : new SearchIndex(),
+        unsavedChanges: 0,
+        saved: saved !== null,
+      };
+      this.searchIndexes.set(chatRoom.projectPath, entry);
+    }
+
+    entry.unsavedChanges += entry.index.sync(chatRoom.messages);
+
+    const saveDue = !entry.saved || entry.unsavedChanges >= SEARCH_INDEX_SAVE_INTERVAL;
+    if (entry.unsavedChanges > 0 && saveDue) {
+      try {
+        await this.persistence.saveSearchIndex(chatRoom.projectPath, entry.index.toJSON());
+        entry.unsavedChanges = 0;
+        entry.saved = true;
+      } catch (error) {
+        // The index is only a cache; searching works without saving it
+        this.logger.warn('Could not save search index', {
+          project: chatRoom.projectPath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return entry.index;
+  }
+
+  /**
+   * Gets a thread: the root message followed by all of its replies, in chronological order
+   * @param projectPath The project path
+   * @param messageId ID (or unique ID prefix) of the root message
+   * @returns Array of messages in the thread
+   */
+  async getThread(projectPath: string, messageId: string): Promise<Message[]> {
+    const chatRoom = await this.persistence.loadChatRoom(projectPath);
+
+    if (!chatRoom) {
+      throw new Error('Chat room not found');
+    }
+
+    const rootId = this.resolveMessageId(chatRoom, messageId);
+    const threadIds = new Set<string>([rootId]);
+
+    // Messages are stored chronologically, so a reply always follows its parent
+    const thread: Message[] = [];
+    for (const msg of chatRoom.messages) {
+      if (msg.id === rootId || (msg.replyTo && threadIds.has(msg.replyTo))) {
+        threadIds.add(msg.id);
+        thread.push(msg);
+      }
+    }
+
+    return this.getVisibleMessages(thread);
+  }
+
+  /**
+   * Creates a task on a project's task board and announces it in the chat room
+   * @param projectPath The project path
+   * @param title One-line summary of the work
+   * @param description Optional longer description
+   * @param assignee Optional agent to assign the task to right away
+   * @returns The created task
+   */
+  async createTask(
+    projectPath: string,
+    title: string,
+    description?: string,
+    assignee?: string
+  ): Promise<Task> {
+    const myName = this.getMyName();
+    let taskId = '';
+
+    const taskBoard = await this.persistence.atomicUpdateTaskBoard(projectPath, async (board) => {
+      const now = new Date();
+      taskId = `T${board.nextTaskNumber}`;
+      board.tasks.push({
+        id: taskId,
+        title,
+        description,
+        status: assignee ? 'claimed' : 'open',
+        createdBy: myName,
+        assignee,
+        createdAt: now,
+        updatedAt: now,
+      });
+      board.nextTaskNumber++;
+    });
+
+    const task = this.findTask(taskBoard, taskId);
+    await this.announceTaskChange(
+      projectPath,
+      task,
+      `Created task ${task.id}: ${task.title}${assignee ? ` (assigned to ${assignee})` : ''}`
+    );
+    return task;
+  }
+
+  /**
+   * Claims an open task for this agent
+   * The check and the claim happen under one file lock, so two agents can't claim the same task
+   * @param projectPath The project path
+   * @param taskId The task ID (e.g., 'T3')
+   * @returns The claimed task
+   * @throws Error if the task doesn't exist, is done, or is claimed by another agent
+   */
+  async claimTask(projectPath: string, taskId: string): Promise<Task> {
+    const myName = this.getMyName();
+
+    const taskBoard = await this.persistence.atomicUpdateTaskBoard(projectPath, async (board) => {
+      const found = this.findTask(board, taskId);
+      if (found.status === 'done') {
+        throw new Error(`Task ${found.id} is already done`);
+      }
+      if (found.assignee && found.assignee !== myName) {
+        throw new Error(`Task ${found.id} is already claimed by ${found.assignee}`);
+      }
+
+      found.assignee = myName;
+      if (found.status === 'open') {
+        found.status = 'claimed';
+      }
+      found.updatedAt = new Date();
+    });
+
+    const task = this.findTask(taskBoard, taskId);
+    await this.announceTaskChange(
+      projectPath,
+      task,
+      `${myName} claimed task ${task.id}: ${task.title}`
+    );
+    return task;
+  }
+
+  /**
+   * Changes the status of a task
+   * Only the assignee or the creator may change a task; setting it back to 'open' releases it
+   * @param projectPath The project path
+   * @param taskId The task ID (e.g., 'T3')
+   * @param status The new status
+   * @returns The updated task
+   */
+  async updateTaskStatus(projectPath: string, taskId: string, status: TaskStatus): Promise<Task> {
+    const myName = this.getMyName();
+
+    const taskBoard = await this.persistence.atomicUpdateTaskBoard(projectPath, async (board) => {
+      const found = this.findTask(board, taskId);
+      if (found.assignee && found.assignee !== myName && found.createdBy !== myName) {
+        throw new Error(`Task ${found.id} is assigned to ${found.assignee}`);
+      }
+
+      found.status = status;
+      if (status === 'open') {
+        found.assignee = undefined;
+      } else if (!found.assignee && status !== 'done') {
+        found.assignee = myName;
+      }
+      found.updatedAt = new Date();
+    });
+
+    const task = this.findTask(taskBoard, taskId);
+    await this.announceTaskChange(
+      projectPath,
+      task,
+      `${myName} set task ${task.id} to ${status}: ${task.title}`
+    );
+    return task;
+  }
+
+  /**
+   * Lists tasks on a project's task board
+   * @param projectPath The project path
+   * @param filter Optional status and assignee filters
+   * @returns Array of tasks in creation order
+   */
+  async listTasks(
+    projectPath: string,
+    filter: { status?: TaskStatus; assignee?: string } = {}
+  ): Promise<Task[]> {
+    const taskBoard = await this.persistence.loadTaskBoard(projectPath);
+
+    if (!taskBoard) {
+      return [];
+    }
+
+    return taskBoard.tasks.filter(
+      (task) =>
+        (!filter.status || task.status === filter.status) &&
+        (!filter.assignee || task.assignee === filter.assignee)
+    );
+  }
+
+  /**
+   * Finds a task by ID, accepting 'T3', 't3' or '3'
+   * @param taskBoard The task board
+   * @param taskId The task ID
+   * @returns The task
+   * @throws Error if the task doesn't exist
+   */
+  private findTask(taskBoard: TaskBoard, taskId: string): Task {
+    const normalized = taskId.trim().toUpperCase().replace(/^(?!T)/, 'T');
+    const task = taskBoard.tasks.find((t) => t.id === normalized);
+    if (!task) {
+      throw new Error(`Task not found: ${taskId}`);
+    }
+    return task;
+  }
+
+  /**
+   * Posts a notification about a task change into the chat room
+   * @param projectPath The project path
+   * @param task The changed task
+   * @param content The notification text
+   */
+  private async announceTaskChange(projectPath: string, task: Task, content: string): Promise<void> {
+    await this.appendMessage(projectPath, {
+      content,
+      type: 'notification',
+      metadata: {
+        level: 'info',
+        taskId: task.id,
+        taskStatus: task.status,
+        assignee: task.assignee,
+      },
+    });
+  }
+
+  /**
+   * Claims a set of files (as glob patterns) for this agent
+   * All patterns are claimed or none: if any pattern overlaps an active claim of another
+   * agent, nothing is stored and the conflicts are returned. Claims stay active as long as
+   * the holder keeps being seen (any tool call or heartbeat) within the lease period.
+   * @param projectPath The project path
+   * @param patterns Glob patterns relative to the project root
+   * @param note Optional note on what the agent is doing with the files
+   * @returns The claims now held by this agent, and any conflicts that prevented claiming
+   */
+  async claimPaths(
+    projectPath: string,
+    patterns: string[],
+    note?: string
+  ): Promise<{
+    claims: PathClaim[];
+    conflicts: Array<{ pattern: string; heldBy: string; heldPattern: string }>;
+  }> {
+    const myName = this.getMyName();
+    const requested = patterns.map(normalizePattern).filter((pattern) => pattern.length > 0);
+    if (requested.length === 0) {
+      throw new Error('At least one path pattern is required');
+    }
+
+    let claims: PathClaim[] = [];
+    const conflicts: Array<{ pattern: string; heldBy: string; heldPattern: string }> = [];
+
+    await this.persistence.atomicUpdateChatRoom(projectPath, async (chatRoom) => {
+      const now = new Date();
+      this.markSeen(chatRoom);
+      chatRoom.claims = this.getActiveClaims(chatRoom);
+
+      for (const pattern of requested) {
+        for (const claim of chatRoom.claims) {
+          if (claim.agent !== myName && patternsOverlap(pattern, claim.pattern)) {
+            conflicts.push({ pattern, heldBy: claim.agent, heldPattern: claim.pattern });
+          }
+        }
+      }
+
+      if (conflicts.length === 0) {
+        for (const pattern of requested) {
+          const existing = chatRoom.claims.find(
+            (claim) => claim.agent === myName && claim.pattern === pattern
+          );
+          if (existing) {
+            existing.note = note ?? existing.note;
+          } else {
+            chatRoom.claims.push({ pattern, agent: myName, claimedAt: now, note });
+          }
+        }
+      }
+
+      claims = chatRoom.claims.filter((claim) => claim.agent === myName);
+    });
+
+    this.logger.debug('Claimed paths', {
+      patterns: requested,
+      conflicts: conflicts.length,
+      project: projectPath,
+    });
+
+    return { claims, conflicts };
+  }
+
+  /**
+   * Releases path claims held by this agent
+   * @param projectPath The project path
+   * @param patterns Patterns to release (releases all of this agent's claims if omitted)
+   * @returns The released patterns
+   */
+  async releasePaths(projectPath: string, patterns?: string[]): Promise<string[]> {
+    const myName = this.getMyName();
+    const toRelease = patterns ? new Set(patterns.map(normalizePattern)) : null;
+    let released: string[] = [];
+
+    await this.persistence.atomicUpdateChatRoom(projectPath, async (chatRoom) => {
+      const isReleased = (claim: PathClaim) =>
+        claim.agent === myName && (!toRelease || toRelease.has(claim.pattern));
+
+      released = chatRoom.claims.filter(isReleased).map((claim) => claim.pattern);
+      chatRoom.claims = chatRoom.claims.filter((claim) => !isReleased(claim));
+      this.markSeen(chatRoom);
+    });
+
+    return released;
+  }
+
+  /**
+   * Lists the active path claims in a project
+   * @param projectPath The project path
+   * @returns Array of claims whose holders are still within their lease
+   */
+  async listClaims(projectPath: string): Promise<PathClaim[]> {
+    const chatRoom = await this.persistence.loadChatRoom(projectPath);
+
+    if (!chatRoom) {
+      return [];
+    }
+
+    return this.getActiveClaims(chatRoom);
+  }
+
+  /**
+   * Gets the claims whose holders are not offline
+   * @param chatRoom The chat room
+   * @returns Array of active claims
+   */
+  private getActiveClaims(chatRoom: ChatRoom): PathClaim[] {
+    return chatRoom.claims.filter(
+      (claim) => this.getPresence(chatRoom, claim.agent) !== 'offline'
+    );
+  }
+
+  /**
+   * Sets this agent's profile in a project chat
+   * Role and capabilities are also stored with the identity and carried into other rooms;
+   * the activity line is per room. Omitted fields are left unchanged, empty strings clear them.
+   * @param projectPath The project path
+   * @param profile The fields to change
+   * @returns The updated profile
+   */
+  async setProfile(
+    projectPath: string,
+    profile: { role?: string; capabilities?: string; activity?: string }
+  ): Promise<AgentProfile> {
+    if (!this.myIdentity) {
+      throw new Error('ChatManager not initialized');
+    }
+
+    const myName = this.myIdentity.name;
+    const clean = (value: string | undefined, current: string | undefined) =>
+      value === undefined ? current : value.trim() || undefined;
+
+    const identityProfile = {
+      role: clean(profile.role, this.myIdentity.profile?.role),
+      capabilities: clean(profile.capabilities, this.myIdentity.profile?.capabilities),
+    };
+    this.myIdentity.profile = identityProfile;
+    await this.persistence.saveIdentity(this.myIdentity);
+
+    const chatRoom = await this.persistence.atomicUpdateChatRoom(projectPath, async (room) => {
+      this.markSeen(room);
+      room.profiles[myName] = {
+        ...identityProfile,
+        activity: clean(profile.activity, room.profiles[myName]?.activity),
+        updatedAt: new Date(),
+      };
+    });
+
+    return chatRoom.profiles[myName];
+  }
+
+  /**
+   * Gets the present agents in a project with their presence state, profiles and last seen times
+   * @param projectPath The project path
+   * @returns Array of agents sorted by name
+   */
+  async getAgentDetails(projectPath: string): Promise<
+    Array<{ name: string; presence: PresenceState; lastSeen?: Date; profile?: AgentProfile }>
+  > {
+    const names = await this.getAgentNames(projectPath);
+    const chatRoom = await this.persistence.loadChatRoom(projectPath);
+    const myName = this.getMyName();
+
+    return names.map((name) => ({
+      name,
+      // You are always online to yourself, even before your first write to the room
+      presence: chatRoom && name !== myName ? this.getPresence(chatRoom, name) : 'online',
+      lastSeen: chatRoom?.lastSeen[name],
+      profile: chatRoom?.profiles[name],
+    }));
+  }
+
+  /**
+   * Gets the names of all agents in a project that are not offline
+   * @param projectPath The project path
+   * @returns Array of agent names
+   */
+  async getAgentNames(projectPath: string): Promise<string[]> {
+    // Always reload from disk
+    const chatRoom = await this.persistence.loadChatRoom(projectPath);
+    const myName = this.getMyName();
+
+    if (!chatRoom) {
+      return [myName];
+    }
+
+    const activeAgents = new Set<string>();
+
+    for (const agentName in chatRoom.lastSeen) {
+      if (this.getPresence(chatRoom, agentName) !== 'offline') {
+        activeAgents.add(agentName);
+      }
+    }
+
+    // Always include yourself
+    activeAgents.add(myName);
+
+    return Array.from(activeAgents).sort();
+  }
+
+  /**
+   * Finds a message that is visible to this agent
+   * @param chatRoom The chat room
+   * @param reference The full message ID or a unique prefix of it
+   * @returns The index of the message in the chat room
+   * @throws Error if no visible message matches
+   */
+  private findVisibleMessage(chatRoom: ChatRoom, reference: string): number {
+    const id = this.resolveMessageId(chatRoom, reference);
+    return chatRoom.messages.findIndex((msg) => msg.id === id);
+  }
+
+  /**
+   * Finds a question asked with askAgent that is visible to this agent
+   * @param chatRoom The chat room
+   * @param reference The question's correlation ID or the ID of the question message,
+   *   or a unique prefix of either
+   * @returns The question message
+   * @throws Error if no question or more than one question matches
+   */
+  private findQuestion(chatRoom: ChatRoom, reference: string): Message {
+    const questions = this.getVisibleMessages(chatRoom.messages).filter(
+      (msg) => typeof msg.metadata?.questionId === 'string'
+    );
+
+    const exact = questions.find(
+      (msg) => msg.metadata!.questionId === reference || msg.id === reference
+    );
+    if (exact) {
+      return exact;
+    }
+
+    const matches = questions.filter(
+      (msg) =>
+        (msg.metadata!.questionId as string).startsWith(reference) || msg.id.startsWith(reference)
+    );
+    if (matches.length === 0) {
+      throw new Error(`Question not found: ${reference}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Question ID prefix is ambiguous: ${reference}`);
+    }
+    return matches[0];
+  }
+
+  /**
+   * Gets the agents other than the sender whose read cursor is at or past a message
+   * @param chatRoom The chat room
+   * @param index The index of the message in the chat room
+   * @returns The agent names
+   */
+  private getReaders(chatRoom: ChatRoom, index: number): string[] {
+    const msg = chatRoom.messages[index];
+    return Object.keys(chatRoom.readCursors).filter((agentName) => {
+      if (agentName === msg.sender || (msg.recipient && msg.recipient !== agentName)) {
+        return false;
+      }
+      const cursor = chatRoom.readCursors[agentName];
+      return chatRoom.messages.findIndex((m) => m.id === cursor) >= index;
+    });
+  }
+
+  /**
+   * Filters messages down to those that are visible to this agent
+   * Direct messages are only visible to their sender and recipient
+   * @param messages The messages to filter
+   * @returns Array of visible messages
+   */
+  private getVisibleMessages(messages: Message[]): Message[] {
+    const myName = this.getMyName();
+    return messages.filter(
+      (msg) => !msg.recipient || msg.sender === myName || msg.recipient === myName
+    );
+  }
+
+  /**
+   * Gets the messages after this agent's read cursor that are visible to it
+   * The agent's own messages and announcements about itself never count as unread
+   * @param chatRoom The chat room
+   * @returns Array of unread messages
+   */
+  private getUnreadMessages(chatRoom: ChatRoom): Message[] {
+    const myName = this.getMyName();
+    const cursor = chatRoom.readCursors[myName];
+
+    // A cursor that points at a pruned message means everything left is newer
+    const cursorIndex = cursor ? chatRoom.messages.findIndex((msg) => msg.id === cursor) : -1;
+
+    return this.getVisibleMessages(chatRoom.messages.slice(cursorIndex + 1)).filter(
+      (msg) =>
+        msg.sender !== myName && !(msg.sender === 'System' && msg.metadata?.agent === myName)
+    );
+  }
+
+  /**
+   * Records that this agent was seen in a chat room
+   * Announces the agent if it was offline, and announces other agents that timed out.
+   * On the first visit, the role and capabilities stored with the identity become the room profile
+   * @param chatRoom The chat room
+   * @param announceJoin Whether to announce the agent if it was offline (default: true)
+   */
+  private markSeen(chatRoom: ChatRoom, announceJoin: boolean = true): void {
+    const myName = this.getMyName();
+    const now = new Date();
+
+    if (
+      announceJoin &&
+      chatRoom.messages.length > 0 &&
+      this.getPresence(chatRoom, myName, now) === 'offline'
+    ) {
+      chatRoom.messages.push(
+        this.createPresenceMessage(`${myName} joined the chat`, myName, 'joined', now)
+      );
+    }
+
+    chatRoom.lastSeen[myName] = now;
+    delete chatRoom.departures[myName];
+    this.seenRooms.set(chatRoom.projectPath, now.getTime());
+
+    for (const agentName in chatRoom.lastSeen) {
+      const lastSeen = chatRoom.lastSeen[agentName];
+      const departed = chatRoom.departures[agentName];
+      const timedOut = now.getTime() - lastSeen.getTime() >= PRESENCE_THRESHOLDS.offlineMs;
+      if (agentName !== myName && timedOut && (!departed || departed < lastSeen)) {
+        chatRoom.messages.push(
+          this.createPresenceMessage(`${agentName} timed out`, agentName, 'timeout', now)
+        );
+        chatRoom.departures[agentName] = now;
+      }
+    }
+
+    const identityProfile = this.myIdentity?.profile;
+    if (identityProfile && !chatRoom.profiles[myName]) {
+      chatRoom.profiles[myName] = { ...identityProfile, updatedAt: now };
+    }
+  }
+
+  /**
+   * Determines an agent's presence state in a chat room
+   * @param chatRoom The chat room
+   * @param agentName The agent name
+   * @param now The current time (default: now)
+   * @returns The presence state
+   */
+  private getPresence(
+    chatRoom: ChatRoom,
+    agentName: string,
+    now: Date = new Date()
+  ): PresenceState {
+    const lastSeen = chatRoom.lastSeen[agentName];
+    if (!lastSeen) {
+      return 'offline';
+    }
+
+    // Leaving (or being announced as timed out) counts until the agent is seen again
+    const departed = chatRoom.departures[agentName];
+    if (departed && departed >= lastSeen) {
+      return 'offline';
+    }
+
+    const elapsed = now.getTime() - lastSeen.getTime();
+    if (elapsed >= PRESENCE_THRESHOLDS.offlineMs) {
+      return 'offline';
+    }
+    if (elapsed >= PRESENCE_THRESHOLDS.awayMs) {
+      return 'away';
+    }
+    if (elapsed >= PRESENCE_THRESHOLDS.idleMs) {
+      return 'idle';
+    }
+    return 'online';
+  }
+
+  /**
+   * Creates a system message announcing a presence change
+   * @param content The announcement text
+   * @param agentName The agent the announcement is about
+   * @param event The presence event
+   * @param timestamp When the change happened
+   * @returns The system message
+   */
+  private createPresenceMessage(
+    content: string,
+    agentName: string,
+    event: 'joined' | 'left' | 'timeout',
+    timestamp: Date
+  ): Message {
+    return {
+      id: randomUUID(),
+      sender: 'System',
+      content,
+      timestamp,
+      type: 'system',
+      metadata: { agent: agentName, presence: event },
+    };
+  }
+
+  /**
+   * Resolves the @mentions in a text to agents known in a chat room
+   * Matching is case-insensitive; mentions of unknown names are dropped
+   * @param chatRoom The chat room
+   * @param content The message content
+   * @returns The canonical names of the mentioned agents
+   */
+  private resolveMentions(chatRoom: ChatRoom, content: string): string[] {
+    const knownAgents = new Map<string, string>();
+    for (const agentName in chatRoom.lastSeen) {
+      knownAgents.set(agentName.toLowerCase(), agentName);
+    }
+
+    const resolved = new Set<string>();
+    for (const name of parseMentions(content)) {
+      const agentName = knownAgents.get(name.toLowerCase());
+      if (agentName) {
+        resolved.add(agentName);
+      }
+    }
+    return Array.from(resolved);
+  }
+
+  /**
+   * Resolves a full message ID or a unique ID prefix to the ID of a message visible to this agent
+   * Direct messages between other agents neither match nor make a prefix ambiguous.
+   * @param chatRoom The chat room
+   * @param reference The full message ID or a prefix of it
+   * @returns The full message ID
+   * @throws Error if no visible message or more than one visible message matches
+   */
+  private resolveMessageId(chatRoom: ChatRoom, reference: string): string {
+    const visible = this.getVisibleMessages(chatRoom.messages);
+    const exact = visible.find((msg) => msg.id === reference);
+    if (exact) {
+      return exact.id;
+    }
+
+    const matches = visible.filter((msg) => msg.id.startsWith(reference));
+    if (matches.length === 0) {
+      throw new Error(`Message not found: ${reference}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Message ID prefix is ambiguous: ${reference}`);
+    }
+    return matches[0].id;
+  }
+
+  /**
+   * Resolves a pagination cursor to a sequence number
+   * Numbers and strings of digits are sequence numbers, which need not belong to a message
+   * that still exists. Anything else is a message ID, a unique ID prefix, or a "#" short ID.
+   * @param chatRoom The chat room
+   * @param cursor The cursor
+   * @returns The sequence number
+   * @throws Error if the cursor names an unknown message
+   */
+  private resolveCursor(chatRoom: ChatRoom, cursor: number | string): number {
+    if (typeof cursor === 'number') {
+      return cursor;
+    }
+    if (/^\d+$/.test(cursor)) {
+      return parseInt(cursor, 10);
+    }
+
+    const id = this.resolveMessageId(chatRoom, cursor.replace(/^#/, ''));
+    const msg = chatRoom.messages.find((m) => m.id === id)!;
+    if (msg.seq === undefined) {
+      throw new Error(`Message has no sequence number yet: ${cursor}`);
+    }
+    return msg.seq;
+  }
+
+  /**
+   * Determines whether a direct message recipient is active in a chat room
+   * @param chatRoom The chat room
+   * @param recipient The recipient's agent name
+   * @returns The recipient status
+   */
+  private getRecipientStatus(chatRoom: ChatRoom, recipient: string): RecipientStatus {
+    if (!chatRoom.lastSeen[recipient]) {
+      return 'unknown';
+    }
+    const presence = this.getPresence(chatRoom, recipient);
+    return presence === 'online' || presence === 'idle' ? 'active' : 'inactive';
+  }
+
+  /**
+   * Gets statistics about a specific chat room
+   * @param projectPath The project path
+   * @returns Statistics object
+   */
+  async getChatStats(projectPath: string): Promise<{
+    createdAt: Date;
+    totalMessages: number;
+    allAgents: string[];
+  }> {
+    const chatRoom = await this.persistence.loadChatRoom(projectPath);
+
+    if (!chatRoom) {
+      throw new Error('Chat room not found');
+    }
+
+    const allAgents = new Set<string>();
+    chatRoom.messages.forEach((msg) => {
+      if (msg.sender !== 'System') {
+        allAgents.add(msg.sender);
+      }
+    });
+
+    return {
       createdAt: chatRoom.createdAt,
       totalMessages: chatRoom.messages.length,
       allAgents: Array.from(allAgents).sort(),
     };
   }
 
+  /**
+   * Lists the project paths of all saved chat rooms
+   * @returns Array of project paths
+   */
+  async listChatRooms(): Promise<string[]> {
+    return this.persistence.listSavedChatRooms();
+  }
+
   /**
    * Gets statistics about chat rooms
    * @returns Statistics object
@@ -0,0 +1,404 @@
+#!/usr/bin/env node
+
+/**
+ * Command line interface for humans supervising agents
+ * Lists chat rooms, tails a room live, posts into it as a named human participant, searches
+ * the history and shows room stats. It uses the same storage as the MCP server, so it has to
+ * run in the directory the server keeps its data in, or be pointed there with --data-dir.
+ */
+
+import * as os from 'os';
+import { parseArgs } from 'util';
+import { BrokerOptions, BrokerServer } from './broker.js';
+import { ChatManager } from './chat-manager.js';
+import { DashboardServer } from './dashboard.js';
+import { PersistenceManager } from './persistence.js';
+import { setLogLevel } from './logger.js';
+import { Message } from './types.js';
+
+/**
+ * Number of messages tail shows before following new ones
+ */
+const DEFAULT_TAIL_COUNT = 20;
+
+/**
+ * Maximum number of new messages fetched at once while following a room
+ */
+const FOLLOW_PAGE_SIZE = 100;
+
+/**
+ * Port of the web dashboard started with the dashboard command
+ */
+const DEFAULT_DASHBOARD_PORT = 8080;
+
+/**
+ * Time without connected server instances after which the broker daemon exits
+ */
+const BROKER_IDLE_TIMEOUT_MS = 60 * 1000;
+
+const USAGE = `Usage: agent-chat <command> [options]
+
+Commands:
+  rooms               List all chat rooms
+  tail                Show the newest messages of a room and follow new ones
+  send <message>      Post a message into a room as a human participant
+  search <query>      Search the messages of a room
+  stats               Show a room's statistics and who is present
+  dashboard           Serve the web dashboard on localhost
+  broker              Run the broker daemon for the data directory
+
+Options:
+  -p, --project <path>   Project path of the chat room (default: current directory)
+  --name <name>          Your name in the chat (default: $MCP_HUMAN_NAME or your user name)
+  --data-dir <path>      Data directory of the server (default: ./data)
+  --identity-dir <path>  Identity directory of the server (default: ./.mcp-identities)
+  -h, --help             Show this help
+
+tail:
+  -n, --lines <count>    Number of messages to show first (default: ${DEFAULT_TAIL_COUNT})
+  --no-follow            Exit after showing the messages
+
+send:
+  --to <agent>           Send a direct message to one agent
+  --reply-to <id>        Reply to a message in the room (the short # ID is enough)
+
+search:
+  --regex                Treat the query as a regular expression
+  --all-rooms            Search every chat room
+  --archived             Also search archived messages
+  --limit <count>        Maximum number of hits (default: 20)
+
+dashboard:
+  --port <port>          Port to listen on (default: ${DEFAULT_DASHBOARD_PORT})
+
+broker:
+  --socket <path>        Socket to listen on (default: broker.sock in the data directory)`;
+
+/**
+ * Formats a message as a single line
+ * @param msg The message
+ * @returns The formatted line
+ */
+function formatMessage(msg: Message): string {
+  const time = msg.timestamp.toISOString();
+  const sender = msg.recipient ? `${msg.sender} → ${msg.recipient} (direct)` : msg.sender;
+  const type = msg.type === 'text' ? '' : ` [${msg.type}]`;
+  const thread = msg.replyTo ? ` ↳ #${msg.replyTo.slice(0, 8)}` : '';
+  const edited = msg.editedAt ? ' (edited)' : '';
+  const content = msg.retractedAt ? '[retracted]' : `${msg.content}${edited}`;
+  return `[${time}] #${msg.id.slice(0, 8)} ${sender}${type}${thread}: ${content}`;
+}
+
+/**
+ * Parses a positive whole number option
+ * @param value The option value
+ * @param name The option name, for the error message
+ * @param fallback The value to use if the option is not given
+ * @returns The number
+ * @throws Error if the value is not a positive whole number
+ */
+function parseCount(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`--${name} must be a positive whole number`);
+  }
+  return count;
+}
+
+/**
+ * Lists all chat rooms with their number of messages
+ * @param chatManager The chat manager
+ */
+async function listRooms(chatManager: ChatManager): Promise<void> {
+  const projectPaths = await chatManager.listChatRooms();
+  if (projectPaths.length === 0) {
+    console.log('No chat rooms');
+    return;
+  }
+
+  for (const projectPath of projectPaths.sort()) {
+    const stats = await chatManager.getChatStats(projectPath);
+    console.log(
+      `${projectPath}  ${stats.totalMessages} message(s), created ${stats.createdAt.toISOString()}`
+    );
+  }
+}
+
+/**
+ * Shows the newest messages of a room, then prints new messages as they arrive
+ * @param chatManager The chat manager
+ * @param projectPath The project path
+ * @param count Number of messages to show first
+ * @param follow Whether to keep following the room
+ */
+async function tailRoom(
+  chatManager: ChatManager,
+  projectPath: string,
+  count: number,
+  follow: boolean
+): Promise<void> {
+  const page = await chatManager.getMessagePage(projectPath, { count });
+  for (const msg of page.messages) {
+    console.log(formatMessage(msg));
+  }
+  if (!follow) {
+    return;
+  }
+
+  let lastSeq = page.messages[page.messages.length - 1]?.seq ?? 0;
+  let printing = Promise.resolve();
+
+  const printNewMessages = async (): Promise<void> => {
+    let next: number | undefined = lastSeq;
+    while (next !== undefined) {
+      const newPage = await chatManager.getMessagePage(projectPath, {
+        after: next,
+        count: FOLLOW_PAGE_SIZE,
+      });
+      for (const msg of newPage.messages) {
+        console.log(formatMessage(msg));
+        lastSeq = msg.seq ?? lastSeq;
+      }
+      next = newPage.nextCursor;
+    }
+  };
+
+  const stopWatching = await chatManager.watchForNewMessages(projectPath, () => {
+    // One fetch at a time, so messages are printed once and in order
+    printing = printing.then(printNewMessages).catch((error) => {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  });
+
+  // Catch up on messages sent while the watch was being set up
+  printing = printing.then(printNewMessages);
+  await printing;
+
+  await new Promise<void>((resolve) => {
+    process.once('SIGINT', resolve);
+    process.once('SIGTERM', resolve);
+  });
+  stopWatching();
+}
+
+/**
+ * Posts a message into a room
+ * @param chatManager The chat manager, initialized as the human participant
+ * @param projectPath The project path
+ * @param content The message
+ * @param options Optional recipient and reply target
+ */
+async function sendMessage(
+  chatManager: ChatManager,
+  projectPath: string,
+  content: string,
+  options: { to?: string; replyTo?: string }
+): Promise<void> {
+  if (content.trim().length === 0) {
+    throw new Error('Message cannot be empty');
+  }
+
+  if (options.to && options.replyTo) {
+    throw new Error('Direct messages cannot be replies; use either --to or --reply-to');
+  }
+
+  const messageId = options.to
+    ? (await chatManager.sendDirectMessage(projectPath, options.to, content)).messageId
+    : await chatManager.sendMessage(projectPath, content, 'text', undefined, options.replyTo);
+  console.log(`Sent #${messageId.slice(0, 8)} as ${chatManager.getMyName()}`);
+}
+
+/**
+ * Searches the messages of a room and prints the hits
+ * @param chatManager The chat manager
+ * @param projectPath The project path
+ * @param query The search query
+ * @param options Search options
+ */
+async function searchRoom(
+  chatManager: ChatManager,
+  projectPath: string,
+  query: string,
+  options: { regex: boolean; allRooms: boolean; includeArchived: boolean; limit: number }
+): Promise<void> {
+  const hits = await chatManager.searchMessages(projectPath, query, options);
+  if (hits.length === 0) {
+    console.log('No messages found');
+    return;
+  }
+
+  for (const hit of hits) {
+    const room = options.allRooms ? `${hit.projectPath} ` : '';
+    const archived = hit.archived ? ' (archived)' : '';
+    console.log(`${room}${formatMessage(hit.message)}${archived}`);
+  }
+}
+
+/**
+ * Prints a room's statistics and the agents present in it
+ * @param chatManager The chat manager
+ * @param projectPath The project path
+ */
+async function showStats(chatManager: ChatManager, projectPath: string): Promise<void> {
+  const stats = await chatManager.getChatStats(projectPath);
+  // Looking at the room doesn't make you present in it
+  const agents = (await chatManager.getAgentDetails(projectPath)).filter(
+    (agent) => agent.name !== chatManager.getMyName() || agent.lastSeen
+  );
+
+  console.log(`Room: ${projectPath}`);
+  console.log(`Created: ${stats.createdAt.toISOString()}`);
+  console.log(`Messages: ${stats.totalMessages}`);
+  console.log(`Participants: ${stats.allAgents.join(', ') || '-'}`);
+  console.log(`Present (${agents.length}):`);
+  for (const agent of agents) {
+    const role = agent.profile?.role ? ` [${agent.profile.role}]` : '';
+    const activity = agent.profile?.activity ? ` - ${agent.profile.activity}` : '';
+    console.log(`  ${agent.name} (${agent.presence})${role}${activity}`);
+  }
+}
+
+/**
+ * Serves the web dashboard until the process is interrupted
+ * @param storage Where the chat rooms are kept
+ * @param port The port to listen on
+ */
+async function serveDashboard(storage: PersistenceManager, port: number): Promise<void> {
+  const dashboard = new DashboardServer(storage);
+  await dashboard.start(port);
+  console.log(`Dashboard running at http://localhost:${port}/ (Ctrl+C to stop)`);
+
+  await new Promise<void>((resolve) => {
+    process.once('SIGINT', resolve);
+    process.once('SIGTERM', resolve);
+  });
+  await dashboard.stop();
+}
+
+/**
+ * Runs the broker daemon until the process is interrupted or no server instance has been
+ * connected for a while
+ * @param options Where the files and the socket are kept
+ */
+async function serveBroker(options: BrokerOptions): Promise<void> {
+  const broker = new BrokerServer({ ...options, idleTimeoutMs: BROKER_IDLE_TIMEOUT_MS });
+  await broker.start();
+  console.log(`Broker listening on ${broker.socketPath} (Ctrl+C to stop)`);
+
+  await Promise.race([
+    broker.waitUntilIdle(),
+    new Promise<void>((resolve) => {
+      process.once('SIGINT', resolve);
+      process.once('SIGTERM', resolve);
+    }),
+  ]);
+  await broker.stop();
+}
+
+/**
+ * Runs the CLI
+ * @param argv The command line arguments, without the node executable and script
+ */
+export async function runCli(argv: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      project: { type: 'string', short: 'p' },
+      name: { type: 'string' },
+      'data-dir': { type: 'string' },
+      'identity-dir': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+      lines: { type: 'string', short: 'n' },
+      'no-follow': { type: 'boolean' },
+      to: { type: 'string' },
+      'reply-to': { type: 'string' },
+      regex: { type: 'boolean' },
+      'all-rooms': { type: 'boolean' },
+      archived: { type: 'boolean' },
+      limit: { type: 'string' },
+      port: { type: 'string' },
+      socket: { type: 'string' },
+    },
+  });
+
+  const [command, ...rest] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  // Keep the output readable; the chat manager logs every operation at debug and info level
+  setLogLevel('warn');
+
+  if (command === 'broker') {
+    return serveBroker({
+      dataDir: values['data-dir'],
+      identityDir: values['identity-dir'],
+      socketPath: values.socket,
+    });
+  }
+
+  const storage = new PersistenceManager({
+    dataDir: values['data-dir'],
+    identityDir: values['identity-dir'],
+  });
+  if (command === 'dashboard') {
+    const port = parseCount(values.port, 'port', DEFAULT_DASHBOARD_PORT);
+    return serveDashboard(storage, port);
+  }
+
+  const chatManager = new ChatManager(storage);
+  // Reading commands don't mark the participant as present; only sending does
+  chatManager.initializeAsHuman(
+    values.name ?? process.env.MCP_HUMAN_NAME ?? os.userInfo().username
+  );
+  // Rooms are keyed by the project path exactly as the agents pass it
+  const projectPath = values.project ?? process.cwd();
+
+  switch (command) {
+    case 'rooms':
+      return listRooms(chatManager);
+
+    case 'tail':
+      return tailRoom(
+        chatManager,
+        projectPath,
+        parseCount(values.lines, 'lines', DEFAULT_TAIL_COUNT),
+        !values['no-follow']
+      );
+
+    case 'send':
+      return sendMessage(chatManager, projectPath, rest.join(' '), {
+        to: values.to,
+        replyTo: values['reply-to'],
+      });
+
+    case 'search':
+      return searchRoom(chatManager, projectPath, rest.join(' '), {
+        regex: values.regex === true,
+        allRooms: values['all-rooms'] === true,
+        includeArchived: values.archived === true,
+        limit: parseCount(values.limit, 'limit', 20),
+      });
+
+    case 'stats':
+      return showStats(chatManager, projectPath);
+
+    default:
+      throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+  }
+}
+
+// Only run when started from the command line, not when imported in tests
+if (process.env.NODE_ENV !== 'test') {
+  runCli(process.argv.slice(2))
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,557 @@
+/**
+ * Local web dashboard
+ * An HTTP server on localhost that shows the chat rooms in a browser: a room's messages with
+ * their senders and types, live updates over server-sent events, who is present, and a form
+ * for humans to post into the room. It runs inside the MCP server when MCP_DASHBOARD_PORT is
+ * set, or standalone with `agent-chat dashboard`.
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ChatManager } from './chat-manager.js';
+import { PersistenceManager } from './persistence.js';
+import { StorageBackend } from './storage-backend.js';
+import { createLogger } from './logger.js';
+
+/**
+ * The dashboard only listens on the loopback interface
+ */
+const DASHBOARD_HOST = '127.0.0.1';
+
+/**
+ * Name the dashboard reads the chat rooms as; it never posts under this name
+ */
+const VIEWER_NAME = 'Dashboard';
+
+/**
+ * Number of messages shown when a room is opened
+ */
+const INITIAL_MESSAGE_COUNT = 100;
+
+/**
+ * Maximum number of new messages fetched at once for an event stream
+ */
+const STREAM_PAGE_SIZE = 100;
+
+/**
+ * How often event streams get a presence update, since presence changes as time passes
+ * without any write to the room
+ */
+const PRESENCE_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Largest accepted request body
+ */
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * Dashboard port - configurable via environment variable
+ * Default: unset (no dashboard)
+ *
+ * Environment variable: MCP_DASHBOARD_PORT
+ * Example: MCP_DASHBOARD_PORT=8080
+ * @returns The port, or null if the dashboard is off
+ */
+export function getDashboardPort(): number | null {
+  const envPort = process.env.MCP_DASHBOARD_PORT;
+
+  if (!envPort) {
+    return null;
+  }
+
+  const port = parseInt(envPort, 10);
+
+  if (isNaN(port) || port < 1 || port > 65535) {
+    console.warn(`Invalid MCP_DASHBOARD_PORT: "${envPort}". The dashboard is off.`);
+    return null;
+  }
+
+  return port;
+}
+
+/**
+ * Error with the HTTP status to answer with
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * HTTP server for the web dashboard
+ */
+export class DashboardServer {
+  private storage: StorageBackend;
+  private server: http.Server | null = null;
+  /** Reads the chat rooms; sees room-wide messages only */
+  private viewer: ChatManager;
+  /** Chat managers posting for humans, by name */
+  private posters: Map<string, ChatManager> = new Map();
+  /** Open event streams, ended when the server stops */
+  private streams: Set<http.ServerResponse> = new Set();
+  private logger = createLogger('Dashboard');
+
+  /**
+   * @param storage Where the chat rooms are kept
+   *   (default: files in ./data, shared with the MCP server instances)
+   */
+  constructor(storage: StorageBackend = new PersistenceManager()) {
+    this.storage = storage;
+    this.viewer = new ChatManager(storage);
+    this.viewer.initializeAsHuman(VIEWER_NAME);
+  }
+
+  /**
+   * Starts listening on localhost
+   * @param port The port, or 0 for any free port
+   * @returns The port the dashboard listens on
+   */
+  async start(port: number): Promise<number> {
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        const status = error instanceof HttpError ? error.status : 500;
+        const message = error instanceof Error ? error.message : String(error);
+        if (status === 500) {
+          this.logger.error('Request failed', { url: req.url, error: message });
+        }
+        if (!res.headersSent) {
+          this.sendJson(res, status, { error: message });
+        } else {
+          res.end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, DASHBOARD_HOST, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    const boundPort = (server.address() as AddressInfo).port;
+    this.logger.info('Dashboard listening', { url: `http://localhost:${boundPort}/` });
+    return boundPort;
+  }
+
+  /**
+   * Ends all event streams and stops listening
+   */
+  async stop(): Promise<void> {
+    for (const res of this.streams) {
+      res.end();
+    }
+    this.streams.clear();
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Routes a request
+   * @param req The request
+   * @param res The response
+   */
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    // Pages on other sites could otherwise reach the dashboard through DNS rebinding
+    const port = (this.server?.address() as AddressInfo | null)?.port;
+    const allowedHosts = [`localhost:${port}`, `127.0.0.1:${port}`];
+    if (!allowedHosts.includes(req.headers.host ?? '')) {
+      throw new HttpError(403, 'Forbidden host');
+    }
+
+    const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+
+    if (req.method === 'GET' && url.pathname === '/') {
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(DASHBOARD_HTML);
+      return;
+    }
+    if (req.method === 'GET' && url.pathname === '/api/rooms') {
+      return this.handleListRooms(res);
+    }
+    if (req.method === 'GET' && url.pathname === '/api/room') {
+      return this.handleGetRoom(res, this.getProjectParam(url));
+    }
+    if (req.method === 'GET' && url.pathname === '/api/events') {
+      return this.handleEvents(req, res, url);
+    }
+    if (req.method === 'POST' && url.pathname === '/api/messages') {
+      return this.handlePostMessage(req, res);
+    }
+
+    throw new HttpError(404, 'Not found');
+  }
+
+  /**
+   * Lists the saved chat rooms with their number of messages
+   * @param res The response
+   */
+  private async handleListRooms(res: http.ServerResponse): Promise<void> {
+    const rooms = [];
+    for (const projectPath of (await this.storage.listSavedChatRooms()).sort()) {
+      const stats = await this.viewer.getChatStats(projectPath);
+      rooms.push({ projectPath, totalMessages: stats.totalMessages, createdAt: stats.createdAt });
+    }
+    this.sendJson(res, 200, { rooms });
+  }
+
+  /**
+   * Sends the newest messages of a room and who is present
+   * @param res The response
+   * @param projectPath The project path
+   */
+  private async handleGetRoom(res: http.ServerResponse, projectPath: string): Promise<void> {
+    const page = await this.viewer.getMessagePage(projectPath, { count: INITIAL_MESSAGE_COUNT });
+    this.sendJson(res, 200, {
+      projectPath,
+      messages: page.messages,
+      agents: await this.getAgents(projectPath),
+    });
+  }
+
+  /**
+   * Streams a room's new messages and presence changes as server-sent events
+   * Message events carry the message's sequence number as their ID, so a reconnecting
+   * browser continues after the last message it received.
+   * @param req The request
+   * @param res The response
+   * @param url The request URL, with the project and optionally the sequence number to start after
+   */
+  private async handleEvents(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL
+  ): Promise<void> {
+    const projectPath = this.getProjectParam(url);
+
+    // Listen for the browser going away before waiting on anything, so a stream that closes
+    // early doesn't leave its watcher and timer running
+    let closed = false;
+    let stopWatching: (() => void) | null = null;
+    let presenceTimer: NodeJS.Timeout | undefined;
+    res.on('close', () => {
+      closed = true;
+      stopWatching?.();
+      clearInterval(presenceTimer);
+      this.streams.delete(res);
+    });
+
+    const resumeFrom = req.headers['last-event-id'] ?? url.searchParams.get('after');
+    let lastSeq = Number(resumeFrom);
+    if (!resumeFrom || !Number.isInteger(lastSeq)) {
+      const [newest] = (await this.viewer.getMessagePage(projectPath, { count: 1 })).messages;
+      lastSeq = newest?.seq ?? 0;
+    }
+    if (closed) {
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    this.streams.add(res);
+
+    const sendUpdates = async (): Promise<void> => {
+      let next: number | undefined = lastSeq;
+      while (next !== undefined) {
+        const page = await this.viewer.getMessagePage(projectPath, {
+          after: next,
+          count: STREAM_PAGE_SIZE,
+        });
+        for (const msg of page.messages) {
+          res.write(`id: ${msg.seq}\nevent: message\ndata: ${JSON.stringify(msg)}\n\n`);
+          lastSeq = msg.seq ?? lastSeq;
+        }
+        next = page.nextCursor;
+      }
+      res.write(`event: presence\ndata: ${JSON.stringify(await this.getAgents(projectPath))}\n\n`);
+    };
+
+    // One update at a time, so every message is sent once and in order
+    let sending = Promise.resolve();
+    const queueUpdate = (): void => {
+      sending = sending.then(sendUpdates).catch((error) => {
+        this.logger.warn('Could not stream updates', {
+          project: projectPath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    };
+
+    const stop = await this.viewer.watchForNewMessages(projectPath, queueUpdate);
+    if (closed) {
+      stop();
+      return;
+    }
+    stopWatching = stop;
+    presenceTimer = setInterval(queueUpdate, PRESENCE_INTERVAL_MS);
+    queueUpdate();
+  }
+
+  /**
+   * Posts a message into a room as a human
+   * Expects a JSON body with the project, the poster's name and the content. Requiring JSON
+   * keeps other sites from posting through a plain form.
+   * @param req The request
+   * @param res The response
+   */
+  private async handlePostMessage(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    if (!req.headers['content-type']?.startsWith('application/json')) {
+      throw new HttpError(415, 'Expected a JSON body');
+    }
+
+    let body: { project?: unknown; name?: unknown; content?: unknown; replyTo?: unknown };
+    try {
+      body = JSON.parse(await this.readBody(req));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        throw error;
+      }
+      throw new HttpError(400, 'Invalid JSON body');
+    }
+
+    const { project, name, content, replyTo } = body;
+    if (typeof project !== 'string' || !project) {
+      throw new HttpError(400, 'Missing project');
+    }
+    if (typeof name !== 'string' || typeof content !== 'string' || !content.trim()) {
+      throw new HttpError(400, 'Missing name or content');
+    }
+    if (replyTo !== undefined && typeof replyTo !== 'string') {
+      throw new HttpError(400, 'Invalid replyTo');
+    }
+
+    let poster = this.posters.get(name.trim());
+    if (!poster) {
+      poster = new ChatManager(this.storage);
+      try {
+        poster.initializeAsHuman(name);
+      } catch (error) {
+        throw new HttpError(400, error instanceof Error ? error.message : String(error));
+      }
+      this.posters.set(poster.getMyName(), poster);
+    }
+
+    const messageId = await poster.sendMessage(project, content, 'text', undefined, replyTo);
+    this.sendJson(res, 201, { messageId });
+  }
+
+  /**
+   * Gets the agents present in a room, leaving out the dashboard itself
+   * @param projectPath The project path
+   * @returns The agents with their presence, last seen time and profile
+   */
+  private async getAgents(projectPath: string): Promise<unknown[]> {
+    const agents = await this.viewer.getAgentDetails(projectPath);
+    return agents.filter((agent) => agent.name !== VIEWER_NAME || agent.lastSeen);
+  }
+
+  /**
+   * Gets the required project query parameter
+   * @param url The request URL
+   * @returns The project path
+   * @throws HttpError if the parameter is missing
+   */
+  private getProjectParam(url: URL): string {
+    const projectPath = url.searchParams.get('project');
+    if (!projectPath) {
+      throw new HttpError(400, 'Missing project');
+    }
+    return projectPath;
+  }
+
+  /**
+   * Reads a request body
+   * @param req The request
+   * @returns The body as text
+   * @throws HttpError if the body is too large
+   */
+  private async readBody(req: http.IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new HttpError(413, 'Request body too large');
+      }
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString('utf-8');
+  }
+
+  /**
+   * Sends a JSON response
+   * @param res The response
+   * @param status The HTTP status
+   * @param data The response data
+   */
+  private sendJson(res: http.ServerResponse, status: number, data: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(data));
+  }
+}
+
+/**
+ * The dashboard page
+ * Plain HTML and JavaScript without external resources, so it works offline
+ */
+const DASHBOARD_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Agent Chat Dashboard</title>
+<style>
+* { box-sizing: border-box; }
+body { margin: 0; font-family: system-ui, sans-serif; display: grid; height: 100vh;
+  grid-template-columns: 16rem 1fr 14rem; grid-template-rows: 1fr auto; }
+nav, aside { overflow-y: auto; padding: 0.5rem; background: #f5f5f5; }
+nav { grid-row: 1 / 3; border-right: 1px solid #ddd; }
+aside { border-left: 1px solid #ddd; }
+h2 { font-size: 0.9rem; text-transform: uppercase; color: #666; }
+.room { display: block; width: 100%; text-align: left; border: 0; background: none;
+  padding: 0.4rem; cursor: pointer; word-break: break-all; }
+.room.active { background: #dde8ff; }
+.room small { color: #777; }
+main { overflow-y: auto; padding: 0.5rem 1rem; }
+.message { padding: 0.3rem 0; border-bottom: 1px solid #eee; }
+.message .meta { color: #888; font-size: 0.8rem; }
+.message .sender { font-weight: bold; }
+.message .content { white-space: pre-wrap; }
+.message.system .content, .message.notification .content { color: #666; font-style: italic; }
+.message.command .content { font-family: monospace; }
+.type { font-size: 0.75rem; padding: 0 0.3rem; border-radius: 0.3rem; background: #eee; }
+.agent { padding: 0.3rem 0; }
+.presence { display: inline-block; width: 0.6rem; height: 0.6rem; border-radius: 50%; }
+.presence.online { background: #2a2; } .presence.idle { background: #dd2; }
+.presence.away { background: #d82; } .presence.offline { background: #aaa; }
+form { grid-column: 2 / 4; display: flex; gap: 0.5rem; padding: 0.5rem; border-top: 1px solid #ddd; }
+form input[name=content] { flex: 1; }
+#status { color: #a00; }
+</style>
+</head>
+<body>
+<nav><h2>Rooms</h2><div id="rooms"></div></nav>
+<main id="messages"><p>Select a room.</p></main>
+<aside><h2>Present</h2><div id="agents"></div></aside>
+<form id="post">
+<input name="name" placeholder="Your name" required size="12">
+<input name="content" placeholder="Message" required autocomplete="off">
+<button>Send</button><span id="status"></span>
+</form>
+<script>
+let current = null;
+let events = null;
+
+function el(tag, className, text) {
+  const node = document.createElement(tag);
+  if (className) node.className = className;
+  if (text !== undefined) node.textContent = text;
+  return node;
+}
+
+function senderColor(name) {
+  let hash = 0;
+  for (const ch of name) hash = (hash * 31 + ch.charCodeAt(0)) | 0;
+  return 'hsl(' + (Math.abs(hash) % 360) + ', 60%, 35%)';
+}
+
+function renderMessage(msg) {
+  const node = el('div', 'message ' + msg.type);
+  const meta = el('div', 'meta');
+  const sender = el('span', 'sender', msg.sender);
+  sender.style.color = senderColor(msg.sender);
+  meta.append(sender, ' ', new Date(msg.timestamp).toLocaleString(), ' #' + msg.id.slice(0, 8));
+  if (msg.type !== 'text') meta.append(' ', el('span', 'type', msg.type));
+  if (msg.replyTo) meta.append(' \\u21b3 #' + msg.replyTo.slice(0, 8));
+  if (msg.pinnedAt) meta.append(' [pinned]');
+  if (msg.editedAt) meta.append(' (edited)');
+  node.append(meta, el('div', 'content', msg.retractedAt ? '[retracted]' : msg.content));
+  return node;
+}
+
+function appendMessage(msg) {
+  const list = document.getElementById('messages');
+  const atBottom = list.scrollTop + list.clientHeight >= list.scrollHeight - 10;
+  list.append(renderMessage(msg));
+  if (atBottom) list.scrollTop = list.scrollHeight;
+}
+
+function renderAgents(agents) {
+  const list = document.getElementById('agents');
+  list.replaceChildren(...agents.map((agent) => {
+    const node = el('div', 'agent');
+    const name = el('span', null, ' ' + agent.name);
+    name.style.color = senderColor(agent.name);
+    node.append(el('span', 'presence ' + agent.presence), name);
+    if (agent.profile && agent.profile.role) node.append(' (' + agent.profile.role + ')');
+    if (agent.profile && agent.profile.activity) {
+      node.append(el('div', 'meta', agent.profile.activity));
+    }
+    node.title = agent.presence + (agent.lastSeen ? ', last seen ' + new Date(agent.lastSeen).toLocaleString() : '');
+    return node;
+  }));
+}
+
+async function loadRooms() {
+  const { rooms } = await (await fetch('api/rooms')).json();
+  const list = document.getElementById('rooms');
+  list.replaceChildren(...rooms.map((room) => {
+    const button = el('button', 'room' + (room.projectPath === current ? ' active' : ''));
+    button.append(room.projectPath, el('br'), el('small', null, room.totalMessages + ' messages'));
+    button.onclick = () => openRoom(room.projectPath);
+    return button;
+  }));
+}
+
+async function openRoom(projectPath) {
+  current = projectPath;
+  if (events) events.close();
+  loadRooms();
+  const query = 'project=' + encodeURIComponent(projectPath);
+  const room = await (await fetch('api/room?' + query)).json();
+  document.getElementById('messages').replaceChildren();
+  room.messages.forEach(appendMessage);
+  renderAgents(room.agents);
+  const last = room.messages[room.messages.length - 1];
+  events = new EventSource('api/events?' + query + (last ? '&after=' + last.seq : ''));
+  events.addEventListener('message', (event) => appendMessage(JSON.parse(event.data)));
+  events.addEventListener('presence', (event) => renderAgents(JSON.parse(event.data)));
+}
+
+document.getElementById('post').onsubmit = async (event) => {
+  event.preventDefault();
+  const form = event.target;
+  const status = document.getElementById('status');
+  if (!current) { status.textContent = 'Select a room first'; return; }
+  localStorage.setItem('dashboardName', form.name.value);
+  const res = await fetch('api/messages', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ project: current, name: form.name.value, content: form.content.value }),
+  });
+  status.textContent = res.ok ? '' : (await res.json()).error;
+  if (res.ok) form.content.value = '';
+};
+
+document.querySelector('#post [name=name]').value = localStorage.getItem('dashboardName') || '';
+loadRooms();
+setInterval(loadRooms, 30000);
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,158 @@
+/**
+ * Minimal glob matching for advisory file claims
+ * Supports '**' (any number of directories), '*' (anything within a path segment) and '?'
+ */
+
+/**
+ * Normalizes a glob pattern or path for comparison
+ * @param pattern The pattern or path
+ * @returns The pattern with forward slashes and without leading './' or trailing '/'
+ */
+export function normalizePattern(pattern: string): string {
+  return pattern
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^(\.\/)+/, '')
+    .replace(/\/+$/, '');
+}
+
+/**
+ * Converts a glob pattern to a regular expression
+ * @param pattern The glob pattern
+ * @returns A regular expression matching the whole path
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const normalized = normalizePattern(pattern);
+  let source = '';
+
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+
+    if (char === '*' && normalized[i + 1] === '*') {
+      // '**/' matches zero or more directories, a trailing '**' matches everything below
+      if (normalized[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  // A plain directory claim also covers everything inside it
+  return new RegExp(`^${source}(?:/.*)?$`);
+}
+
+/**
+ * Checks whether two glob patterns may refer to the same files
+ * The patterns are compared segment by segment: '**' may stand for any number of segments
+ * of the other pattern, and two segments intersect if some name matches both. A pattern that
+ * runs out first is a directory claim covering everything below, unless it ends in a wildcard
+ * file name such as '*.ts'. When in doubt, such as for '**' inside a segment, the patterns are
+ * taken to overlap.
+ * @param a The first pattern
+ * @param b The second pattern
+ * @returns True if the patterns overlap
+ */
+export function patternsOverlap(a: string, b: string): boolean {
+  const segmentsA = toSegments(a);
+  const segmentsB = toSegments(b);
+  const seen = new Map<string, boolean>();
+
+  const overlapFrom = (i: number, j: number): boolean => {
+    if (i === segmentsA.length) {
+      return coversBelow(segmentsA) || segmentsB.slice(j).every((segment) => segment === '**');
+    }
+    if (j === segmentsB.length) {
+      return coversBelow(segmentsB) || segmentsA.slice(i).every((segment) => segment === '**');
+    }
+
+    const key = `${i}:${j}`;
+    const known = seen.get(key);
+    if (known !== undefined) {
+      return known;
+    }
+
+    let result: boolean;
+    if (segmentsA[i] === '**' || segmentsB[j] === '**') {
+      // '**' matches no segment, or one segment and possibly more after it
+      result =
+        (segmentsA[i] === '**' && (overlapFrom(i + 1, j) || overlapFrom(i, j + 1))) ||
+        (segmentsB[j] === '**' && (overlapFrom(i, j + 1) || overlapFrom(i + 1, j)));
+    } else {
+      result = segmentsIntersect(segmentsA[i], segmentsB[j]) && overlapFrom(i + 1, j + 1);
+    }
+
+    seen.set(key, result);
+    return result;
+  };
+
+  return overlapFrom(0, 0);
+}
+
+/**
+ * Splits a glob pattern into path segments
+ * A segment with '**' next to other characters may span directories, so it is treated as '**'.
+ * @param pattern The pattern
+ * @returns The segments
+ */
+function toSegments(pattern: string): string[] {
+  const normalized = normalizePattern(pattern);
+  if (normalized === '') {
+    return [];
+  }
+  return normalized.split('/').map((segment) => (segment.includes('**') ? '**' : segment));
+}
+
+/**
+ * Checks whether a pattern may name a directory, so that it covers everything below it
+ * @param segments The segments of the pattern
+ * @returns False if the pattern ends in a wildcard file name such as '*.ts'
+ */
+function coversBelow(segments: string[]): boolean {
+  const last = segments[segments.length - 1] ?? '';
+  return !(/[*?]/.test(last) && last !== '**' && last.includes('.'));
+}
+
+/**
+ * Checks whether some name matches both segment patterns, where '*' matches any run of
+ * characters and '?' matches one character
+ * @param a The first segment pattern
+ * @param b The second segment pattern
+ * @returns True if the segments intersect
+ */
+function segmentsIntersect(a: string, b: string): boolean {
+  const seen = new Map<string, boolean>();
+
+  const intersectFrom = (i: number, j: number): boolean => {
+    const key = `${i}:${j}`;
+    const known = seen.get(key);
+    if (known !== undefined) {
+      return known;
+    }
+
+    let result: boolean;
+    if (a[i] === '*' || b[j] === '*') {
+      // Either '*' matches nothing, or it takes one more character of the other segment
+      result =
+        (a[i] === '*' && (intersectFrom(i + 1, j) || (j < b.length && intersectFrom(i, j + 1)))) ||
+        (b[j] === '*' && (intersectFrom(i, j + 1) || (i < a.length && intersectFrom(i + 1, j))));
+    } else if (i === a.length || j === b.length) {
+      result = i === a.length && j === b.length;
+    } else {
+      result = (a[i] === '?' || b[j] === '?' || a[i] === b[j]) && intersectFrom(i + 1, j + 1);
+    }
+
+    seen.set(key, result);
+    return result;
+  };
+
+  return intersectFrom(0, 0);
+}
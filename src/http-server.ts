@@ -0,0 +1,376 @@
+/**
+ * Streamable HTTP transport
+ * A long-running HTTP server on localhost that hosts many MCP client sessions in one process,
+ * instead of one server process per agent on stdio. Every session gets its own agent identity.
+ * The sessions share one file store, and a message sent in one session reaches the
+ * subscriptions and waits of the others in memory. The server runs when MCP_HTTP_PORT is set.
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { ChatManager } from './chat-manager.js';
+import { SharedStorage } from './session-storage.js';
+import { createLogger } from './logger.js';
+
+/**
+ * The HTTP server only listens on the loopback interface
+ */
+const HTTP_HOST = '127.0.0.1';
+
+/**
+ * Path of the MCP endpoint
+ */
+export const MCP_ENDPOINT = '/mcp';
+
+/**
+ * Request header with the identity key of a new session, the HTTP counterpart of
+ * MCP_AGENT_IDENTITY_KEY
+ */
+const IDENTITY_KEY_HEADER = 'x-agent-identity-key';
+
+/**
+ * Largest accepted request body
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Default time without requests after which a session is closed
+ */
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * HTTP transport port - configurable via environment variable
+ * Default: unset (stdio transport)
+ *
+ * Environment variable: MCP_HTTP_PORT
+ * Example: MCP_HTTP_PORT=3000
+ * @returns The port, or null to use stdio
+ */
+export function getHttpPort(): number | null {
+  const envPort = process.env.MCP_HTTP_PORT;
+
+  if (!envPort) {
+    return null;
+  }
+
+  const port = parseInt(envPort, 10);
+
+  if (isNaN(port) || port < 1 || port > 65535) {
+    console.warn(`Invalid MCP_HTTP_PORT: "${envPort}". Using stdio.`);
+    return null;
+  }
+
+  return port;
+}
+
+/**
+ * MCP server serving one session
+ */
+export interface SessionServer {
+  connect(transport: Transport): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * A client session with its transport and server
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: SessionServer;
+  /** Requests still being answered, such as long waits and event streams */
+  activeRequests: number;
+  /** Closes the session once it has been idle for the idle timeout */
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Options of the HTTP server
+ */
+export interface StreamableHttpServerOptions {
+  /** Time without requests after which a session is closed (default: 30 minutes) */
+  idleTimeoutMs?: number;
+}
+
+/**
+ * Error with the HTTP status to answer with
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * HTTP server hosting MCP sessions over the Streamable HTTP transport
+ */
+export class StreamableHttpServer {
+  private createServer: (chatManager: ChatManager) => SessionServer;
+  private storage: SharedStorage;
+  private server: http.Server | null = null;
+  /** Open sessions by session ID */
+  private sessions: Map<string, Session> = new Map();
+  /** Sessions being closed because their client ended them, awaited when stopping */
+  private closingSessions: Set<Promise<void>> = new Set();
+  private idleTimeoutMs: number;
+  private logger = createLogger('HttpServer');
+
+  /**
+   * @param createServer Creates the MCP server of a session for its chat manager
+   * @param storage Where the chat rooms are kept
+   *   (default: files in ./data, shared with the stdio server instances)
+   * @param options Server options
+   */
+  constructor(
+    createServer: (chatManager: ChatManager) => SessionServer,
+    storage: SharedStorage = new SharedStorage(),
+    options: StreamableHttpServerOptions = {}
+  ) {
+    this.createServer = createServer;
+    this.storage = storage;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+  }
+
+  /**
+   * Starts listening on localhost
+   * @param port The port, or 0 for any free port
+   * @returns The port the server listens on
+   */
+  async start(port: number): Promise<number> {
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        const status = error instanceof HttpError ? error.status : 500;
+        const message = error instanceof Error ? error.message : String(error);
+        if (status === 500) {
+          this.logger.error('Request failed', { url: req.url, error: message });
+        }
+        if (!res.headersSent) {
+          this.sendError(res, status, message);
+        } else {
+          res.end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, HTTP_HOST, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    const boundPort = (server.address() as AddressInfo).port;
+    this.logger.info('HTTP transport listening', {
+      url: `http://localhost:${boundPort}${MCP_ENDPOINT}`,
+    });
+    return boundPort;
+  }
+
+  /**
+   * Closes all sessions, so their agents leave their chat rooms, and stops listening
+   */
+  async stop(): Promise<void> {
+    for (const sessionId of [...this.sessions.keys()]) {
+      await this.closeSession(sessionId);
+    }
+    await Promise.all(this.closingSessions);
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Routes a request to its session, or opens a session for an initialize request
+   * @param req The request
+   * @param res The response
+   */
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    // Pages on other sites could otherwise reach the server through DNS rebinding
+    const port = (this.server?.address() as AddressInfo | null)?.port;
+    const allowedHosts = [`localhost:${port}`, `127.0.0.1:${port}`];
+    if (!allowedHosts.includes(req.headers.host ?? '')) {
+      throw new HttpError(403, 'Forbidden host');
+    }
+
+    const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+    if (url.pathname !== MCP_ENDPOINT) {
+      throw new HttpError(404, 'Not found');
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        throw new HttpError(404, 'Session not found');
+      }
+      this.trackRequest(sessionId, session, res);
+      return session.transport.handleRequest(req, res);
+    }
+
+    if (req.method !== 'POST') {
+      throw new HttpError(400, 'Missing session ID');
+    }
+
+    const body = await this.readBody(req);
+    if (!isInitializeRequest(body)) {
+      throw new HttpError(400, 'Missing session ID');
+    }
+
+    const identityKey = req.headers[IDENTITY_KEY_HEADER];
+    await this.openSession(
+      req,
+      res,
+      body,
+      typeof identityKey === 'string' ? identityKey : undefined
+    );
+  }
+
+  /**
+   * Creates the agent, MCP server and transport of a new session and answers its
+   * initialize request
+   * The session is registered once the transport has accepted the request.
+   * @param req The request
+   * @param res The response
+   * @param body The initialize request
+   * @param identityKey Optional key for a stable agent identity
+   */
+  private async openSession(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    body: unknown,
+    identityKey: string | undefined
+  ): Promise<void> {
+    const sessionId = crypto.randomUUID();
+    const chatManager = new ChatManager(this.storage.createSessionStorage(sessionId));
+    // An empty key keeps the server's MCP_AGENT_IDENTITY_KEY from being used by every session
+    await chatManager.initialize(identityKey ?? '');
+
+    const server = this.createServer(chatManager);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => sessionId,
+      onsessioninitialized: (id) => {
+        const session: Session = { transport, server, activeRequests: 0 };
+        this.sessions.set(id, session);
+        this.trackRequest(id, session, res);
+        this.logger.info('Session opened', { sessionId: id, agentName: chatManager.getMyName() });
+      },
+    });
+    transport.onclose = () => this.closeSessionInBackground(sessionId);
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      if (!this.sessions.has(sessionId)) {
+        // The transport rejected the request; don't keep the agent's name reserved
+        await server.close();
+      }
+    }
+  }
+
+  /**
+   * Closes a session: its agent leaves its chat rooms and releases its identity
+   * Runs once, whether the client ended the session or the server is stopping
+   * @param sessionId The session ID
+   */
+  private async closeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(sessionId);
+    clearTimeout(session.idleTimer);
+
+    try {
+      await session.server.close();
+      this.logger.info('Session closed', { sessionId });
+    } catch (error) {
+      this.logger.warn('Could not close session', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Closes a session without waiting for it; stop() waits for it instead
+   * @param sessionId The session ID
+   */
+  private closeSessionInBackground(sessionId: string): void {
+    const closing = this.closeSession(sessionId);
+    this.closingSessions.add(closing);
+    void closing.finally(() => this.closingSessions.delete(closing));
+  }
+
+  /**
+   * Keeps a session open while a request is answered, and starts its idle timer once
+   * no request is left
+   * @param sessionId The session ID
+   * @param session The session
+   * @param res The response to the request
+   */
+  private trackRequest(sessionId: string, session: Session, res: http.ServerResponse): void {
+    session.activeRequests++;
+    clearTimeout(session.idleTimer);
+    session.idleTimer = undefined;
+
+    res.once('close', () => {
+      session.activeRequests--;
+      if (session.activeRequests > 0 || this.sessions.get(sessionId) !== session) {
+        return;
+      }
+      session.idleTimer = setTimeout(() => {
+        this.logger.info('Closing idle session', { sessionId });
+        this.closeSessionInBackground(sessionId);
+      }, this.idleTimeoutMs);
+      session.idleTimer.unref();
+    });
+  }
+
+  /**
+   * Reads a JSON request body
+   * @param req The request
+   * @returns The parsed body
+   * @throws HttpError if the body is too large or not JSON
+   */
+  private async readBody(req: http.IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new HttpError(413, 'Request body too large');
+      }
+      chunks.push(chunk);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch {
+      throw new HttpError(400, 'Request body is not JSON');
+    }
+  }
+
+  /**
+   * Sends a JSON-RPC error response, the form MCP clients expect
+   * @param res The response
+   * @param status The HTTP status
+   * @param message The error message
+   */
+  private sendError(res: http.ServerResponse, status: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+  }
+}
@@ -7,12 +7,80 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
   Tool,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BrokerStorage, isBrokerEnabled } from './broker.js';
 import { ChatManager } from './chat-manager.js';
+import { DashboardServer, getDashboardPort } from './dashboard.js';
+import { MCP_ENDPOINT, StreamableHttpServer, getHttpPort } from './http-server.js';
+import { MESSAGE_TYPES, Message, PathClaim, Task, TranscriptFormat } from './types.js';
+import { mentionsAgent } from './mentions.js';
+
+/**
+ * Number of message ID characters shown in tool output
+ */
+const SHORT_ID_LENGTH = 8;
+
+/**
+ * Shortens a message ID for display
+ * @param id The full message ID
+ * @returns The leading characters of the ID
+ */
+function shortId(id: string): string {
+  return id.slice(0, SHORT_ID_LENGTH);
+}
+
+/**
+ * Checks an optional message_type tool argument
+ * @param value The argument
+ * @returns The message type, or undefined if none was given
+ * @throws Error if the value is not a message type
+ */
+function parseMessageType(value: unknown): Message['type'] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!MESSAGE_TYPES.includes(value as Message['type'])) {
+    throw new Error(`Invalid message type: ${value}`);
+  }
+  return value as Message['type'];
+}
+
+/**
+ * URI scheme for chat room resources
+ */
+const CHAT_URI_PREFIX = 'chat://';
+
+/**
+ * Converts a project path to its chat room resource URI
+ * @param projectPath The project path
+ * @returns The resource URI, e.g. chat:///path/to/project
+ */
+function projectPathToUri(projectPath: string): string {
+  return CHAT_URI_PREFIX + projectPath.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Converts a chat room resource URI back to its project path
+ * @param uri The resource URI
+ * @returns The project path
+ */
+function uriToProjectPath(uri: string): string {
+  if (!uri.startsWith(CHAT_URI_PREFIX)) {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+  return uri.slice(CHAT_URI_PREFIX.length).split('/').map(decodeURIComponent).join('/');
+}
 
 /**
  * MCP Server for Agent Messaging
@@ -20,9 +88,18 @@ import { ChatManager } from './chat-manager.js';
 export class AgentMessagingServer {
   private server: Server;
   private chatManager: ChatManager;
+  /** Stop functions for the file watchers of subscribed chat room resources */
+  private subscriptions: Map<string, () => void> = new Map();
+  /** Web dashboard, if MCP_DASHBOARD_PORT is set */
+  private dashboard: DashboardServer | null = null;
+  private shuttingDown = false;
 
-  constructor() {
-    this.chatManager = new ChatManager();
+  /**
+   * @param chatManager The agent this server acts for (default: an agent with its own identity
+   *   in the shared files; initialized by start())
+   */
+  constructor(chatManager: ChatManager = new ChatManager()) {
+    this.chatManager = chatManager;
 
     this.server = new Server(
       {
@@ -32,20 +109,114 @@ export class AgentMessagingServer {
       {
         capabilities: {
           tools: {},
+          resources: {
+            subscribe: true,
+          },
         },
       }
     );
 
     this.setupToolHandlers();
+    this.setupResourceHandlers();
 
     // Log errors
     this.server.onerror = (error) => {
       console.error('[MCP Error]', error);
     };
+  }
+
+  /**
+   * Connects the server to a transport
+   * The chat manager must already be initialized; start() does this for stdio
+   * @param transport The transport
+   */
+  async connect(transport: Transport): Promise<void> {
+    await this.server.connect(transport);
+  }
+
+  /**
+   * Stops the chat room subscriptions, leaves all chat rooms, releases the agent identity
+   * and closes the transport
+   */
+  async close(): Promise<void> {
+    for (const stop of this.subscriptions.values()) {
+      stop();
+    }
+    this.subscriptions.clear();
+    await this.chatManager.close();
+    await this.server.close();
+  }
+
+  /**
+   * Closes the server and exits
+   * Runs once, whichever of the signals or the closed stdin stream triggers it first
+   */
+  private async shutdown(): Promise<void> {
+    if (this.shuttingDown) {
+      return;
+    }
+    this.shuttingDown = true;
+
+    try {
+      await this.dashboard?.stop();
+      await this.close();
+    } catch (error) {
+      console.error('Error during shutdown:', error);
+    }
+    process.exit(0);
+  }
+
+  /**
+   * Sets up the MCP resource handlers
+   * Each chat room is exposed as a chat:// resource that clients can read and subscribe to
+   */
+  private setupResourceHandlers(): void {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const projectPaths = await this.chatManager.listChatRooms();
+      return {
+        resources: projectPaths.map((projectPath) => ({
+          uri: projectPathToUri(projectPath),
+          name: projectPath,
+          description: `Chat room transcript for ${projectPath}`,
+          mimeType: 'text/plain',
+        })),
+      };
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const projectPath = uriToProjectPath(uri);
+      const messages = await this.chatManager.getFilteredMessages(projectPath, {});
 
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: 'text/plain',
+            text: messages.map((msg) => this.formatMessage(msg)).join('\n'),
+          },
+        ],
+      };
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      if (!this.subscriptions.has(uri)) {
+        const stop = await this.chatManager.watchForNewMessages(uriToProjectPath(uri), () => {
+          this.server.sendResourceUpdated({ uri }).catch((error) => {
+            console.error('[MCP Error]', error);
+          });
+        });
+        this.subscriptions.set(uri, stop);
+      }
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      this.subscriptions.get(uri)?.();
+      this.subscriptions.delete(uri);
+      return {};
     });
   }
 
@@ -68,6 +239,11 @@ export class AgentMessagingServer {
         // Get project path from arguments or use current working directory
         const projectPath = (args as any).project_path || process.cwd();
 
+        // Any tool call keeps this agent present in the chat room
+        if (name !== 'heartbeat') {
+          await this.chatManager.touch(projectPath);
+        }
+
         switch (name) {
           case 'read_messages':
             return await this.handleReadMessages(projectPath, args);
@@ -77,6 +253,75 @@ export class AgentMessagingServer {
                       return await this.handleSendMessage(projectPath, args);
 
           
+          case 'send_direct_message':
+            return await this.handleSendDirectMessage(projectPath, args);
+
+          case 'edit_message':
+            return await this.handleEditMessage(projectPath, args);
+
+          case 'retract_message':
+            return await this.handleRetractMessage(projectPath, args);
+
+          case 'ack_message':
+            return await this.handleAckMessage(projectPath, args);
+
+          case 'get_message_status':
+            return await this.handleGetMessageStatus(projectPath, args);
+
+          case 'pin_message':
+            return await this.handlePinMessage(projectPath, args);
+
+          case 'get_pinned_messages':
+            return await this.handleGetPinnedMessages(projectPath);
+
+          case 'set_retention':
+            return await this.handleSetRetention(projectPath, args);
+
+          case 'get_thread':
+            return await this.handleGetThread(projectPath, args);
+
+          case 'read_unread':
+            return await this.handleReadUnread(projectPath, args);
+
+          case 'wait_for_messages':
+            return await this.handleWaitForMessages(projectPath, args);
+
+          case 'ask_agent':
+            return await this.handleAskAgent(projectPath, args);
+
+          case 'answer_question':
+            return await this.handleAnswerQuestion(projectPath, args);
+
+          case 'pending_questions':
+            return await this.handlePendingQuestions(projectPath);
+
+          case 'create_task':
+            return await this.handleCreateTask(projectPath, args);
+
+          case 'claim_task':
+            return await this.handleClaimTask(projectPath, args);
+
+          case 'update_task_status':
+            return await this.handleUpdateTaskStatus(projectPath, args);
+
+          case 'list_tasks':
+            return await this.handleListTasks(projectPath, args);
+
+          case 'claim_paths':
+            return await this.handleClaimPaths(projectPath, args);
+
+          case 'release_paths':
+            return await this.handleReleasePaths(projectPath, args);
+
+          case 'list_claims':
+            return await this.handleListClaims(projectPath, args);
+
+          case 'get_mentions':
+            return await this.handleGetMentions(projectPath, args);
+
+          case 'set_profile':
+            return await this.handleSetProfile(projectPath, args);
+
 
                     case 'get_agent_names':
 
@@ -94,6 +339,12 @@ export class AgentMessagingServer {
 
                       return await this.handleSearchMessages(projectPath, args);
 
+          case 'export_chat':
+            return await this.handleExportChat(projectPath, args);
+
+          case 'import_chat':
+            return await this.handleImportChat(projectPath, args);
+
           
 
                     default:
@@ -144,7 +395,7 @@ export class AgentMessagingServer {
 
                             name: 'read_messages',
 
-                            description: 'Read messages from other agents in your project\'s shared chat room. Use this to catch up on the conversation and see what other agents are working on.',
+                            description: 'Read messages from other agents in your project\'s shared chat room. Use this to catch up on the conversation and see what other agents are working on. Returns the newest messages; page through the full history with the before/after cursors.',
 
                             inputSchema: {
 
@@ -189,6 +440,14 @@ export class AgentMessagingServer {
                                   minimum: 1,
 
                                 },
+                                before: {
+                                  type: ['number', 'string'],
+                                  description: 'Page backward: only messages before this cursor (a sequence number from "Next page", or a message ID; the short "#" ID is enough)',
+                                },
+                                after: {
+                                  type: ['number', 'string'],
+                                  description: 'Page forward: only messages after this cursor (a sequence number from "Next page", or a message ID; the short "#" ID is enough)',
+                                },
 
                               },
 
@@ -226,6 +485,20 @@ export class AgentMessagingServer {
 
                                 },
 
+                                reply_to: {
+                                  type: 'string',
+                                  description: 'ID of the message you are replying to (the short "#" ID shown by read_messages is enough)',
+                                },
+                                message_type: {
+                                  type: 'string',
+                                  description: 'Type of message (default: text)',
+                                  enum: ['text', 'system', 'command', 'notification'],
+                                },
+                                metadata: {
+                                  type: 'object',
+                                  description: 'Structured data for the message. command messages need "command" (string) and "args" (object); notification messages need "level" ("info", "warning" or "error")',
+                                },
+
                               },
 
                               required: ['message'],
@@ -233,243 +506,1516 @@ export class AgentMessagingServer {
                             },
 
                           },
-
                           {
-
-                            name: 'search_messages',
-
-                            description: 'Search the shared chat history for messages from any agent that match a specific query. Useful for finding past conversations or specific information.',
-
+                            name: 'send_direct_message',
+                            description: 'Send a private message to a single agent in your project\'s chat room. Only you and the recipient will see it. Use this to settle details without interrupting the other agents.',
                             inputSchema: {
-
                               type: 'object',
-
                               properties: {
-
-                                query: {
-
+                                recipient: {
                                   type: 'string',
-
-                                  description: 'The text to search for in the message content.',
-
+                                  description: 'The name of the agent to send the message to',
+                                },
+                                message: {
+                                  type: 'string',
+                                  description: 'The message content to send',
                                 },
-
                                 project_path: {
-
                                   type: 'string',
-
                                   description: 'The project path/folder (defaults to current working directory)',
-
                                 },
-
                               },
-
-                              required: ['query'],
-
+                              required: ['recipient', 'message'],
                             },
-
                           },
-
                           {
-
-                            name: 'get_agent_names',
-
-                            description: 'See which other agents are currently active in your project\'s chat room. This helps you know who you can collaborate with.',
-
+                            name: 'edit_message',
+                            description: 'Correct a message you sent, e.g. when it turned out to be wrong. The previous version is kept. Agents that already read the message are notified of the new content.',
                             inputSchema: {
-
                               type: 'object',
-
                               properties: {
-
+                                message_id: {
+                                  type: 'string',
+                                  description: 'ID of your message (the short "#" ID shown by read_messages is enough)',
+                                },
+                                message: {
+                                  type: 'string',
+                                  description: 'The new message content',
+                                },
                                 project_path: {
-
                                   type: 'string',
-
                                   description: 'The project path/folder (defaults to current working directory)',
-
                                 },
-
                               },
-
+                              required: ['message_id', 'message'],
                             },
-
                           },
+                          {
+                            name: 'retract_message',
+                            description: 'Retract a message you sent so other agents no longer act on it. The message is shown as retracted; agents that already read it are notified.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                message_id: {
+                                  type: 'string',
+                                  description: 'ID of your message (the short "#" ID shown by read_messages is enough)',
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                              required: ['message_id'],
+                            },
+                          },
+                          {
+                            name: 'ack_message',
+                            description: 'Acknowledge a message from another agent so its sender knows you have seen it, optionally with a short reaction such as "on it", "done" or "blocked".',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                message_id: {
+                                  type: 'string',
+                                  description: 'ID of the message (the short "#" ID shown by read_messages is enough)',
+                                },
+                                reaction: {
+                                  type: 'string',
+                                  description: 'Short reaction (max 50 characters), e.g. "on it", "done" or "blocked"',
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                              required: ['message_id'],
+                            },
+                          },
+                          {
+                            name: 'get_message_status',
+                            description: 'See who has acknowledged a message and who has read it. Use this to check whether anyone picked up a request you posted.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                message_id: {
+                                  type: 'string',
+                                  description: 'ID of the message (the short "#" ID shown by read_messages is enough)',
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                              required: ['message_id'],
+                            },
+                          },
+                          {
+                            name: 'pin_message',
+                            description: 'Pin an important message (a decision, an interface agreement, a set of instructions) so it is never pruned from the chat room, or unpin it again.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                message_id: {
+                                  type: 'string',
+                                  description: 'ID of the message (the short "#" ID shown by read_messages is enough)',
+                                },
+                                unpin: {
+                                  type: 'boolean',
+                                  description: 'Unpin the message instead of pinning it (default: false)',
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                              required: ['message_id'],
+                            },
+                          },
+                          {
+                            name: 'get_pinned_messages',
+                            description: 'List the pinned messages of your project\'s chat room.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                            },
+                          },
+                          {
+                            name: 'set_retention',
+                            description: 'Set how many messages and how many days of history this chat room keeps. Older messages are moved to a compressed archive, which search_messages can still search; pinned messages are always kept. Limits you leave out use the server defaults.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                max_messages: {
+                                  type: 'number',
+                                  description: 'Maximum number of messages kept, not counting pinned ones (100 to 50000)',
+                                  minimum: 100,
+                                  maximum: 50000,
+                                },
+                                max_age_days: {
+                                  type: 'number',
+                                  description: 'Maximum age of kept messages in days (0 for no age limit, max 3650)',
+                                  minimum: 0,
+                                  maximum: 3650,
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                            },
+                          },
+                          {
+                            name: 'get_thread',
+                            description: 'Read a whole conversation thread: a message and every reply to it, in order. Use this to follow a discussion that is interleaved with other messages.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                message_id: {
+                                  type: 'string',
+                                  description: 'ID of the thread\'s root message (the short "#" ID shown by read_messages is enough)',
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                              required: ['message_id'],
+                            },
+                          },
+                          {
+                            name: 'read_unread',
+                            description: 'Read only the messages you have not seen yet, oldest first, and mark them as read. Use this instead of guessing timestamps to catch up on the conversation.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                count: {
+                                  type: 'number',
+                                  description: 'Maximum number of unread messages to retrieve (max 100, default 100)',
+                                  minimum: 1,
+                                  maximum: 100,
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                            },
+                          },
+                          {
+                            name: 'wait_for_messages',
+                            description: 'Wait until another agent posts a new message in your project\'s chat room, or until the timeout expires. Use this instead of calling read_messages in a loop when you are waiting for a reply or a handoff.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                timeout_seconds: {
+                                  type: 'number',
+                                  description: 'How long to wait before giving up (max 300, default 30)',
+                                  minimum: 1,
+                                  maximum: 300,
+                                },
+                                sender: {
+                                  type: 'string',
+                                  description: 'Only wake up for messages from this agent',
+                                },
+                                message_type: {
+                                  type: 'string',
+                                  description: 'Only wake up for messages of this type',
+                                  enum: ['text', 'system', 'command', 'notification'],
+                                },
+                                mention: {
+                                  type: 'string',
+                                  description: 'Only wake up for messages that @mention this agent name',
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                            },
+                          },
+                          {
+                            name: 'ask_agent',
+                            description: 'Ask another agent (or anyone) a question and wait for the answer, instead of posting and polling. The question gets an ID; the callee finds it with pending_questions and replies with answer_question.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                question: {
+                                  type: 'string',
+                                  description: 'The question',
+                                },
+                                agent: {
+                                  type: 'string',
+                                  description: 'Name of the agent that should answer (default: anyone)',
+                                },
+                                timeout_seconds: {
+                                  type: 'number',
+                                  description: 'How long to wait for the answer (max 300, default 60). The question stays open for this long',
+                                  minimum: 1,
+                                  maximum: 300,
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                              required: ['question'],
+                            },
+                          },
+                          {
+                            name: 'answer_question',
+                            description: 'Answer a question another agent asked with ask_agent. The asker is waiting for it. Each question takes one answer.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                question_id: {
+                                  type: 'string',
+                                  description: 'ID of the question as shown by pending_questions (the ID of the question message works too)',
+                                },
+                                answer: {
+                                  type: 'string',
+                                  description: 'The answer',
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                              required: ['question_id', 'answer'],
+                            },
+                          },
+                          {
+                            name: 'pending_questions',
+                            description: 'List the open questions you can answer: asked of you or of anyone, not answered yet, and still awaited by the asker.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                            },
+                          },
+                          {
+                            name: 'create_task',
+                            description: 'Add a task to your project\'s shared task board so work can be split up without getting lost in the chat. Other agents are notified in the chat room.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                title: {
+                                  type: 'string',
+                                  description: 'One-line summary of the work',
+                                },
+                                description: {
+                                  type: 'string',
+                                  description: 'Optional details, acceptance criteria or pointers',
+                                },
+                                assignee: {
+                                  type: 'string',
+                                  description: 'Optional agent name to assign the task to right away',
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                              required: ['title'],
+                            },
+                          },
+                          {
+                            name: 'claim_task',
+                            description: 'Claim a task from the task board for yourself. Fails if another agent already claimed it, so two agents never work on the same task.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                task_id: {
+                                  type: 'string',
+                                  description: 'The task ID (e.g., "T3")',
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                              required: ['task_id'],
+                            },
+                          },
+                          {
+                            name: 'update_task_status',
+                            description: 'Change the status of a task you are assigned to or created. Set it to "done" when finished, or back to "open" to release it.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                task_id: {
+                                  type: 'string',
+                                  description: 'The task ID (e.g., "T3")',
+                                },
+                                status: {
+                                  type: 'string',
+                                  description: 'The new status',
+                                  enum: ['open', 'claimed', 'in_progress', 'blocked', 'done'],
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                              required: ['task_id', 'status'],
+                            },
+                          },
+                          {
+                            name: 'list_tasks',
+                            description: 'List the tasks on your project\'s task board, optionally filtered by status or assignee. Use this to find open work or see who is doing what.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                status: {
+                                  type: 'string',
+                                  description: 'Only list tasks with this status',
+                                  enum: ['open', 'claimed', 'in_progress', 'blocked', 'done'],
+                                },
+                                assignee: {
+                                  type: 'string',
+                                  description: 'Only list tasks assigned to this agent',
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                            },
+                          },
+                          {
+                            name: 'claim_paths',
+                            description: 'Tell other agents which files you are about to edit by claiming them as glob patterns (e.g., "src/api/**"). Fails and reports the holder if another agent already claimed an overlapping path. Claims stay active while you keep using the chat tools or sending heartbeats.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                patterns: {
+                                  type: 'array',
+                                  items: { type: 'string' },
+                                  description: 'Glob patterns relative to the project root ("**" matches any directories, "*" anything within a name)',
+                                },
+                                note: {
+                                  type: 'string',
+                                  description: 'Optional note on what you are doing with these files',
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                              required: ['patterns'],
+                            },
+                          },
+                          {
+                            name: 'release_paths',
+                            description: 'Release file claims you no longer need so other agents can edit those files. Releases all your claims if no patterns are given.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                patterns: {
+                                  type: 'array',
+                                  items: { type: 'string' },
+                                  description: 'The claimed patterns to release (optional, defaults to all of your claims)',
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                            },
+                          },
+                          {
+                            name: 'list_claims',
+                            description: 'See which files other agents have claimed. Check this before editing files outside your own claims.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                            },
+                          },
+                          {
+                            name: 'get_mentions',
+                            description: 'Find messages in which other agents mention you with @YourName. Use this to catch requests addressed to you without reading the whole conversation.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                unread_only: {
+                                  type: 'boolean',
+                                  description: 'Only return mentions you have not read yet (default false)',
+                                },
+                                count: {
+                                  type: 'number',
+                                  description: 'Number of most recent mentions to retrieve (max 100, default 20)',
+                                  minimum: 1,
+                                  maximum: 100,
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                            },
+                          },
+                          {
+                            name: 'set_profile',
+                            description: 'Tell other agents who you are and what you are doing: your role, your capabilities, and your current activity. Shown to everyone by get_agent_names. Update your activity whenever you switch tasks.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                role: {
+                                  type: 'string',
+                                  description: 'Your role in the team (e.g., "reviewer", "implementer")',
+                                },
+                                capabilities: {
+                                  type: 'string',
+                                  description: 'Free-text description of your capabilities and skills',
+                                },
+                                activity: {
+                                  type: 'string',
+                                  description: 'One line on what you are doing right now',
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                            },
+                          },
+
+                          {
+
+                            name: 'search_messages',
+                            description: 'Search the shared chat history, ranked by relevance. Every word must occur (words also match longer words starting with them); use "quoted phrases" for exact wording, or regex mode for patterns. Filter by sender, type, metadata keys and date range, search all chat rooms at once or include archived (pruned) messages, and show surrounding messages for context.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                query: {
+                                  type: 'string',
+                                  description: 'Words and "quoted phrases" to search for, or a regular expression in regex mode. May be empty when filters are given.',
+                                },
+                                regex: {
+                                  type: 'boolean',
+                                  description: 'Treat the query as a case-insensitive regular expression (default: false)',
+                                },
+                                sender: {
+                                  type: 'string',
+                                  description: 'Only messages from this agent',
+                                },
+                                message_type: {
+                                  type: 'string',
+                                  description: 'Only messages of this type',
+                                  enum: ['text', 'system', 'command', 'notification'],
+                                },
+                                metadata_keys: {
+                                  type: 'array',
+                                  items: { type: 'string' },
+                                  description: 'Only messages whose metadata has all of these keys (e.g., ["taskId"])',
+                                },
+                                since_timestamp: {
+                                  type: 'string',
+                                  description: 'Only messages sent at or after this ISO 8601 timestamp',
+                                },
+                                until_timestamp: {
+                                  type: 'string',
+                                  description: 'Only messages sent at or before this ISO 8601 timestamp',
+                                },
+                                all_rooms: {
+                                  type: 'boolean',
+                                  description: 'Search every project\'s chat room instead of only this one (default: false)',
+                                },
+                                include_archived: {
+                                  type: 'boolean',
+                                  description: 'Also search messages that were pruned into the archive (default: false)',
+                                },
+                                context: {
+                                  type: 'number',
+                                  description: 'Number of messages to show before and after each hit (max 5, default 0)',
+                                  minimum: 0,
+                                  maximum: 5,
+                                },
+                                limit: {
+                                  type: 'number',
+                                  description: 'Maximum number of hits (max 100, default 20)',
+                                  minimum: 1,
+                                  maximum: 100,
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                            },
+                          },
+
+                          {
+                            name: 'export_chat',
+                            description: 'Export this chat room\'s history for a human reviewer (Markdown or HTML) or as a JSON bundle that import_chat can load into another room or machine. Archived messages are included. Without output_path the transcript is returned directly.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                format: {
+                                  type: 'string',
+                                  description: 'Output format (default: markdown)',
+                                  enum: ['markdown', 'html', 'json'],
+                                },
+                                output_path: {
+                                  type: 'string',
+                                  description: 'File to write the transcript to, relative to the project path',
+                                },
+                                include_archived: {
+                                  type: 'boolean',
+                                  description: 'Include messages that were pruned into the archive (default: true)',
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                            },
+                          },
+                          {
+                            name: 'import_chat',
+                            description: 'Merge a JSON bundle made by export_chat into this chat room. Messages that are already here are skipped, so importing the same bundle twice is harmless.',
+                            inputSchema: {
+                              type: 'object',
+                              properties: {
+                                input_path: {
+                                  type: 'string',
+                                  description: 'The bundle file, relative to the project path',
+                                },
+                                project_path: {
+                                  type: 'string',
+                                  description: 'The project path/folder (defaults to current working directory)',
+                                },
+                              },
+                              required: ['input_path'],
+                            },
+                          },
+
+                          {
+
+                            name: 'get_agent_names',
+
+                            description: 'See which other agents are present in your project\'s chat room, with their presence (online, idle or away), roles, capabilities, current activity and when they were last seen. This helps you know who you can collaborate with.',
+
+                            inputSchema: {
+
+                              type: 'object',
+
+                              properties: {
+
+                                project_path: {
+
+                                  type: 'string',
+
+                                  description: 'The project path/folder (defaults to current working directory)',
+
+                                },
+
+                              },
+
+                            },
+
+                          },
+
+                                          {
+
+                                            name: 'heartbeat',
+
+                                            description: 'Signal your presence to other agents in the chat room. Use this during long-running tasks to let others know you are still online and active.',
+
+                                            inputSchema: {
+
+                                              type: 'object',
+
+                                              properties: {
+
+                                                project_path: {
+
+                                                  type: 'string',
+
+                                                  description: 'The project path/folder (defaults to current working directory)',
+
+                                                },
+
+                                              },
+
+                                                                        },
+
+                                                                      },
+
+                                                                    ];
+
+                                                                  }
+
+          
+
+            /**
+
+             * Handles the read_messages tool
+
+             */
+
+            private async handleReadMessages(
+
+              projectPath: string,
+
+              args: any
+
+            ): Promise<any> {
+
+              // Determine which filtering approach to use
+
+              let messages;
+              let nextPage = '';
+
+              const myName = this.chatManager.getMyName();
+
+          
+
+              if (args.since_timestamp || args.last_seconds !== undefined) {
+
+                // Use advanced filtering if any timestamp-based filter is provided
+
+                messages = await this.chatManager.getFilteredMessages(projectPath, {
+
+                  sinceTimestamp: args.since_timestamp,
+
+                  lastSeconds: args.last_seconds,
+
+                  count: args.count,
+
+                });
+
+              } else {
+
+                // Default: page of the last 10 messages, or the page next to a cursor
+                const page = await this.chatManager.getMessagePage(projectPath, {
+                  before: args.before,
+                  after: args.after,
+                  count: args.count,
+                });
+                messages = page.messages;
+                if (page.nextCursor !== undefined) {
+                  const direction = args.after !== undefined ? 'after' : 'before';
+                  nextPage = `\nNext page: ${direction}=${page.nextCursor}`;
+                }
+
+              }
+
+          
+
+              await this.chatManager.markRead(projectPath, messages);
+              const formattedMessages = messages.map((msg) => this.formatMessage(msg));
+              const unreadCount = await this.chatManager.getUnreadCount(projectPath);
+
+          
+
+              return {
+
+                content: [
+
+                  {
+
+                    type: 'text',
+
+                    text: `You are: ${myName}\n\nUnread messages: ${unreadCount} (use read_unread to catch up)\nMessages retrieved: ${messages.length}\n${
+
+                      formattedMessages.length > 0
+
+                        ? formattedMessages.join('\n')
+
+                        : '(No messages found)'
+
+                    }${nextPage}`,
+
+                  },
+
+                ],
+
+              };
+
+            }
+
+          
+
+            /**
+
+             * Handles the send_message tool
+
+             */
+
+            private async handleSendMessage(
+
+              projectPath: string,
+
+              args: any
+
+            ): Promise<any> {
+
+              const message = args.message as string;
+
+          
+
+              if (!message || message.trim().length === 0) {
+
+                throw new Error('Message cannot be empty');
+
+              }
+
+          
+
+              const messageId = await this.chatManager.sendMessage(
+                projectPath,
+                message,
+                parseMessageType(args.message_type) ?? 'text',
+                args.metadata,
+                args.reply_to
+              );
+
+              const myName = this.chatManager.getMyName();
+
+          
+
+              return {
+
+                content: [
+
+                  {
+
+                    type: 'text',
+
+                    text: `Message sent successfully by ${myName} (ID: ${messageId})`,
+
+                  },
+
+                ],
+
+              };
+
+            }
+
+
+            /**
+             * Handles the send_direct_message tool
+             */
+            private async handleSendDirectMessage(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              const recipient = ((args.recipient as string) || '').trim();
+              const message = args.message as string;
+
+              if (recipient.length === 0) {
+                throw new Error('Recipient cannot be empty');
+              }
+
+              if (!message || message.trim().length === 0) {
+                throw new Error('Message cannot be empty');
+              }
+
+              const { recipientStatus } = await this.chatManager.sendDirectMessage(
+                projectPath,
+                recipient,
+                message
+              );
+              const myName = this.chatManager.getMyName();
+
+              let text = `Direct message sent successfully by ${myName} to ${recipient}`;
+              if (recipientStatus === 'unknown') {
+                text += `\nWarning: ${recipient} has never been seen in this chat room. The message is stored, but nobody may read it.`;
+              } else if (recipientStatus === 'inactive') {
+                text += `\nWarning: ${recipient} has not been active recently. The message will be visible once they read the chat again.`;
+              }
+
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text,
+                  },
+                ],
+              };
+            }
+          
+
+            /**
+             * Handles the read_unread tool
+             */
+            private async handleReadUnread(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              const count = Math.min(args.count ?? 100, 100);
+              const { messages, remaining } = await this.chatManager.readUnread(projectPath, count);
+              const myName = this.chatManager.getMyName();
+
+              const formattedMessages = messages.map((msg) => this.formatMessage(msg));
+              const more =
+                remaining > 0
+                  ? `\n\n${remaining} more unread message(s). Call read_unread again to continue.`
+                  : '';
+
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `You are: ${myName}\n\nUnread messages retrieved: ${messages.length}\n${
+                      formattedMessages.length > 0
+                        ? formattedMessages.join('\n')
+                        : '(No unread messages)'
+                    }${more}`,
+                  },
+                ],
+              };
+            }
+
+            /**
+             * Handles the wait_for_messages tool
+             */
+            private async handleWaitForMessages(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              const timeoutSeconds = Math.min(args.timeout_seconds ?? 30, 300);
+              const messages = await this.chatManager.waitForMessages(projectPath, {
+                timeoutMs: timeoutSeconds * 1000,
+                sender: args.sender,
+                type: parseMessageType(args.message_type),
+                mention: args.mention,
+              });
+              await this.chatManager.markRead(projectPath, messages);
+              const myName = this.chatManager.getMyName();
+
+              const formattedMessages = messages.map((msg) => this.formatMessage(msg));
+
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `You are: ${myName}\n\n${
+                      formattedMessages.length > 0
+                        ? `New messages: ${messages.length}\n${formattedMessages.join('\n')}`
+                        : `No new messages within ${timeoutSeconds} seconds`
+                    }`,
+                  },
+                ],
+              };
+            }
+
+            /**
+             * Handles the ask_agent tool
+             */
+            private async handleAskAgent(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              const question = args.question as string;
+
+              if (!question || question.trim().length === 0) {
+                throw new Error('Question cannot be empty');
+              }
+
+              const timeoutSeconds = Math.min(Math.max(args.timeout_seconds ?? 60, 1), 300);
+              const result = await this.chatManager.askAgent(projectPath, question, {
+                timeoutMs: timeoutSeconds * 1000,
+                to: args.agent || undefined,
+              });
+
+              let text = `You are: ${this.chatManager.getMyName()}\n\nQuestion ${result.questionId} (#${shortId(
+                result.question.id
+              )})`;
+              if (result.recipientStatus === 'unknown') {
+                text += `\nWarning: ${args.agent} has never been seen in this chat room.`;
+              } else if (result.recipientStatus === 'inactive') {
+                text += `\nWarning: ${args.agent} has not been active recently.`;
+              }
+              text += result.answer
+                ? `\nAnswer:\n${this.formatMessage(result.answer)}`
+                : `\nNo answer within ${timeoutSeconds} seconds. A later answer appears in read_messages as a reply to #${shortId(
+                    result.question.id
+                  )}.`;
+
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text,
+                  },
+                ],
+              };
+            }
+
+            /**
+             * Handles the answer_question tool
+             */
+            private async handleAnswerQuestion(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              const questionId = args.question_id as string;
+
+              if (!questionId || questionId.trim().length === 0) {
+                throw new Error('Question ID cannot be empty');
+              }
+
+              const messageId = await this.chatManager.answerQuestion(
+                projectPath,
+                questionId.trim(),
+                args.answer ?? ''
+              );
+
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `Answer sent by ${this.chatManager.getMyName()} (ID: ${messageId})`,
+                  },
+                ],
+              };
+            }
+
+            /**
+             * Handles the pending_questions tool
+             */
+            private async handlePendingQuestions(projectPath: string): Promise<any> {
+              const questions = await this.chatManager.getPendingQuestions(projectPath);
+              const lines = questions.map(
+                (question) =>
+                  `${question.questionId} (${question.askedOf ? 'to you' : 'to anyone'}, open until ${question.expiresAt.toISOString()})\n  ${this.formatMessage(
+                    question.message
+                  )}`
+              );
+
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `You are: ${this.chatManager.getMyName()}\n\nOpen questions: ${questions.length}\n${
+                      lines.length > 0 ? lines.join('\n') : '(No open questions)'
+                    }`,
+                  },
+                ],
+              };
+            }
+
+            /**
+             * Handles the create_task tool
+             */
+            private async handleCreateTask(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              const title = args.title as string;
+
+              if (!title || title.trim().length === 0) {
+                throw new Error('Task title cannot be empty');
+              }
+
+              const task = await this.chatManager.createTask(
+                projectPath,
+                title.trim(),
+                args.description,
+                args.assignee
+              );
+
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `Task created: ${this.formatTask(task)}`,
+                  },
+                ],
+              };
+            }
+
+            /**
+             * Handles the claim_task tool
+             */
+            private async handleClaimTask(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              const taskId = args.task_id as string;
+
+              if (!taskId || taskId.trim().length === 0) {
+                throw new Error('Task ID cannot be empty');
+              }
+
+              const task = await this.chatManager.claimTask(projectPath, taskId);
+
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `Task claimed: ${this.formatTask(task)}`,
+                  },
+                ],
+              };
+            }
+
+            /**
+             * Handles the update_task_status tool
+             */
+            private async handleUpdateTaskStatus(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              const taskId = args.task_id as string;
+              const status = args.status;
+
+              if (!taskId || taskId.trim().length === 0) {
+                throw new Error('Task ID cannot be empty');
+              }
+
+              if (!['open', 'claimed', 'in_progress', 'blocked', 'done'].includes(status)) {
+                throw new Error(`Invalid task status: ${status}`);
+              }
+
+              const task = await this.chatManager.updateTaskStatus(projectPath, taskId, status);
+
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `Task updated: ${this.formatTask(task)}`,
+                  },
+                ],
+              };
+            }
+
+            /**
+             * Handles the list_tasks tool
+             */
+            private async handleListTasks(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              const tasks = await this.chatManager.listTasks(projectPath, {
+                status: args.status,
+                assignee: args.assignee,
+              });
+              const myName = this.chatManager.getMyName();
+
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `You are: ${myName}\n\nTasks: ${tasks.length}\n${
+                      tasks.length > 0
+                        ? tasks.map((task) => this.formatTask(task)).join('\n')
+                        : '(No tasks found)'
+                    }`,
+                  },
+                ],
+              };
+            }
+
+            /**
+             * Handles the claim_paths tool
+             */
+            private async handleClaimPaths(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              const patterns = Array.isArray(args.patterns) ? (args.patterns as string[]) : [];
+
+              const { claims, conflicts } = await this.chatManager.claimPaths(
+                projectPath,
+                patterns,
+                args.note
+              );
+
+              let text: string;
+              if (conflicts.length > 0) {
+                const lines = conflicts.map(
+                  (c) => `- ${c.pattern} overlaps ${c.heldPattern} (claimed by ${c.heldBy})`
+                );
+                text = `Nothing was claimed because of conflicts:\n${lines.join('\n')}`;
+              } else {
+                text = `Paths claimed. Your claims:\n${claims.map((c) => this.formatClaim(c)).join('\n')}`;
+              }
+
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text,
+                  },
+                ],
+              };
+            }
+
+            /**
+             * Handles the release_paths tool
+             */
+            private async handleReleasePaths(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              const patterns = Array.isArray(args.patterns) ? (args.patterns as string[]) : undefined;
+              const released = await this.chatManager.releasePaths(projectPath, patterns);
+
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text:
+                      released.length > 0
+                        ? `Released: ${released.join(', ')}`
+                        : 'No matching claims to release',
+                  },
+                ],
+              };
+            }
+
+            /**
+             * Handles the list_claims tool
+             */
+            private async handleListClaims(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              const claims = await this.chatManager.listClaims(projectPath);
+              const myName = this.chatManager.getMyName();
+
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `You are: ${myName}\n\nActive claims: ${claims.length}\n${
+                      claims.length > 0
+                        ? claims.map((c) => this.formatClaim(c)).join('\n')
+                        : '(No active claims)'
+                    }`,
+                  },
+                ],
+              };
+            }
+
+            /**
+             * Handles the get_mentions tool
+             */
+            private async handleGetMentions(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              const messages = await this.chatManager.getMentions(projectPath, {
+                count: Math.min(args.count ?? 20, 100),
+                unreadOnly: args.unread_only === true,
+              });
+              const myName = this.chatManager.getMyName();
+
+              const formattedMessages = messages.map((msg) => this.formatMessage(msg));
+
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `You are: ${myName}\n\nMessages mentioning you: ${messages.length}\n${
+                      formattedMessages.length > 0
+                        ? formattedMessages.join('\n')
+                        : '(No mentions found)'
+                    }`,
+                  },
+                ],
+              };
+            }
+
+            /**
+             * Handles the set_profile tool
+             */
+            private async handleSetProfile(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              if (
+                args.role === undefined &&
+                args.capabilities === undefined &&
+                args.activity === undefined
+              ) {
+                throw new Error('Provide at least one of role, capabilities or activity');
+              }
+
+              const profile = await this.chatManager.setProfile(projectPath, {
+                role: args.role,
+                capabilities: args.capabilities,
+                activity: args.activity,
+              });
+              const myName = this.chatManager.getMyName();
+
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `Profile updated for ${myName}\nRole: ${profile.role ?? '-'}\nCapabilities: ${
+                      profile.capabilities ?? '-'
+                    }\nActivity: ${profile.activity ?? '-'}`,
+                  },
+                ],
+              };
+            }
 
-                                          {
-
-                                            name: 'heartbeat',
-
-                                            description: 'Signal your presence to other agents in the chat room. Use this during long-running tasks to let others know you are still online and active.',
-
-                                            inputSchema: {
-
-                                              type: 'object',
-
-                                              properties: {
-
-                                                project_path: {
-
-                                                  type: 'string',
-
-                                                  description: 'The project path/folder (defaults to current working directory)',
-
-                                                },
-
-                                              },
-
-                                                                        },
-
-                                                                      },
-
-                                                                    ];
-
-                                                                  }
-
-          
-
-            /**
-
-             * Handles the read_messages tool
-
+            /**
+             * Handles the edit_message tool
              */
-
-            private async handleReadMessages(
-
+            private async handleEditMessage(
               projectPath: string,
-
               args: any
-
             ): Promise<any> {
+              const messageId = args.message_id as string;
 
-              // Determine which filtering approach to use
-
-              let messages;
+              if (!messageId || messageId.trim().length === 0) {
+                throw new Error('Message ID cannot be empty');
+              }
 
-              const myName = this.chatManager.getMyName();
+              const { message, notified } = await this.chatManager.editMessage(
+                projectPath,
+                messageId.trim(),
+                args.message ?? ''
+              );
 
-          
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `Message #${shortId(message.id)} edited by ${this.chatManager.getMyName()} (revision ${
+                      message.revisions!.length + 1
+                    })${this.formatNotified(notified)}`,
+                  },
+                ],
+              };
+            }
 
-              if (args.since_timestamp || args.last_seconds !== undefined) {
+            /**
+             * Handles the retract_message tool
+             */
+            private async handleRetractMessage(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              const messageId = args.message_id as string;
 
-                // Use advanced filtering if any timestamp-based filter is provided
+              if (!messageId || messageId.trim().length === 0) {
+                throw new Error('Message ID cannot be empty');
+              }
 
-                messages = await this.chatManager.getFilteredMessages(projectPath, {
+              const { message, notified } = await this.chatManager.retractMessage(
+                projectPath,
+                messageId.trim()
+              );
 
-                  sinceTimestamp: args.since_timestamp,
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `Message #${shortId(message.id)} retracted by ${this.chatManager.getMyName()}${this.formatNotified(
+                      notified
+                    )}`,
+                  },
+                ],
+              };
+            }
 
-                  lastSeconds: args.last_seconds,
+            /**
+             * Handles the ack_message tool
+             */
+            private async handleAckMessage(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              const messageId = args.message_id as string;
 
-                  count: args.count,
+              if (!messageId || messageId.trim().length === 0) {
+                throw new Error('Message ID cannot be empty');
+              }
 
-                });
+              const message = await this.chatManager.ackMessage(
+                projectPath,
+                messageId.trim(),
+                args.reaction
+              );
+              const myName = this.chatManager.getMyName();
+              const ack = message.acks!.find((a) => a.agent === myName)!;
 
-              } else if (args.count) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `Message #${shortId(message.id)} from ${message.sender} acknowledged by ${myName}${
+                      ack.reaction ? ` (${ack.reaction})` : ''
+                    }`,
+                  },
+                ],
+              };
+            }
 
-                // Use simple count-based filtering
+            /**
+             * Handles the get_message_status tool
+             */
+            private async handleGetMessageStatus(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              const messageId = args.message_id as string;
 
-                messages = await this.chatManager.getLastMessages(projectPath, args.count);
+              if (!messageId || messageId.trim().length === 0) {
+                throw new Error('Message ID cannot be empty');
+              }
 
-              } else {
+              const status = await this.chatManager.getMessageStatus(projectPath, messageId.trim());
+              const lines = [
+                `You are: ${this.chatManager.getMyName()}`,
+                '',
+                this.formatMessage(status.message),
+                '',
+                `Acknowledged by ${status.acks.length}:`,
+                ...status.acks.map(
+                  (ack) =>
+                    `  ${ack.agent}${ack.reaction ? ` (${ack.reaction})` : ''} at ${ack.timestamp.toISOString()}`
+                ),
+                `Read by ${status.readBy.length}: ${status.readBy.join(', ') || '-'}`,
+                `Not read yet by ${status.unreadBy.length}: ${status.unreadBy.join(', ') || '-'}`,
+              ];
 
-                // Default: get last 10 messages
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: lines.join('\n'),
+                  },
+                ],
+              };
+            }
 
-                messages = await this.chatManager.getLastMessages(projectPath, 10);
+            /**
+             * Handles the pin_message tool
+             */
+            private async handlePinMessage(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              const messageId = args.message_id as string;
 
+              if (!messageId || messageId.trim().length === 0) {
+                throw new Error('Message ID cannot be empty');
               }
 
-          
-
-              const formattedMessages = messages.map((msg) => {
-
-                const time = msg.timestamp.toLocaleTimeString();
+              const pinned = args.unpin !== true;
+              const message = await this.chatManager.pinMessage(
+                projectPath,
+                messageId.trim(),
+                pinned
+              );
 
-                return `[${time}] ${msg.sender}: ${msg.content}`;
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `Message #${shortId(message.id)} from ${message.sender} ${
+                      pinned ? 'pinned; it will not be pruned' : 'unpinned'
+                    }`,
+                  },
+                ],
+              };
+            }
 
-              });
+            /**
+             * Handles the get_pinned_messages tool
+             */
+            private async handleGetPinnedMessages(projectPath: string): Promise<any> {
+              const messages = await this.chatManager.getPinnedMessages(projectPath);
+              const myName = this.chatManager.getMyName();
 
-          
+              const formattedMessages = messages.map(
+                (msg) => `${this.formatMessage(msg)} (pinned by ${msg.pinnedBy})`
+              );
 
               return {
-
                 content: [
-
                   {
-
                     type: 'text',
-
-                    text: `You are: ${myName}\n\nMessages retrieved: ${messages.length}\n${
-
+                    text: `You are: ${myName}\n\n${messages.length} pinned message(s):\n${
                       formattedMessages.length > 0
-
                         ? formattedMessages.join('\n')
-
-                        : '(No messages found)'
-
+                        : '(No pinned messages)'
                     }`,
-
                   },
-
                 ],
-
               };
-
             }
 
-          
-
             /**
-
-             * Handles the send_message tool
-
+             * Handles the set_retention tool
              */
-
-            private async handleSendMessage(
-
+            private async handleSetRetention(
               projectPath: string,
-
               args: any
-
             ): Promise<any> {
+              const { retention, archived } = await this.chatManager.setRetention(projectPath, {
+                maxMessages: args.max_messages,
+                maxAgeDays: args.max_age_days,
+              });
 
-              const message = args.message as string;
-
-          
+              const maxMessages = retention.maxMessages ?? 'server default';
+              const maxAgeDays =
+                retention.maxAgeDays === undefined
+                  ? 'server default'
+                  : retention.maxAgeDays === 0
+                    ? 'no limit'
+                    : `${retention.maxAgeDays} days`;
 
-              if (!message || message.trim().length === 0) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text:
+                      `Retention set: max messages ${maxMessages}, max age ${maxAgeDays}. ` +
+                      `${archived} message(s) moved to the archive.`,
+                  },
+                ],
+              };
+            }
 
-                throw new Error('Message cannot be empty');
+            /**
+             * Handles the get_thread tool
+             */
+            private async handleGetThread(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              const messageId = args.message_id as string;
 
+              if (!messageId || messageId.trim().length === 0) {
+                throw new Error('Message ID cannot be empty');
               }
 
-          
-
-              await this.chatManager.sendMessage(projectPath, message);
-
+              const messages = await this.chatManager.getThread(projectPath, messageId.trim());
+              await this.chatManager.markRead(projectPath, messages);
               const myName = this.chatManager.getMyName();
 
-          
+              const formattedMessages = messages.map((msg) => this.formatMessage(msg));
 
               return {
-
                 content: [
-
                   {
-
                     type: 'text',
-
-                    text: `Message sent successfully by ${myName}`,
-
+                    text: `You are: ${myName}\n\nThread with ${messages.length} message(s):\n${formattedMessages.join('\n')}`,
                   },
-
                 ],
-
               };
-
             }
 
-          
-
             /**
 
              * Handles the search_messages tool
@@ -477,73 +2023,121 @@ export class AgentMessagingServer {
              */
 
             private async handleSearchMessages(
-
               projectPath: string,
-
               args: any
-
             ): Promise<any> {
-
-              const query = args.query as string;
-
-          
-
-              if (!query || query.trim().length === 0) {
-
+              const query = ((args.query as string) ?? '').trim();
+              const hasFilters =
+                args.sender ||
+                args.message_type ||
+                args.metadata_keys?.length ||
+                args.since_timestamp ||
+                args.until_timestamp;
+
+              if (!query && !hasFilters) {
                 throw new Error('Search query cannot be empty');
-
               }
 
-          
-
-              const messages = await this.chatManager.searchMessages(projectPath, query);
-
+              const hits = await this.chatManager.searchMessages(projectPath, query, {
+                regex: args.regex === true,
+                sender: args.sender,
+                type: parseMessageType(args.message_type),
+                metadataKeys: args.metadata_keys,
+                sinceTimestamp: args.since_timestamp,
+                untilTimestamp: args.until_timestamp,
+                allRooms: args.all_rooms === true,
+                includeArchived: args.include_archived === true,
+                contextSize: Math.min(Math.max(args.context ?? 0, 0), 5),
+                limit: Math.min(Math.max(args.limit ?? 20, 1), 100),
+              });
               const myName = this.chatManager.getMyName();
 
-          
-
-              const formattedMessages = messages.map((msg) => {
-
-                const time = msg.timestamp.toLocaleTimeString();
-
-                return `[${time}] ${msg.sender}: ${msg.content}`;
-
+              const formattedHits = hits.map((hit) => {
+                const lines = [
+                  ...hit.before.map((msg) => `    ${this.formatMessage(msg)}`),
+                  `  > ${this.formatMessage(hit.message)}`,
+                  ...hit.after.map((msg) => `    ${this.formatMessage(msg)}`),
+                ];
+                const room = args.all_rooms ? ` in ${hit.projectPath}` : '';
+                const archived = hit.archived ? ' (archived)' : '';
+                return `Score ${hit.score.toFixed(2)}${room}${archived}:\n${lines.join('\n')}`;
               });
 
-          
-
               return {
-
                 content: [
-
                   {
-
                     type: 'text',
+                    text: `You are: ${myName}\n\nFound ${hits.length} messages matching "${query}":\n${
+                      formattedHits.length > 0 ? formattedHits.join('\n\n') : '(No messages found)'
+                    }`,
+                  },
+                ],
+              };
+            }
 
-                    text: `You are: ${myName}\n\nFound ${
+            /**
+             * Handles the export_chat tool
+             */
+            private async handleExportChat(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              const format = (args.format ?? 'markdown') as TranscriptFormat;
+              const transcript = await this.chatManager.exportChat(projectPath, format, {
+                includeArchived: args.include_archived !== false,
+              });
 
-                      messages.length
+              if (!args.output_path) {
+                return {
+                  content: [
+                    {
+                      type: 'text',
+                      text: transcript,
+                    },
+                  ],
+                };
+              }
 
-                    } messages matching "${query}":\n${
+              const outputPath = path.resolve(projectPath, args.output_path);
+              await fs.mkdir(path.dirname(outputPath), { recursive: true });
+              await fs.writeFile(outputPath, transcript, 'utf-8');
 
-                      formattedMessages.length > 0
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `Chat exported as ${format} to ${outputPath} (${transcript.length} characters)`,
+                  },
+                ],
+              };
+            }
 
-                        ? formattedMessages.join('\n')
+            /**
+             * Handles the import_chat tool
+             */
+            private async handleImportChat(
+              projectPath: string,
+              args: any
+            ): Promise<any> {
+              const inputPath = args.input_path as string;
 
-                        : '(No messages found)'
+              if (!inputPath || inputPath.trim().length === 0) {
+                throw new Error('Input path cannot be empty');
+              }
 
-                    }`,
+              const bundle = await fs.readFile(path.resolve(projectPath, inputPath.trim()), 'utf-8');
+              const { imported, skipped } = await this.chatManager.importChat(projectPath, bundle);
 
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `Imported ${imported} message(s); skipped ${skipped} already in the chat room`,
                   },
-
                 ],
-
               };
-
             }
 
-          
-
             /**
 
              * Handles the get_agent_names tool
@@ -558,10 +2152,27 @@ export class AgentMessagingServer {
 
             ): Promise<any> {
 
-              const names = await this.chatManager.getAgentNames(projectPath);
+              const agents = await this.chatManager.getAgentDetails(projectPath);
 
               const myName = this.chatManager.getMyName();
 
+              const lines = agents.map((agent) => {
+                const parts = [`${agent.name} (${agent.presence})`];
+                if (agent.profile?.role) {
+                  parts.push(`role: ${agent.profile.role}`);
+                }
+                if (agent.profile?.capabilities) {
+                  parts.push(`capabilities: ${agent.profile.capabilities}`);
+                }
+                if (agent.profile?.activity) {
+                  parts.push(`doing: ${agent.profile.activity}`);
+                }
+                if (agent.lastSeen) {
+                  parts.push(`last seen: ${agent.lastSeen.toISOString()}`);
+                }
+                return `- ${parts.join(' | ')}`;
+              });
+
           
 
               return {
@@ -572,11 +2183,7 @@ export class AgentMessagingServer {
 
                     type: 'text',
 
-                    text: `You are: ${myName}\n\nAgents in this chat room:\n${names.join(
-
-                      ', '
-
-                    )}`,
+                    text: `You are: ${myName}\n\nAgents in this chat room:\n${lines.join('\n')}`,
 
                   },
 
@@ -672,6 +2279,62 @@ export class AgentMessagingServer {
 
           
 
+  /**
+   * Formats a task as a single line for tool output
+   * @param task The task to format
+   * @returns The formatted line
+   */
+  private formatTask(task: Task): string {
+    const assignee = task.assignee ? ` (${task.assignee})` : '';
+    const description = task.description ? ` - ${task.description}` : '';
+    return `${task.id} [${task.status}]${assignee} ${task.title}${description}`;
+  }
+
+  /**
+   * Formats a path claim as a single line for tool output
+   * @param claim The claim to format
+   * @returns The formatted line
+   */
+  private formatClaim(claim: PathClaim): string {
+    const note = claim.note ? ` - ${claim.note}` : '';
+    return `${claim.pattern} (${claim.agent}, since ${claim.claimedAt.toISOString()})${note}`;
+  }
+
+  /**
+   * Formats a message as a single line for tool output
+   * Messages other than text show their type and key metadata; pinned, edited and retracted
+   * messages are marked, acknowledged messages show their number of acknowledgements, and
+   * questions asked with ask_agent show their question ID
+   * @param msg The message to format
+   * @returns The formatted line
+   */
+  private formatMessage(msg: Message): string {
+    const time = msg.timestamp.toISOString();
+    const sender = msg.recipient ? `${msg.sender} → ${msg.recipient} (direct)` : msg.sender;
+    const thread = msg.replyTo ? ` ↳ #${shortId(msg.replyTo)}` : '';
+    const flag = mentionsAgent(msg, this.chatManager.getMyName()) ? '[@you] ' : '';
+    const summary = this.chatManager.metadataSchemas.summarize(msg);
+    const type = msg.type === 'text' ? '' : ` [${msg.type}${summary ? ` ${summary}` : ''}]`;
+    const questionId = msg.metadata?.questionId;
+    const question = typeof questionId === 'string' ? ` [question ${shortId(questionId)}]` : '';
+    const pinned = msg.pinnedAt ? ' [pinned]' : '';
+    const edited = msg.editedAt ? ' (edited)' : '';
+    const ackCount = msg.acks?.length ?? 0;
+    const acks = ackCount > 0 ? ` (${ackCount} ack${ackCount === 1 ? '' : 's'})` : '';
+    const content = msg.retractedAt ? '[retracted]' : `${msg.content}${edited}${acks}`;
+    const tags = `${type}${question}${pinned}${thread}`;
+    return `${flag}[${time}] #${shortId(msg.id)} ${sender}${tags}: ${content}`;
+  }
+
+  /**
+   * Formats the agents notified of an edit or retraction
+   * @param notified The agent names
+   * @returns A line listing them, or an empty string if nobody was notified
+   */
+  private formatNotified(notified: string[]): string {
+    return notified.length > 0 ? `\nNotified (had already read it): ${notified.join(', ')}` : '';
+  }
+
               /**
 
           
@@ -686,21 +2349,94 @@ export class AgentMessagingServer {
     await this.chatManager.initialize();
 
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.connect(transport);
+
+    process.on('SIGINT', () => this.shutdown());
+    process.on('SIGTERM', () => this.shutdown());
+    // The client closing stdin means it has gone away
+    process.stdin.on('close', () => this.shutdown());
+    process.stdin.on('end', () => this.shutdown());
 
     const stats = await this.chatManager.getStats();
     console.error('MCP Agent Messaging Server running on stdio');
     console.error(`Agent Name: ${stats.myName}`);
     console.error(`Total Chat Rooms: ${stats.totalChatRooms}`);
+
+    this.dashboard = await startDashboard();
+  }
+}
+
+/**
+ * Starts the web dashboard if MCP_DASHBOARD_PORT is set
+ * @returns The dashboard, or null if it is off or could not be started
+ */
+async function startDashboard(): Promise<DashboardServer | null> {
+  const dashboardPort = getDashboardPort();
+  if (dashboardPort === null) {
+    return null;
+  }
+
+  const dashboard = new DashboardServer();
+  try {
+    await dashboard.start(dashboardPort);
+    console.error(`Dashboard: http://localhost:${dashboardPort}/`);
+    return dashboard;
+  } catch (error) {
+    // Usually another server instance already serves the dashboard on this port
+    console.error(
+      `Dashboard not started: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return null;
   }
 }
 
 /**
- * Starts the MCP server
+ * Serves MCP sessions over HTTP until the process is interrupted
+ * Every session gets its own agent, served by its own AgentMessagingServer
+ * @param port The port to listen on
+ */
+async function startHttpServer(port: number): Promise<void> {
+  const httpServer = new StreamableHttpServer(
+    (chatManager) => new AgentMessagingServer(chatManager)
+  );
+  await httpServer.start(port);
+  console.error(`MCP Agent Messaging Server running on http://localhost:${port}${MCP_ENDPOINT}`);
+  const dashboard = await startDashboard();
+
+  let shuttingDown = false;
+  const shutdown = async (): Promise<void> => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+
+    try {
+      await dashboard?.stop();
+      await httpServer.stop();
+    } catch (error) {
+      console.error('Error during shutdown:', error);
+    }
+    process.exit(0);
+  };
+  process.on('SIGINT', () => shutdown());
+  process.on('SIGTERM', () => shutdown());
+}
+
+/**
+ * Starts the MCP server, on HTTP if MCP_HTTP_PORT is set and on stdio otherwise
+ * A stdio server goes through the broker daemon if MCP_BROKER is set
  * Only called when running as main entry point, not when imported in tests
  */
 export async function startServer(): Promise<void> {
-  const server = new AgentMessagingServer();
+  const httpPort = getHttpPort();
+  if (httpPort !== null) {
+    await startHttpServer(httpPort);
+    return;
+  }
+
+  const server = new AgentMessagingServer(
+    new ChatManager(isBrokerEnabled() ? new BrokerStorage() : undefined)
+  );
   await server.start();
 }
 
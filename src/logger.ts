@@ -5,6 +5,36 @@
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
+/**
+ * Severity order of the log levels
+ */
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Least severe level that is logged
+ * Default: debug, or the MCP_LOG_LEVEL environment variable
+ */
+let minimumLevel: LogLevel = LOG_LEVELS.includes(process.env.MCP_LOG_LEVEL as LogLevel)
+  ? (process.env.MCP_LOG_LEVEL as LogLevel)
+  : 'debug';
+
+/**
+ * Sets the least severe level that is logged, for all loggers
+ * @param level The log level
+ */
+export function setLogLevel(level: LogLevel): void {
+  minimumLevel = level;
+}
+
+/**
+ * Checks whether messages of a level are logged
+ * @param level The log level
+ * @returns Whether the level is at least as severe as the minimum level
+ */
+function isLogged(level: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimumLevel);
+}
+
 export interface LogEntry {
   timestamp: string;
   level: LogLevel;
@@ -128,7 +158,7 @@ export class Logger {
       ...(data && { data }),
     };
 
-    if (this.enableConsole) {
+    if (this.enableConsole && isLogged(level)) {
       const prefix = `[${entry.timestamp}] [${level.toUpperCase()}] [${this.component}]`;
       const args: (string | Record<string, unknown>)[] = [prefix, entry.message];
       if (data) {
@@ -170,7 +200,7 @@ export class Logger {
       ...(data && { data }),
     };
 
-    if (this.enableConsole) {
+    if (this.enableConsole && isLogged(level)) {
       const prefix = `[${entry.timestamp}] [${level.toUpperCase()}] [${this.component}] (+${duration}ms)`;
       const args: (string | Record<string, unknown>)[] = [prefix, entry.message];
       if (data) {
@@ -0,0 +1,251 @@
+/**
+ * In-memory storage backend
+ * Keeps everything in the current process, for tests and for embedding the chat in a single process.
+ * ChatManagers sharing one InMemoryStorage see each other's messages like separate server
+ * instances sharing a data directory.
+ */
+
+import { AgentIdentity, ChatRoom, Message, TaskBoard } from './types.js';
+import { AgentNamer } from './agent-namer.js';
+import { LockManager } from './async-lock.js';
+import { SerializedSearchIndex } from './search-index.js';
+import { cloneChatRoom, createEmptyChatRoom } from './room-log.js';
+import {
+  StorageBackend,
+  assignSequenceNumbers,
+  validateReplyReferences,
+} from './storage-backend.js';
+
+/**
+ * Copies a task board so the copy can be changed without affecting the original
+ * @param taskBoard The task board
+ * @returns The copy
+ */
+function cloneTaskBoard(taskBoard: TaskBoard): TaskBoard {
+  return { ...taskBoard, tasks: taskBoard.tasks.map((task) => ({ ...task })) };
+}
+
+/**
+ * Storage backend that keeps chat rooms, task boards and agent identities in memory
+ */
+export class InMemoryStorage implements StorageBackend {
+  private chatRooms: Map<string, ChatRoom> = new Map();
+  private archives: Map<string, Message[]> = new Map();
+  private taskBoards: Map<string, TaskBoard> = new Map();
+  private searchIndexes: Map<string, SerializedSearchIndex> = new Map();
+  /** Stable identities by identity key */
+  private keyedIdentities: Map<string, AgentIdentity> = new Map();
+  /** Names of the identities currently in use */
+  private activeNames: Set<string> = new Set();
+  /** Change listeners by project path */
+  private watchers: Map<string, Set<() => void>> = new Map();
+  /** Serializes updates of the same chat room or task board */
+  private locks: LockManager = new LockManager();
+
+  /**
+   * Loads a chat room
+   * @param projectPath The project path
+   * @returns A copy of the chat room or null if not found
+   */
+  async loadChatRoom(projectPath: string): Promise<ChatRoom | null> {
+    const chatRoom = this.chatRooms.get(projectPath);
+    return chatRoom ? cloneChatRoom(chatRoom) : null;
+  }
+
+  /**
+   * Atomically updates a chat room, creating it if needed
+   * The stored chat room only changes if updateFn succeeds
+   * @param projectPath The project path
+   * @param updateFn Function that modifies the chat room
+   * @returns A copy of the updated chat room
+   */
+  async atomicUpdateChatRoom(
+    projectPath: string,
+    updateFn: (chatRoom: ChatRoom) => void | Promise<void>
+  ): Promise<ChatRoom> {
+    const updated = await this.locks.runExclusive(`room:${projectPath}`, async () => {
+      const stored = this.chatRooms.get(projectPath) ?? createEmptyChatRoom(projectPath);
+      const chatRoom = cloneChatRoom(stored);
+
+      await updateFn(chatRoom);
+
+      // Reject replies to messages that are not part of this chat room
+      validateReplyReferences(chatRoom, new Set(stored.messages.map((msg) => msg.id)));
+      assignSequenceNumbers(chatRoom);
+
+      this.chatRooms.set(projectPath, chatRoom);
+      return cloneChatRoom(chatRoom);
+    });
+
+    for (const onChange of this.watchers.get(projectPath) ?? []) {
+      onChange();
+    }
+    return updated;
+  }
+
+  /**
+   * Watches a chat room for updates
+   * @param projectPath The project path
+   * @param onChange Called after every update of the chat room
+   * @returns Function that stops watching
+   */
+  async watchChatRoom(projectPath: string, onChange: () => void): Promise<() => void> {
+    let listeners = this.watchers.get(projectPath);
+    if (!listeners) {
+      listeners = new Set();
+      this.watchers.set(projectPath, listeners);
+    }
+    listeners.add(onChange);
+
+    return () => {
+      listeners.delete(onChange);
+    };
+  }
+
+  /**
+   * Lists all stored chat rooms
+   * @returns Array of project paths
+   */
+  async listSavedChatRooms(): Promise<string[]> {
+    return [...this.chatRooms.keys()];
+  }
+
+  /**
+   * Deletes a chat room
+   * @param projectPath The project path
+   */
+  async deleteChatRoom(projectPath: string): Promise<void> {
+    this.chatRooms.delete(projectPath);
+    this.archives.delete(projectPath);
+    this.searchIndexes.delete(projectPath);
+  }
+
+  /**
+   * Adds pruned messages to a chat room's archive
+   * @param projectPath The project path
+   * @param messages The pruned messages
+   */
+  async archiveMessages(projectPath: string, messages: Message[]): Promise<void> {
+    const archive = this.archives.get(projectPath) ?? [];
+    const archivedIds = new Set(archive.map((msg) => msg.id));
+    this.archives.set(projectPath, [
+      ...archive,
+      ...messages.filter((msg) => !archivedIds.has(msg.id)),
+    ]);
+  }
+
+  /**
+   * Loads the archived messages of a chat room
+   * @param projectPath The project path
+   * @returns The messages in the order they were archived
+   */
+  async loadArchivedMessages(projectPath: string): Promise<Message[]> {
+    return (this.archives.get(projectPath) ?? []).slice();
+  }
+
+  /**
+   * Loads a task board
+   * @param projectPath The project path
+   * @returns A copy of the task board or null if not found
+   */
+  async loadTaskBoard(projectPath: string): Promise<TaskBoard | null> {
+    const taskBoard = this.taskBoards.get(projectPath);
+    return taskBoard ? cloneTaskBoard(taskBoard) : null;
+  }
+
+  /**
+   * Atomically updates a task board, creating it if needed
+   * The stored task board only changes if updateFn succeeds
+   * @param projectPath The project path
+   * @param updateFn Function that modifies the task board
+   * @returns A copy of the updated task board
+   */
+  async atomicUpdateTaskBoard(
+    projectPath: string,
+    updateFn: (taskBoard: TaskBoard) => void | Promise<void>
+  ): Promise<TaskBoard> {
+    return this.locks.runExclusive(`tasks:${projectPath}`, async () => {
+      const stored = this.taskBoards.get(projectPath) ?? {
+        projectPath,
+        tasks: [],
+        nextTaskNumber: 1,
+      };
+      const taskBoard = cloneTaskBoard(stored);
+
+      await updateFn(taskBoard);
+
+      this.taskBoards.set(projectPath, taskBoard);
+      return cloneTaskBoard(taskBoard);
+    });
+  }
+
+  /**
+   * Loads the saved search index of a chat room
+   * @param projectPath The project path
+   * @returns The saved index or null if none was saved
+   */
+  async loadSearchIndex(projectPath: string): Promise<SerializedSearchIndex | null> {
+    return this.searchIndexes.get(projectPath) ?? null;
+  }
+
+  /**
+   * Saves the search index of a chat room
+   * @param projectPath The project path
+   * @param index The index
+   */
+  async saveSearchIndex(projectPath: string, index: SerializedSearchIndex): Promise<void> {
+    this.searchIndexes.set(projectPath, index);
+  }
+
+  /**
+   * Loads or creates the identity of an agent
+   * An identity key that is in use by another agent gets a fresh identity instead
+   * @param namer The agent namer to use for creating new identities
+   * @param identityKey Optional key identifying the logical agent
+   * @returns The agent identity
+   */
+  async loadOrCreateIdentity(namer: AgentNamer, identityKey?: string): Promise<AgentIdentity> {
+    const stored = identityKey ? this.keyedIdentities.get(identityKey) : undefined;
+    if (stored && !this.activeNames.has(stored.name)) {
+      this.activeNames.add(stored.name);
+      return { ...stored };
+    }
+
+    for (const name of this.activeNames) {
+      await namer.registerUsedName(name);
+    }
+    for (const identity of this.keyedIdentities.values()) {
+      await namer.registerUsedName(identity.name);
+    }
+
+    const identity: AgentIdentity = {
+      name: await namer.assignName(),
+      createdAt: new Date(),
+    };
+    this.activeNames.add(identity.name);
+    if (identityKey && !stored) {
+      this.keyedIdentities.set(identityKey, identity);
+    }
+    return { ...identity };
+  }
+
+  /**
+   * Saves changes to an identity
+   * @param identity The agent identity
+   */
+  async saveIdentity(identity: AgentIdentity): Promise<void> {
+    for (const [identityKey, stored] of this.keyedIdentities) {
+      if (stored.name === identity.name) {
+        this.keyedIdentities.set(identityKey, { ...identity });
+      }
+    }
+  }
+
+  /**
+   * Releases an identity, so another agent can use its identity key
+   * @param identity The agent identity
+   */
+  async releaseIdentity(identity: AgentIdentity): Promise<void> {
+    this.activeNames.delete(identity.name);
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Parsing of @Name mentions in message content
+ */
+
+import { Message } from './types.js';
+
+/**
+ * An @ that doesn't follow a word character, then a name of letters, digits, '_' or '-'
+ */
+const MENTION_PATTERN = /(?<![\p{L}\p{N}_])@(\p{L}[\p{L}\p{N}_-]*)/gu;
+
+/**
+ * Extracts the names mentioned with @Name in a text
+ * @param content The message content
+ * @returns The mentioned names as written, without duplicates
+ */
+export function parseMentions(content: string): string[] {
+  const names = new Set<string>();
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    names.add(match[1]);
+  }
+  return Array.from(names);
+}
+
+/**
+ * Checks whether a message mentions an agent
+ * Uses the validated mentions stored in the metadata of every message. Only messages sent
+ * before mentions were recorded have none; their content is parsed instead.
+ * @param msg The message
+ * @param agentName The agent name
+ * @returns True if the message mentions the agent
+ */
+export function mentionsAgent(msg: Message, agentName: string): boolean {
+  const stored = msg.metadata?.mentions;
+  if (Array.isArray(stored)) {
+    return stored.includes(agentName);
+  }
+
+  const lowerName = agentName.toLowerCase();
+  return parseMentions(msg.content).some((name) => name.toLowerCase() === lowerName);
+}
@@ -0,0 +1,155 @@
+/**
+ * Metadata schemas for message types
+ * A message type can require metadata keys of a certain type, e.g. a command message
+ * names the command and its arguments. Metadata is checked against the schema of its
+ * message type when a message is sent.
+ */
+
+import { Message } from './types.js';
+
+/**
+ * JSON type of a metadata value
+ */
+export type MetadataValueType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+/**
+ * Expected metadata key of a message type
+ */
+export interface MetadataField {
+  type: MetadataValueType;
+  /** Whether messages of the type must have the key (default: false) */
+  required?: boolean;
+  /** Allowed values, for string fields */
+  values?: string[];
+}
+
+/**
+ * Metadata schema of a message type
+ * Keys that are not in the schema are allowed and not checked
+ */
+export interface MetadataSchema {
+  fields: { [key: string]: MetadataField };
+  /** Keys shown next to the message in read_messages output, in this order */
+  displayKeys?: string[];
+}
+
+/**
+ * Schemas of the built-in message types
+ */
+const DEFAULT_SCHEMAS: { [type: string]: MetadataSchema } = {
+  command: {
+    fields: {
+      command: { type: 'string', required: true },
+      args: { type: 'object', required: true },
+    },
+    displayKeys: ['command', 'args'],
+  },
+  notification: {
+    fields: {
+      level: { type: 'string', required: true, values: ['info', 'warning', 'error'] },
+    },
+    displayKeys: ['level'],
+  },
+};
+
+/**
+ * Gets the JSON type of a value
+ * @param value The value
+ * @returns The type, or null for null and undefined
+ */
+function getValueType(value: unknown): MetadataValueType | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' || type === 'object'
+    ? type
+    : null;
+}
+
+/**
+ * Registry of the metadata schemas of message types
+ */
+export class MetadataSchemaRegistry {
+  private schemas: Map<Message['type'], MetadataSchema> = new Map();
+
+  constructor() {
+    for (const type in DEFAULT_SCHEMAS) {
+      this.schemas.set(type as Message['type'], DEFAULT_SCHEMAS[type]);
+    }
+  }
+
+  /**
+   * Sets the metadata schema of a message type, replacing any earlier one
+   * @param type The message type
+   * @param schema The schema
+   */
+  register(type: Message['type'], schema: MetadataSchema): void {
+    this.schemas.set(type, schema);
+  }
+
+  /**
+   * Gets the metadata schema of a message type
+   * @param type The message type
+   * @returns The schema, or undefined if the type accepts any metadata
+   */
+  get(type: Message['type']): MetadataSchema | undefined {
+    return this.schemas.get(type);
+  }
+
+  /**
+   * Checks message metadata against the schema of its message type
+   * @param type The message type
+   * @param metadata The metadata
+   * @throws Error listing every missing or invalid key
+   */
+  validate(type: Message['type'], metadata: Record<string, unknown> | undefined): void {
+    if (metadata !== undefined && getValueType(metadata) !== 'object') {
+      throw new Error('Metadata must be an object');
+    }
+
+    const schema = this.schemas.get(type);
+    if (!schema) {
+      return;
+    }
+
+    const problems: string[] = [];
+    for (const [key, field] of Object.entries(schema.fields)) {
+      const value = metadata?.[key];
+      const valueType = getValueType(value);
+
+      if (valueType === null) {
+        if (field.required) {
+          problems.push(`missing required key "${key}" (${field.type})`);
+        }
+      } else if (valueType !== field.type) {
+        problems.push(`"${key}" must be of type ${field.type}, got ${valueType}`);
+      } else if (field.values && !field.values.includes(value as string)) {
+        problems.push(`"${key}" must be one of ${field.values.join(', ')}`);
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid metadata for ${type} message: ${problems.join('; ')}`);
+    }
+  }
+
+  /**
+   * Summarizes the key metadata of a message for display
+   * @param msg The message
+   * @returns "key=value" pairs of the display keys present in the metadata, space-separated
+   */
+  summarize(msg: Message): string {
+    const keys = this.schemas.get(msg.type)?.displayKeys ?? [];
+    return keys
+      .filter((key) => msg.metadata?.[key] !== undefined)
+      .map((key) => {
+        const value = msg.metadata![key];
+        return `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`;
+      })
+      .join(' ');
+  }
+}
@@ -1,21 +1,52 @@
 /**
- * Persistence layer for saving/loading chat rooms to/from JSON files
+ * Persistence layer for saving/loading chat rooms, task boards, search indexes and agent identities
  * Uses file locking to prevent race conditions in multi-instance scenarios
+ *
+ * Each chat room is an append-only log in its own directory:
+ * - manifest.json names the project and the current generation
+ * - snapshot-<generation>.jsonl.gz holds the room as it was when the generation started
+ * - log-<generation>-<segment>.jsonl holds the records appended since, in segments
+ * Compaction starts a new generation from the current room and deletes the old files.
+ *
+ * Messages pruned from a chat room are moved to gzip-compressed archive files in
+ * archive/<project hash>/, which are only ever appended to.
  */
 
 import * as fs from 'fs/promises';
+import { watch } from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import * as lockfile from 'proper-lockfile';
 import * as zlib from 'zlib';
-import { ChatRoom, Message, AgentIdentity } from './types.js';
+import { ChatRoom, AgentIdentity, Message, Task, TaskBoard } from './types.js';
 import { AgentNamer } from './agent-namer.js';
+import {
+  StorageBackend,
+  assignSequenceNumbers,
+  validateReplyReferences,
+} from './storage-backend.js';
+import { SerializedSearchIndex } from './search-index.js';
+import { LockManager } from './async-lock.js';
+import {
+  RoomLogRecord,
+  SerializableMessage,
+  SerializableRoomState,
+  applyRecords,
+  applyRoomState,
+  cloneChatRoom,
+  countSupersededRecords,
+  createEmptyChatRoom,
+  deserializeMessage,
+  diffChatRoom,
+  serializeMessage,
+  serializeRoomState,
+} from './room-log.js';
 
-const DATA_DIR = path.join(process.cwd(), 'data');
-const IDENTITY_DIR = path.join(process.cwd(), '.mcp-identities');
+export const DEFAULT_DATA_DIR = path.join(process.cwd(), 'data');
+const DEFAULT_IDENTITY_DIR = path.join(process.cwd(), '.mcp-identities');
 // Each MCP server instance gets a unique identity file based on PID and start time
 // This prevents multiple instances from sharing the same identity
-const IDENTITY_FILE = path.join(IDENTITY_DIR, `.agent-identity-${process.pid}-${Date.now()}.json`);
+const PROCESS_STARTED_AT = Date.now();
 
 // Lock options for proper-lockfile
 const LOCK_OPTIONS = {
@@ -27,35 +58,151 @@ const LOCK_OPTIONS = {
   stale: 10000, // Lock expires after 10 seconds
 };
 
+// Lock options for stable identities: held for the lifetime of the process and refreshed
+// periodically, so it goes stale soon after the owning process dies
+const IDENTITY_LOCK_OPTIONS = {
+  retries: 0,
+  stale: 10000,
+  update: 5000,
+};
+
+/**
+ * Log segments roll over to a new file once they reach this size
+ */
+const SEGMENT_MAX_BYTES = 1024 * 1024;
+
+/**
+ * A room is compacted once its log holds more superseded records than this,
+ * or more superseded records than live messages, whichever is larger
+ */
+const COMPACTION_MIN_SUPERSEDED_RECORDS = 1000;
+
+/**
+ * Archive files of pruned messages roll over to a new file once they reach this size
+ */
+const ARCHIVE_FILE_MAX_BYTES = 4 * 1024 * 1024;
+
+/**
+ * How often a read starts over when a compaction deletes the files it is reading
+ */
+const READ_RETRIES = 3;
+
+/**
+ * Chat room file saved by versions before the append-only log, migrated on first write
+ */
+interface LegacyChatRoom extends SerializableRoomState {
+  messages: SerializableMessage[];
+}
+
+/**
+ * Contents of a chat room's manifest.json
+ */
+interface RoomManifest {
+  projectPath: string;
+  generation: number;
+}
+
+/**
+ * How far this process has replayed a chat room's log
+ * Kept between calls, so later reads only parse the records appended since
+ */
+interface RoomLogCursor {
+  /** The chat room as of the read position; never handed out, only copies of it */
+  chatRoom: ChatRoom;
+  generation: number;
+  segment: number;
+  /** Bytes of the segment that have been applied */
+  offset: number;
+  /** Whether the segment ends in an incomplete record, e.g. from a crashed writer */
+  hasPartialRecord: boolean;
+  /** Serialized state of the chat room, to detect state changes cheaply */
+  stateJson: string;
+  /** Records in the log that compaction would drop */
+  supersededRecords: number;
+}
+
 /**
- * Serializable chat room data
+ * Serializable task board data
  */
-interface SerializableChatRoom {
+interface SerializableTaskBoard {
   projectPath: string;
-  messages: Array<{
-    id: string;
-    sender: string;
-    content: string;
-    timestamp: string;
-    type: 'text' | 'system' | 'command' | 'notification';
-    metadata?: Record<string, unknown>;
-  }>;
-  createdAt: string;
-  lastSeen?: { [agentName: string]: string };
+  tasks: Array<Omit<Task, 'createdAt' | 'updatedAt'> & { createdAt: string; updatedAt: string }>;
+  nextTaskNumber: number;
+}
+
+/**
+ * Formats a generation or segment number for use in a file name
+ * Padding keeps the files sorted in directory listings
+ * @param value The number
+ * @returns The zero-padded number
+ */
+function pad(value: number): string {
+  return String(value).padStart(6, '0');
+}
+
+/**
+ * Options for the file storage backend
+ */
+export interface PersistenceOptions {
+  /** Directory for chat rooms and task boards (default: ./data) */
+  dataDir?: string;
+  /** Directory for agent identity files (default: ./.mcp-identities) */
+  identityDir?: string;
+  /**
+   * Distinguishes the agents of one process, e.g. the sessions of an HTTP server
+   * Their per-process identity files are removed when the identity is released.
+   */
+  instanceId?: string;
 }
 
 /**
- * Manages persistence of chat rooms to JSON files
+ * Storage backend that keeps chat rooms, task boards and agent identities in files
+ * Safe to share between processes
  */
-export class PersistenceManager {
+export class PersistenceManager implements StorageBackend {
+  private readonly dataDir: string;
+  private readonly roomsDir: string;
+  private readonly tasksDir: string;
+  private readonly searchDir: string;
+  private readonly archiveDir: string;
+  private readonly identityDir: string;
+  /** Identity file of this process when it has no stable identity */
+  private readonly processIdentityFile: string;
+  /** Whether the per-process identity file belongs to one of several agents in this process */
+  private readonly isInstanceIdentity: boolean;
+  /** Releases the lock on a stable identity file (null for per-process identities) */
+  private releaseIdentityLock: (() => Promise<void>) | null = null;
+  /** File holding this process's identity, set once the identity is loaded */
+  private identityFilePath: string;
+  /** Read positions in the chat room logs, by project path */
+  private roomCursors: Map<string, RoomLogCursor> = new Map();
+  /** Serializes access to the read positions within this process */
+  private roomLocks: LockManager = new LockManager();
+
+  constructor(options: PersistenceOptions = {}) {
+    this.dataDir = options.dataDir ?? DEFAULT_DATA_DIR;
+    this.roomsDir = path.join(this.dataDir, 'rooms');
+    this.tasksDir = path.join(this.dataDir, 'tasks');
+    this.searchDir = path.join(this.dataDir, 'search');
+    this.archiveDir = path.join(this.dataDir, 'archive');
+    this.identityDir = options.identityDir ?? DEFAULT_IDENTITY_DIR;
+    const instanceSuffix = options.instanceId ? `-${options.instanceId}` : '';
+    this.processIdentityFile = path.join(
+      this.identityDir,
+      `.agent-identity-${process.pid}-${PROCESS_STARTED_AT}${instanceSuffix}.json`
+    );
+    this.isInstanceIdentity = instanceSuffix !== '';
+    this.identityFilePath = this.processIdentityFile;
+  }
+
   /**
    * Ensures the data directory exists
    */
   async ensureDataDirectory(): Promise<void> {
     try {
-      await fs.access(DATA_DIR);
+      await fs.access(this.dataDir);
     } catch {
-      await fs.mkdir(DATA_DIR, { recursive: true });
+      await fs.mkdir(this.dataDir, { recursive: true });
     }
   }
 
@@ -65,112 +212,438 @@ export class PersistenceManager {
    * @returns A safe filename
    */
   private pathToFilename(projectPath: string): string {
+    return `${this.hashProjectPath(projectPath)}.json.gz`;
+  }
+
+  /**
+   * Hashes a project path for use in file and directory names
+   * @param projectPath The project path
+   * @returns The hex-encoded hash
+   */
+  private hashProjectPath(projectPath: string): string {
     // Use a SHA256 hash to prevent filename collisions and handle long paths
     const hash = crypto.createHash('sha256');
     hash.update(projectPath);
-    return `${hash.digest('hex')}.json.gz`;
+    return hash.digest('hex');
   }
 
   /**
-   * Gets the file path for a project's chat room
+   * Gets the file path of a chat room saved before the append-only log
    * @param projectPath The project path
    * @returns The full file path
    */
-  private getFilePath(projectPath: string): string {
+  private getLegacyFilePath(projectPath: string): string {
     const filename = this.pathToFilename(projectPath);
-    return path.join(DATA_DIR, filename);
+    return path.join(this.dataDir, filename);
   }
 
   /**
-   * Saves a chat room to disk
+   * Gets the directory holding a project's chat room log
+   * @param projectPath The project path
+   * @returns The full directory path
+   */
+  private getRoomDir(projectPath: string): string {
+    return path.join(this.roomsDir, this.hashProjectPath(projectPath));
+  }
+
+  /**
+   * Gets the file path of a generation's snapshot
+   * @param roomDir The chat room directory
+   * @param generation The generation
+   * @returns The full file path
+   */
+  private getSnapshotPath(roomDir: string, generation: number): string {
+    return path.join(roomDir, `snapshot-${pad(generation)}.jsonl.gz`);
+  }
+
+  /**
+   * Gets the file path of a log segment
+   * @param roomDir The chat room directory
+   * @param generation The generation
+   * @param segment The segment number, starting at 1
+   * @returns The full file path
+   */
+  private getSegmentPath(roomDir: string, generation: number, segment: number): string {
+    return path.join(roomDir, `log-${pad(generation)}-${pad(segment)}.jsonl`);
+  }
+
+  /**
+   * Saves a chat room to disk, replacing its whole log
    * @param chatRoom The chat room to save
    */
   async saveChatRoom(chatRoom: ChatRoom): Promise<void> {
-    await this.ensureDataDirectory();
-
-    const lastSeenSerialized: { [agentName: string]: string } = {};
-    for (const agentName in chatRoom.lastSeen) {
-      lastSeenSerialized[agentName] = chatRoom.lastSeen[agentName].toISOString();
-    }
+    await this.withRoomLock(chatRoom.projectPath, async () => {
+      const manifest = await this.readManifest(chatRoom.projectPath);
+      const saved = cloneChatRoom(chatRoom);
+      assignSequenceNumbers(saved);
+      await this.writeGeneration(saved, (manifest?.generation ?? 0) + 1);
+    });
+  }
 
-    const serializable: SerializableChatRoom = {
-      projectPath: chatRoom.projectPath,
-      messages: chatRoom.messages.map((msg) => ({
-        id: msg.id,
-        sender: msg.sender,
-        content: msg.content,
-        timestamp: msg.timestamp.toISOString(),
-        type: msg.type,
-        metadata: msg.metadata,
-      })),
-      createdAt: chatRoom.createdAt.toISOString(),
-      lastSeen: lastSeenSerialized,
-    };
+  /**
+   * Serializes data as JSON and writes it gzip-compressed
+   * @param filePath The full file path
+   * @param data The data to write
+   * @param flag The file system flag (default: 'w'; 'wx' fails if the file exists)
+   */
+  private async writeCompressedJson(filePath: string, data: unknown, flag = 'w'): Promise<void> {
+    const json = JSON.stringify(data, null, 2);
+    await fs.writeFile(filePath, await this.gzip(json), { flag });
+  }
 
-    const filePath = this.getFilePath(chatRoom.projectPath);
-    const json = JSON.stringify(serializable, null, 2);
+  /**
+   * Reads and decompresses a gzip-compressed JSON file
+   * @param filePath The full file path
+   * @returns The parsed data
+   */
+  private async readCompressedJson<T>(filePath: string): Promise<T> {
+    return JSON.parse(await this.gunzip(await fs.readFile(filePath)));
+  }
 
-    const compressed = await new Promise<Buffer>((resolve, reject) => {
-      zlib.gzip(json, (err, result) => {
+  /**
+   * Compresses text with gzip
+   * @param text The text
+   * @returns The compressed data
+   */
+  private gzip(text: string): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+      zlib.gzip(text, (err, result) => {
         if (err) return reject(err);
         resolve(result);
       });
     });
+  }
 
-    await fs.writeFile(filePath, compressed);
+  /**
+   * Decompresses gzip data to text
+   * @param compressed The compressed data
+   * @param options Optional zlib options
+   * @returns The text
+   */
+  private gunzip(compressed: Buffer, options: zlib.ZlibOptions = {}): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+      zlib.gunzip(compressed, options, (err, result) => {
+        if (err) return reject(err);
+        resolve(result.toString('utf-8'));
+      });
+    });
   }
 
   /**
    * Loads a chat room from disk
+   * Only the records appended since this process last read the room are parsed
    * @param projectPath The project path
    * @returns The loaded chat room or null if not found
    */
   async loadChatRoom(projectPath: string): Promise<ChatRoom | null> {
-    const filePath = this.getFilePath(projectPath);
+    return this.roomLocks.runExclusive(projectPath, async () => {
+      const cursor = await this.readRoomLog(projectPath);
+      if (cursor) {
+        return cloneChatRoom(cursor.chatRoom);
+      }
 
+      // Rooms saved before the append-only log are readable until their first write migrates them
+      return this.loadLegacyChatRoom(projectPath);
+    });
+  }
+
+  /**
+   * Loads a chat room saved before the append-only log
+   * @param projectPath The project path
+   * @returns The loaded chat room or null if not found
+   */
+  private async loadLegacyChatRoom(projectPath: string): Promise<ChatRoom | null> {
     try {
-      const compressed = await fs.readFile(filePath);
-      const json = await new Promise<string>((resolve, reject) => {
-        zlib.gunzip(compressed, (err, result) => {
-          if (err) return reject(err);
-          resolve(result.toString('utf-8'));
-        });
-      });
-      const data: SerializableChatRoom = JSON.parse(json);
+      const data = await this.readCompressedJson<LegacyChatRoom>(
+        this.getLegacyFilePath(projectPath)
+      );
 
-      const chatRoom: ChatRoom = {
-        projectPath: data.projectPath,
-        messages: data.messages.map((msg) => ({
-          id: msg.id,
-          sender: msg.sender,
-          content: msg.content,
-          timestamp: new Date(msg.timestamp),
-          type: msg.type,
-          metadata: msg.metadata,
-        })),
-        createdAt: new Date(data.createdAt),
-        lastSeen: {},
-      };
+      const chatRoom = createEmptyChatRoom(data.projectPath);
+      applyRoomState(chatRoom, data);
+      chatRoom.messages = data.messages.map(deserializeMessage);
+      return chatRoom;
+    } catch (error) {
+      // File doesn't exist or is invalid
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reads a chat room's manifest
+   * @param projectPath The project path
+   * @returns The manifest, or null if the room has no log yet
+   */
+  private async readManifest(projectPath: string): Promise<RoomManifest | null> {
+    try {
+      const manifestPath = path.join(this.getRoomDir(projectPath), 'manifest.json');
+      const json = await fs.readFile(manifestPath, 'utf-8');
+      return JSON.parse(json);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
 
-      if (data.lastSeen) {
-        for (const agentName in data.lastSeen) {
-          chatRoom.lastSeen[agentName] = new Date(data.lastSeen[agentName]);
+  /**
+   * Brings this process's read position in a chat room log up to date
+   * Must be called while holding the room's in-process lock
+   * @param projectPath The project path
+   * @returns The read position, or null if the room has no log yet
+   */
+  private async readRoomLog(projectPath: string): Promise<RoomLogCursor | null> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.catchUpRoomLog(projectPath);
+      } catch (error) {
+        // A compaction in another process deleted the files; start over from the new generation
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT' && attempt < READ_RETRIES) {
+          this.roomCursors.delete(projectPath);
+          continue;
         }
+        throw error;
       }
+    }
+  }
 
-      return chatRoom;
+  /**
+   * Applies the records appended since the last read to the cached chat room
+   * Starts from the snapshot when there is no cached read position for the current generation
+   * @param projectPath The project path
+   * @returns The read position, or null if the room has no log yet
+   */
+  private async catchUpRoomLog(projectPath: string): Promise<RoomLogCursor | null> {
+    const manifest = await this.readManifest(projectPath);
+    if (!manifest) {
+      this.roomCursors.delete(projectPath);
+      return null;
+    }
+
+    const roomDir = this.getRoomDir(projectPath);
+    let cursor = this.roomCursors.get(projectPath);
+    if (!cursor || cursor.generation !== manifest.generation) {
+      cursor = await this.readSnapshot(roomDir, manifest);
+      this.roomCursors.set(projectPath, cursor);
+    }
+
+    let changed = false;
+    for (;;) {
+      // Writers only start the next segment once this one is complete, so check that first
+      const nextPath = this.getSegmentPath(roomDir, cursor.generation, cursor.segment + 1);
+      const sealed = await this.fileExists(nextPath);
+
+      changed =
+        (await this.applySegment(
+          cursor,
+          this.getSegmentPath(roomDir, cursor.generation, cursor.segment)
+        )) || changed;
+
+      if (!sealed) {
+        break;
+      }
+      cursor.segment++;
+      cursor.offset = 0;
+      cursor.hasPartialRecord = false;
+    }
+
+    if (changed) {
+      cursor.stateJson = JSON.stringify(serializeRoomState(cursor.chatRoom));
+    }
+    return cursor;
+  }
+
+  /**
+   * Reads a generation's snapshot into a fresh read position
+   * @param roomDir The chat room directory
+   * @param manifest The chat room manifest
+   * @returns The read position at the start of the generation's first segment
+   */
+  private async readSnapshot(roomDir: string, manifest: RoomManifest): Promise<RoomLogCursor> {
+    const text = await this.gunzip(
+      await fs.readFile(this.getSnapshotPath(roomDir, manifest.generation))
+    );
+
+    const chatRoom = createEmptyChatRoom(manifest.projectPath);
+    applyRecords(chatRoom, this.parseRecords(text));
+
+    return {
+      chatRoom,
+      generation: manifest.generation,
+      segment: 1,
+      offset: 0,
+      hasPartialRecord: false,
+      stateJson: JSON.stringify(serializeRoomState(chatRoom)),
+      supersededRecords: 0,
+    };
+  }
+
+  /**
+   * Applies the complete records of a segment past the read position
+   * @param cursor The read position, advanced past the applied records
+   * @param segmentPath The segment file
+   * @returns True if any records were applied
+   */
+  private async applySegment(cursor: RoomLogCursor, segmentPath: string): Promise<boolean> {
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(segmentPath, 'r');
     } catch (error) {
-      // File doesn't exist or is invalid
+      // The segment hasn't been started yet
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return null;
+        return false;
       }
       throw error;
     }
+
+    try {
+      const { size } = await handle.stat();
+      if (size <= cursor.offset) {
+        return false;
+      }
+
+      const buffer = Buffer.alloc(size - cursor.offset);
+      await handle.read(buffer, 0, buffer.length, cursor.offset);
+
+      // A record is only complete once its newline has been written
+      const end = buffer.lastIndexOf(0x0a) + 1;
+      cursor.hasPartialRecord = end < buffer.length;
+      if (end === 0) {
+        return false;
+      }
+
+      const records = this.parseRecords(buffer.subarray(0, end).toString('utf-8'));
+      applyRecords(cursor.chatRoom, records);
+      cursor.offset += end;
+      cursor.supersededRecords += countSupersededRecords(records);
+      return true;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Parses JSONL text into log records
+   * @param text The text, one record per line
+   * @returns The records
+   */
+  private parseRecords(text: string): RoomLogRecord[] {
+    return text
+      .split('\n')
+      .filter((line) => line.length > 0)
+      .map((line) => JSON.parse(line));
+  }
+
+  /**
+   * Checks whether a file exists
+   * @param filePath The full file path
+   * @returns True if the file exists
+   */
+  private async fileExists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Writes a chat room as a new generation and deletes the files of older ones
+   * Must be called while holding the room lock
+   * @param chatRoom The chat room; kept as the cached room, so it must not be changed afterwards
+   * @param generation The new generation
+   */
+  private async writeGeneration(chatRoom: ChatRoom, generation: number): Promise<void> {
+    const roomDir = this.getRoomDir(chatRoom.projectPath);
+    const state = serializeRoomState(chatRoom);
+    const records: RoomLogRecord[] = [
+      { type: 'state', state },
+      ...chatRoom.messages.map((msg) => ({
+        type: 'message' as const,
+        message: serializeMessage(msg),
+      })),
+    ];
+    const text = records.map((record) => JSON.stringify(record) + '\n').join('');
+
+    // Write to temporary files and rename, so readers never see a partial snapshot or manifest
+    const snapshotPath = this.getSnapshotPath(roomDir, generation);
+    await fs.writeFile(`${snapshotPath}.tmp`, await this.gzip(text));
+    await fs.rename(`${snapshotPath}.tmp`, snapshotPath);
+
+    const manifestPath = path.join(roomDir, 'manifest.json');
+    const manifest: RoomManifest = { projectPath: chatRoom.projectPath, generation };
+    await fs.writeFile(`${manifestPath}.tmp`, JSON.stringify(manifest, null, 2), 'utf-8');
+    await fs.rename(`${manifestPath}.tmp`, manifestPath);
+
+    // Everything else belongs to older generations (or to a write that crashed)
+    const keep = new Set(['manifest.json', path.basename(snapshotPath)]);
+    for (const file of await fs.readdir(roomDir)) {
+      if (!keep.has(file)) {
+        await fs.rm(path.join(roomDir, file), { force: true });
+      }
+    }
+
+    this.roomCursors.set(chatRoom.projectPath, {
+      chatRoom,
+      generation,
+      segment: 1,
+      offset: 0,
+      hasPartialRecord: false,
+      stateJson: JSON.stringify(state),
+      supersededRecords: 0,
+    });
+  }
+
+  /**
+   * Runs a function while holding a chat room's lock, both within this process and across processes
+   * @param projectPath The project path
+   * @param fn The function to run
+   * @returns The result of the function
+   */
+  private async withRoomLock<T>(projectPath: string, fn: () => Promise<T>): Promise<T> {
+    return this.roomLocks.runExclusive(projectPath, async () => {
+      const roomDir = this.getRoomDir(projectPath);
+      await fs.mkdir(roomDir, { recursive: true });
+
+      const release = await lockfile.lock(roomDir, LOCK_OPTIONS);
+      try {
+        return await fn();
+      } finally {
+        // Always release the lock
+        await release();
+      }
+    });
+  }
+
+  /**
+   * Watches a chat room's log for changes made by any process
+   * Watches the room directory rather than single files, so the watch keeps working
+   * when segments are started and when the room is compacted
+   * @param projectPath The project path
+   * @param onChange Called whenever the chat room may have changed
+   * @returns Function that stops watching
+   */
+  async watchChatRoom(projectPath: string, onChange: () => void): Promise<() => void> {
+    const roomDir = this.getRoomDir(projectPath);
+    await fs.mkdir(roomDir, { recursive: true });
+
+    const watcher = watch(roomDir, () => onChange());
+    watcher.on('error', () => {
+      // Watching is best effort; callers keep a fallback poll
+    });
+
+    return () => watcher.close();
   }
 
   /**
    * Atomically updates a chat room with file locking
-   * Prevents race conditions when multiple instances modify the same chat
+   * Prevents race conditions when multiple instances modify the same chat.
+   * Only the changes are appended to the log, so messages must be changed by replacing
+   * their object in chatRoom.messages rather than in place.
    * @param projectPath The project path
    * @param updateFn Function that modifies the chat room
    * @returns The updated chat room
@@ -180,48 +653,307 @@ export class PersistenceManager {
     updateFn: (chatRoom: ChatRoom) => void | Promise<void>
   ): Promise<ChatRoom> {
     await this.ensureDataDirectory();
-    const filePath = this.getFilePath(projectPath);
 
-    // Ensure file exists before locking (lockfile needs the file to exist)
+    return this.withRoomLock(projectPath, async () => {
+      let cursor = await this.readRoomLog(projectPath);
+      if (!cursor) {
+        // Start the log from a room saved before the append-only log, or from an empty room
+        const startRoom =
+          (await this.loadLegacyChatRoom(projectPath)) ?? createEmptyChatRoom(projectPath);
+        assignSequenceNumbers(startRoom);
+        await this.writeGeneration(startRoom, 1);
+        await fs.rm(this.getLegacyFilePath(projectPath), { force: true });
+        cursor = (await this.readRoomLog(projectPath))!;
+      }
+
+      const chatRoom = cloneChatRoom(cursor.chatRoom);
+      const existingIds = new Set(cursor.chatRoom.messages.map((msg) => msg.id));
+
+      // Apply update function
+      await updateFn(chatRoom);
+
+      // Reject replies to messages that are not part of this chat room
+      validateReplyReferences(chatRoom, existingIds);
+      assignSequenceNumbers(chatRoom);
+
+      await this.appendChanges(cursor, chatRoom);
+
+      return cloneChatRoom(chatRoom);
+    });
+  }
+
+  /**
+   * Appends the changes between the cached and the updated chat room to the log
+   * Compacts the log when it holds too many superseded records, and rewrites it
+   * when the changes can't be expressed as appends
+   * @param cursor The up-to-date read position
+   * @param chatRoom The updated chat room
+   */
+  private async appendChanges(cursor: RoomLogCursor, chatRoom: ChatRoom): Promise<void> {
+    const records = diffChatRoom(cursor.chatRoom, chatRoom, cursor.stateJson);
+    if (!records) {
+      await this.writeGeneration(chatRoom, cursor.generation + 1);
+      return;
+    }
+    if (records.length === 0) {
+      return;
+    }
+
+    const text = records.map((record) => JSON.stringify(record) + '\n').join('');
+    const bytes = Buffer.byteLength(text);
+
+    // Never append after an incomplete record, and keep segments small
+    const segmentFull = cursor.offset > 0 && cursor.offset + bytes > SEGMENT_MAX_BYTES;
+    if (cursor.hasPartialRecord || segmentFull) {
+      cursor.segment++;
+      cursor.offset = 0;
+      cursor.hasPartialRecord = false;
+    }
+
+    const roomDir = this.getRoomDir(chatRoom.projectPath);
+    await fs.appendFile(this.getSegmentPath(roomDir, cursor.generation, cursor.segment), text);
+
+    cursor.chatRoom = cloneChatRoom(chatRoom);
+    cursor.offset += bytes;
+    cursor.supersededRecords += countSupersededRecords(records);
+    const stateRecord = records.find((record) => record.type === 'state');
+    if (stateRecord) {
+      cursor.stateJson = JSON.stringify(stateRecord.state);
+    }
+
+    if (
+      cursor.supersededRecords >
+      Math.max(COMPACTION_MIN_SUPERSEDED_RECORDS, chatRoom.messages.length)
+    ) {
+      await this.writeGeneration(cursor.chatRoom, cursor.generation + 1);
+    }
+  }
+
+  /**
+   * Gets the file path for a project's task board
+   * Task boards live in a subdirectory so they are never mistaken for chat rooms
+   * @param projectPath The project path
+   * @returns The full file path
+   */
+  private getTaskBoardFilePath(projectPath: string): string {
+    return path.join(this.tasksDir, this.pathToFilename(projectPath));
+  }
+
+  /**
+   * Saves a task board to disk
+   * @param taskBoard The task board to save
+   */
+  async saveTaskBoard(taskBoard: TaskBoard): Promise<void> {
+    await fs.mkdir(this.tasksDir, { recursive: true });
+
+    const serializable: SerializableTaskBoard = {
+      projectPath: taskBoard.projectPath,
+      tasks: taskBoard.tasks.map((task) => ({
+        ...task,
+        createdAt: task.createdAt.toISOString(),
+        updatedAt: task.updatedAt.toISOString(),
+      })),
+      nextTaskNumber: taskBoard.nextTaskNumber,
+    };
+
+    await this.writeCompressedJson(this.getTaskBoardFilePath(taskBoard.projectPath), serializable);
+  }
+
+  /**
+   * Loads a task board from disk
+   * @param projectPath The project path
+   * @returns The loaded task board or null if not found
+   */
+  async loadTaskBoard(projectPath: string): Promise<TaskBoard | null> {
     try {
-      await fs.access(filePath);
-    } catch {
-      // Create empty chat room file
-      const emptyChatRoom: ChatRoom = {
-        projectPath,
-        messages: [],
-        createdAt: new Date(),
-        lastSeen: {},
+      const data = await this.readCompressedJson<SerializableTaskBoard>(
+        this.getTaskBoardFilePath(projectPath)
+      );
+
+      return {
+        projectPath: data.projectPath,
+        tasks: data.tasks.map((task) => ({
+          ...task,
+          createdAt: new Date(task.createdAt),
+          updatedAt: new Date(task.updatedAt),
+        })),
+        nextTaskNumber: data.nextTaskNumber,
       };
-      await this.saveChatRoom(emptyChatRoom);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Atomically updates a task board with file locking
+   * Uses the same locking scheme as chat rooms, so claims are safe across processes
+   * @param projectPath The project path
+   * @param updateFn Function that modifies the task board
+   * @returns The updated task board
+   */
+  async atomicUpdateTaskBoard(
+    projectPath: string,
+    updateFn: (taskBoard: TaskBoard) => void | Promise<void>
+  ): Promise<TaskBoard> {
+    const filePath = this.getTaskBoardFilePath(projectPath);
+
+    // Create an empty task board to lock if there is none (lockfile needs the file to exist).
+    // 'wx' keeps a concurrent first update from overwriting a board another process just saved.
+    await fs.mkdir(this.tasksDir, { recursive: true });
+    const emptyBoard: SerializableTaskBoard = { projectPath, tasks: [], nextTaskNumber: 1 };
+    try {
+      await this.writeCompressedJson(filePath, emptyBoard, 'wx');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
     }
 
-    // Acquire lock on the file
     let release: (() => Promise<void>) | null = null;
     try {
       release = await lockfile.lock(filePath, LOCK_OPTIONS);
 
-      // Load current state
-      const chatRoom = await this.loadChatRoom(projectPath);
-      if (!chatRoom) {
-        throw new Error('Chat room disappeared during lock acquisition');
+      const taskBoard = await this.loadTaskBoard(projectPath);
+      if (!taskBoard) {
+        throw new Error('Task board disappeared during lock acquisition');
       }
 
-      // Apply update function
-      await updateFn(chatRoom);
-
-      // Save back to disk
-      await this.saveChatRoom(chatRoom);
+      await updateFn(taskBoard);
+      await this.saveTaskBoard(taskBoard);
 
-      return chatRoom;
+      return taskBoard;
     } finally {
-      // Always release the lock
       if (release) {
         await release();
       }
     }
   }
 
+  /**
+   * Lists the archive files of a chat room
+   * @param projectPath The project path
+   * @returns The file numbers and paths, oldest first
+   */
+  private async listArchiveFiles(
+    projectPath: string
+  ): Promise<Array<{ number: number; filePath: string }>> {
+    const archiveDir = path.join(this.archiveDir, this.hashProjectPath(projectPath));
+    let files: string[];
+    try {
+      files = await fs.readdir(archiveDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return files
+      .map((file) => /^archive-(\d+)\.jsonl\.gz$/.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map((match) => ({
+        number: parseInt(match[1], 10),
+        filePath: path.join(archiveDir, match[0]),
+      }))
+      .sort((a, b) => a.number - b.number);
+  }
+
+  /**
+   * Adds pruned messages to a chat room's archive
+   * Appends one gzip member to the newest archive file; gzip readers decompress consecutive
+   * members as one stream. Called from atomicUpdateChatRoom, so the room lock is held.
+   * @param projectPath The project path
+   * @param messages The pruned messages
+   */
+  async archiveMessages(projectPath: string, messages: Message[]): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+
+    const files = await this.listArchiveFiles(projectPath);
+    const newest = files[files.length - 1];
+    let filePath = newest?.filePath;
+    if (!newest || (await fs.stat(newest.filePath)).size >= ARCHIVE_FILE_MAX_BYTES) {
+      const archiveDir = path.join(this.archiveDir, this.hashProjectPath(projectPath));
+      await fs.mkdir(archiveDir, { recursive: true });
+      filePath = path.join(archiveDir, `archive-${pad((newest?.number ?? 0) + 1)}.jsonl.gz`);
+    }
+
+    const lines = messages.map((msg) => `${JSON.stringify(serializeMessage(msg))}\n`).join('');
+    await fs.appendFile(filePath!, await this.gzip(lines));
+  }
+
+  /**
+   * Loads the archived messages of a chat room
+   * @param projectPath The project path
+   * @returns The messages in the order they were archived, each at most once
+   */
+  async loadArchivedMessages(projectPath: string): Promise<Message[]> {
+    const messages: Message[] = [];
+    const archivedIds = new Set<string>();
+
+    for (const { filePath } of await this.listArchiveFiles(projectPath)) {
+      // Keep what can be decompressed of a member truncated by a crashed writer
+      const text = await this.gunzip(await fs.readFile(filePath), {
+        finishFlush: zlib.constants.Z_SYNC_FLUSH,
+      });
+
+      for (const line of text.split('\n')) {
+        if (!line) {
+          continue;
+        }
+        let msg: Message;
+        try {
+          msg = deserializeMessage(JSON.parse(line));
+        } catch {
+          // Incomplete last line of a truncated member
+          continue;
+        }
+        // A message is archived twice if the room update failed after archiving it
+        if (!archivedIds.has(msg.id)) {
+          archivedIds.add(msg.id);
+          messages.push(msg);
+        }
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Loads the saved search index of a chat room
+   * @param projectPath The project path
+   * @returns The saved index or null if none was saved
+   */
+  async loadSearchIndex(projectPath: string): Promise<SerializedSearchIndex | null> {
+    try {
+      return await this.readCompressedJson<SerializedSearchIndex>(
+        path.join(this.searchDir, this.pathToFilename(projectPath))
+      );
+    } catch {
+      // Missing or damaged; the caller rebuilds the index
+      return null;
+    }
+  }
+
+  /**
+   * Saves the search index of a chat room
+   * Writes to a temporary file and renames it, so readers never see a partial index
+   * @param projectPath The project path
+   * @param index The index
+   */
+  async saveSearchIndex(projectPath: string, index: SerializedSearchIndex): Promise<void> {
+    await fs.mkdir(this.searchDir, { recursive: true });
+    const filePath = path.join(this.searchDir, this.pathToFilename(projectPath));
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    await fs.writeFile(tempPath, await this.gzip(JSON.stringify(index)));
+    await fs.rename(tempPath, filePath);
+  }
+
   /**
    * Gets all currently used names from existing identity files
    * @returns Set of names currently in use by other instances
@@ -231,11 +963,11 @@ export class PersistenceManager {
 
     try {
       await this.ensureIdentityDirectory();
-      const files = await fs.readdir(IDENTITY_DIR);
+      const files = await fs.readdir(this.identityDir);
 
       for (const file of files) {
         if (file.startsWith('.agent-identity-') && file.endsWith('.json')) {
-          const filePath = path.join(IDENTITY_DIR, file);
+          const filePath = path.join(this.identityDir, file);
           try {
             const json = await fs.readFile(filePath, 'utf-8');
             const data = JSON.parse(json);
@@ -256,17 +988,25 @@ export class PersistenceManager {
 
   /**
    * Loads or creates agent identity for this MCP server instance
+   * With an identity key, the same key always maps to the same name across restarts,
+   * as long as no other live process is currently using that key
    * @param namer The agent namer to use for creating new identities
+   * @param identityKey Optional key identifying the logical agent
    * @returns The agent identity
    */
-  async loadOrCreateIdentity(namer: AgentNamer): Promise<AgentIdentity> {
+  async loadOrCreateIdentity(namer: AgentNamer, identityKey?: string): Promise<AgentIdentity> {
+    if (identityKey) {
+      const stableIdentity = await this.loadOrCreateStableIdentity(namer, identityKey);
+      if (stableIdentity) {
+        return stableIdentity;
+      }
+      // Another live process holds this key; fall back to a per-process identity
+    }
+
     try {
-      const json = await fs.readFile(IDENTITY_FILE, 'utf-8');
-      const data = JSON.parse(json);
-      return {
-        name: data.name,
-        createdAt: new Date(data.createdAt),
-      };
+      const json = await fs.readFile(this.processIdentityFile, 'utf-8');
+      this.identityFilePath = this.processIdentityFile;
+      return this.parseIdentity(JSON.parse(json));
     } catch (error) {
       // File doesn't exist, create new identity
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
@@ -280,6 +1020,7 @@ export class PersistenceManager {
           name: await namer.assignName(),
           createdAt: new Date(),
         };
+        this.identityFilePath = this.processIdentityFile;
         await this.saveIdentity(identity);
         return identity;
       }
@@ -287,14 +1028,96 @@ export class PersistenceManager {
     }
   }
 
+  /**
+   * Loads or creates the identity stored for an identity key
+   * The identity file stays locked while this process runs, so a second live process
+   * with the same key can't take over the name
+   * @param namer The agent namer to use for creating new identities
+   * @param identityKey Key identifying the logical agent
+   * @returns The agent identity, or null if another live process is using the key
+   */
+  private async loadOrCreateStableIdentity(
+    namer: AgentNamer,
+    identityKey: string
+  ): Promise<AgentIdentity | null> {
+    await this.ensureIdentityDirectory();
+    const hash = crypto.createHash('sha256').update(identityKey).digest('hex').slice(0, 16);
+    const filePath = path.join(this.identityDir, `.agent-identity-key-${hash}.json`);
+
+    // Create an empty file to lock if this key has never been used (lockfile needs the file to exist)
+    try {
+      await fs.writeFile(filePath, '{}', { encoding: 'utf-8', flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    try {
+      this.releaseIdentityLock = await lockfile.lock(filePath, {
+        ...IDENTITY_LOCK_OPTIONS,
+        onCompromised: () => {
+          // The lock went stale (e.g., the process was suspended); keep running with the name
+          this.releaseIdentityLock = null;
+        },
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ELOCKED') {
+        return null;
+      }
+      throw error;
+    }
+
+    this.identityFilePath = filePath;
+    let data;
+    try {
+      data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch {
+      // A crash while saving can leave the file truncated; the key gets a new name
+      console.warn(`Corrupt identity file: ${filePath}. Assigning a new identity.`);
+      data = {};
+    }
+    if (data?.name) {
+      return this.parseIdentity(data);
+    }
+
+    const usedNames = await this.getUsedNamesFromIdentityFiles();
+    for (const name of usedNames) {
+      await namer.registerUsedName(name);
+    }
+
+    const identity: AgentIdentity = {
+      name: await namer.assignName(),
+      createdAt: new Date(),
+    };
+    await this.saveIdentity(identity);
+    return identity;
+  }
+
+  /**
+   * Releases the lock on a stable identity, so another process can use its key
+   * The identity file of an instance is removed, since nothing will load it again
+   * and it would keep the name reserved
+   */
+  async releaseIdentity(): Promise<void> {
+    const release = this.releaseIdentityLock;
+    this.releaseIdentityLock = null;
+    if (release) {
+      await release();
+    }
+    if (this.isInstanceIdentity) {
+      await fs.rm(this.processIdentityFile, { force: true });
+    }
+  }
+
   /**
    * Ensures the identity directory exists
    */
   private async ensureIdentityDirectory(): Promise<void> {
     try {
-      await fs.access(IDENTITY_DIR);
+      await fs.access(this.identityDir);
     } catch {
-      await fs.mkdir(IDENTITY_DIR, { recursive: true });
+      await fs.mkdir(this.identityDir, { recursive: true });
     }
   }
 
@@ -302,58 +1125,93 @@ export class PersistenceManager {
    * Saves agent identity to disk
    * @param identity The agent identity
    */
-  private async saveIdentity(identity: AgentIdentity): Promise<void> {
+  async saveIdentity(identity: AgentIdentity): Promise<void> {
     await this.ensureIdentityDirectory();
     const serializable = {
       name: identity.name,
       createdAt: identity.createdAt.toISOString(),
+      profile: identity.profile,
     };
     const json = JSON.stringify(serializable, null, 2);
-    await fs.writeFile(IDENTITY_FILE, json, 'utf-8');
+    await fs.writeFile(this.identityFilePath, json, 'utf-8');
+  }
+
+  /**
+   * Converts stored identity data to an agent identity
+   * @param data The parsed identity file
+   * @returns The agent identity
+   */
+  private parseIdentity(data: {
+    name: string;
+    createdAt: string;
+    profile?: AgentIdentity['profile'];
+  }): AgentIdentity {
+    return {
+      name: data.name,
+      createdAt: new Date(data.createdAt),
+      profile: data.profile,
+    };
   }
 
   /**
-   * Lists all saved chat room files
+   * Lists all saved chat rooms
    * @returns Array of project paths that have saved data
    */
   async listSavedChatRooms(): Promise<string[]> {
     try {
       await this.ensureDataDirectory();
-      const files = await fs.readdir(DATA_DIR);
+      const projectPaths = new Set<string>();
 
-      const projectPaths: string[] = [];
-      for (const file of files) {
-        if (file.endsWith('.json')) {
-          const filePath = path.join(DATA_DIR, file);
+      let roomDirs: string[] = [];
+      try {
+        roomDirs = await fs.readdir(this.roomsDir);
+      } catch {
+        // No room has been written since the append-only log was introduced
+      }
+
+      for (const roomDir of roomDirs) {
+        try {
+          const json = await fs.readFile(path.join(this.roomsDir, roomDir, 'manifest.json'), 'utf-8');
+          const manifest: RoomManifest = JSON.parse(json);
+          projectPaths.add(manifest.projectPath);
+        } catch {
+          // Skip lock directories and rooms that are only being watched
+        }
+      }
+
+      // Rooms saved before the append-only log that haven't been written to since
+      for (const file of await fs.readdir(this.dataDir)) {
+        if (file.endsWith('.json.gz')) {
+          const filePath = path.join(this.dataDir, file);
           try {
-            const json = await fs.readFile(filePath, 'utf-8');
-            const data: SerializableChatRoom = JSON.parse(json);
-            projectPaths.push(data.projectPath);
+            const data = await this.readCompressedJson<LegacyChatRoom>(filePath);
+            projectPaths.add(data.projectPath);
           } catch {
             // Skip invalid files
           }
         }
       }
 
-      return projectPaths;
+      return [...projectPaths];
     } catch {
       return [];
     }
   }
 
   /**
-   * Deletes a chat room file from disk
+   * Deletes a chat room from disk
    * @param projectPath The project path
    */
   async deleteChatRoom(projectPath: string): Promise<void> {
-    const filePath = this.getFilePath(projectPath);
-    try {
-      await fs.unlink(filePath);
-    } catch (error) {
-      // Ignore if file doesn't exist
-      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-        throw error;
-      }
-    }
+    await this.roomLocks.runExclusive(projectPath, async () => {
+      this.roomCursors.delete(projectPath);
+      await fs.rm(this.getRoomDir(projectPath), { recursive: true, force: true });
+      await fs.rm(this.getLegacyFilePath(projectPath), { force: true });
+      await fs.rm(path.join(this.searchDir, this.pathToFilename(projectPath)), { force: true });
+      await fs.rm(path.join(this.archiveDir, this.hashProjectPath(projectPath)), {
+        recursive: true,
+        force: true,
+      });
+    });
   }
 }
@@ -0,0 +1,347 @@
+/**
+ * Record format of the append-only chat room log
+ * A chat room is stored as a compressed snapshot followed by JSONL log segments.
+ * Every line of either is one record; replaying the records in order rebuilds the room.
+ */
+
+import { AgentProfile, ChatRoom, Message, RetentionPolicy } from './types.js';
+
+/**
+ * Serializable message data
+ */
+export interface SerializableMessage {
+  id: string;
+  sender: string;
+  content: string;
+  timestamp: string;
+  type: Message['type'];
+  metadata?: Record<string, unknown>;
+  recipient?: string;
+  replyTo?: string;
+  seq?: number;
+  editedAt?: string;
+  retractedAt?: string;
+  revisions?: Array<{ content: string; timestamp: string }>;
+  acks?: Array<{ agent: string; reaction?: string; timestamp: string }>;
+  pinnedAt?: string;
+  pinnedBy?: string;
+}
+
+/**
+ * Serializable chat room data apart from the messages
+ */
+export interface SerializableRoomState {
+  projectPath: string;
+  createdAt: string;
+  lastSeen?: { [agentName: string]: string };
+  readCursors?: { [agentName: string]: string };
+  claims?: Array<{
+    pattern: string;
+    agent: string;
+    claimedAt: string;
+    note?: string;
+  }>;
+  profiles?: {
+    [agentName: string]: Omit<AgentProfile, 'updatedAt'> & { updatedAt: string };
+  };
+  departures?: { [agentName: string]: string };
+  nextSeq?: number;
+  retention?: RetentionPolicy;
+}
+
+/**
+ * One line of a chat room log
+ * - state: replaces everything except the messages
+ * - message: appends a new message
+ * - update: replaces the message with the same ID
+ * - remove: drops messages, e.g. when pruning to the retention limit
+ */
+export type RoomLogRecord =
+  | { type: 'state'; state: SerializableRoomState }
+  | { type: 'message'; message: SerializableMessage }
+  | { type: 'update'; message: SerializableMessage }
+  | { type: 'remove'; ids: string[] };
+
+/**
+ * Creates a chat room without messages or agents
+ * @param projectPath The project path
+ * @returns The empty chat room
+ */
+export function createEmptyChatRoom(projectPath: string): ChatRoom {
+  return {
+    projectPath,
+    messages: [],
+    createdAt: new Date(),
+    lastSeen: {},
+    readCursors: {},
+    claims: [],
+    profiles: {},
+    departures: {},
+    nextSeq: 1,
+    retention: {},
+  };
+}
+
+/**
+ * Copies a chat room so the copy can be changed without affecting the original
+ * Messages are shared, since they are never changed in place
+ * @param chatRoom The chat room
+ * @returns The copy
+ */
+export function cloneChatRoom(chatRoom: ChatRoom): ChatRoom {
+  const profiles: ChatRoom['profiles'] = {};
+  for (const agentName in chatRoom.profiles) {
+    profiles[agentName] = { ...chatRoom.profiles[agentName] };
+  }
+
+  return {
+    ...chatRoom,
+    messages: chatRoom.messages.slice(),
+    lastSeen: { ...chatRoom.lastSeen },
+    readCursors: { ...chatRoom.readCursors },
+    claims: chatRoom.claims.map((claim) => ({ ...claim })),
+    profiles,
+    departures: { ...chatRoom.departures },
+    retention: { ...chatRoom.retention },
+  };
+}
+
+/**
+ * Converts a message to its serializable form
+ * @param msg The message
+ * @returns The serializable message
+ */
+export function serializeMessage(msg: Message): SerializableMessage {
+  return {
+    id: msg.id,
+    sender: msg.sender,
+    content: msg.content,
+    timestamp: msg.timestamp.toISOString(),
+    type: msg.type,
+    metadata: msg.metadata,
+    recipient: msg.recipient,
+    replyTo: msg.replyTo,
+    seq: msg.seq,
+    editedAt: msg.editedAt?.toISOString(),
+    retractedAt: msg.retractedAt?.toISOString(),
+    revisions: msg.revisions?.map((revision) => ({
+      content: revision.content,
+      timestamp: revision.timestamp.toISOString(),
+    })),
+    acks: msg.acks?.map((ack) => ({ ...ack, timestamp: ack.timestamp.toISOString() })),
+    pinnedAt: msg.pinnedAt?.toISOString(),
+    pinnedBy: msg.pinnedBy,
+  };
+}
+
+/**
+ * Converts serialized message data back to a message
+ * @param data The serializable message
+ * @returns The message
+ */
+export function deserializeMessage(data: SerializableMessage): Message {
+  return {
+    id: data.id,
+    sender: data.sender,
+    content: data.content,
+    timestamp: new Date(data.timestamp),
+    type: data.type,
+    metadata: data.metadata,
+    recipient: data.recipient,
+    replyTo: data.replyTo,
+    seq: data.seq,
+    editedAt: data.editedAt ? new Date(data.editedAt) : undefined,
+    retractedAt: data.retractedAt ? new Date(data.retractedAt) : undefined,
+    revisions: data.revisions?.map((revision) => ({
+      content: revision.content,
+      timestamp: new Date(revision.timestamp),
+    })),
+    acks: data.acks?.map((ack) => ({ ...ack, timestamp: new Date(ack.timestamp) })),
+    pinnedAt: data.pinnedAt ? new Date(data.pinnedAt) : undefined,
+    pinnedBy: data.pinnedBy,
+  };
+}
+
+/**
+ * Converts everything in a chat room except the messages to its serializable form
+ * @param chatRoom The chat room
+ * @returns The serializable room state
+ */
+export function serializeRoomState(chatRoom: ChatRoom): SerializableRoomState {
+  const lastSeen: { [agentName: string]: string } = {};
+  for (const agentName in chatRoom.lastSeen) {
+    lastSeen[agentName] = chatRoom.lastSeen[agentName].toISOString();
+  }
+
+  const profiles: NonNullable<SerializableRoomState['profiles']> = {};
+  for (const agentName in chatRoom.profiles) {
+    const profile = chatRoom.profiles[agentName];
+    profiles[agentName] = { ...profile, updatedAt: profile.updatedAt.toISOString() };
+  }
+
+  const departures: { [agentName: string]: string } = {};
+  for (const agentName in chatRoom.departures) {
+    departures[agentName] = chatRoom.departures[agentName].toISOString();
+  }
+
+  return {
+    projectPath: chatRoom.projectPath,
+    createdAt: chatRoom.createdAt.toISOString(),
+    lastSeen,
+    readCursors: chatRoom.readCursors,
+    claims: chatRoom.claims.map((claim) => ({
+      ...claim,
+      claimedAt: claim.claimedAt.toISOString(),
+    })),
+    profiles,
+    departures,
+    nextSeq: chatRoom.nextSeq,
+    retention: chatRoom.retention,
+  };
+}
+
+/**
+ * Replaces everything in a chat room except the messages with serialized state
+ * Missing fields (from rooms saved by older versions) become empty
+ * @param chatRoom The chat room to change
+ * @param state The serializable room state
+ */
+export function applyRoomState(chatRoom: ChatRoom, state: SerializableRoomState): void {
+  chatRoom.projectPath = state.projectPath;
+  chatRoom.createdAt = new Date(state.createdAt);
+  chatRoom.readCursors = { ...state.readCursors };
+  chatRoom.claims = (state.claims ?? []).map((claim) => ({
+    ...claim,
+    claimedAt: new Date(claim.claimedAt),
+  }));
+
+  chatRoom.lastSeen = {};
+  for (const agentName in state.lastSeen) {
+    chatRoom.lastSeen[agentName] = new Date(state.lastSeen[agentName]);
+  }
+
+  chatRoom.profiles = {};
+  for (const agentName in state.profiles) {
+    const profile = state.profiles[agentName];
+    chatRoom.profiles[agentName] = { ...profile, updatedAt: new Date(profile.updatedAt) };
+  }
+
+  chatRoom.departures = {};
+  for (const agentName in state.departures) {
+    chatRoom.departures[agentName] = new Date(state.departures[agentName]);
+  }
+
+  chatRoom.nextSeq = state.nextSeq ?? 1;
+  chatRoom.retention = { ...state.retention };
+}
+
+/**
+ * Applies log records to a chat room in order
+ * Removals and updates are collected and applied in a single pass at the end,
+ * so replaying a long log stays linear in its length
+ * @param chatRoom The chat room to change
+ * @param records The records to apply
+ */
+export function applyRecords(chatRoom: ChatRoom, records: RoomLogRecord[]): void {
+  const removedIds = new Set<string>();
+  const updates = new Map<string, Message>();
+
+  for (const record of records) {
+    switch (record.type) {
+      case 'state':
+        applyRoomState(chatRoom, record.state);
+        break;
+      case 'message':
+        chatRoom.messages.push(deserializeMessage(record.message));
+        break;
+      case 'update':
+        updates.set(record.message.id, deserializeMessage(record.message));
+        break;
+      case 'remove':
+        for (const id of record.ids) {
+          removedIds.add(id);
+        }
+        break;
+    }
+  }
+
+  if (removedIds.size > 0 || updates.size > 0) {
+    chatRoom.messages = chatRoom.messages
+      .filter((msg) => !removedIds.has(msg.id))
+      .map((msg) => updates.get(msg.id) ?? msg);
+  }
+}
+
+/**
+ * Counts the records that a batch makes obsolete, i.e. the lines compaction would drop
+ * @param records The records
+ * @returns The number of superseded records
+ */
+export function countSupersededRecords(records: RoomLogRecord[]): number {
+  let count = 0;
+  for (const record of records) {
+    if (record.type === 'remove') {
+      // The removal itself and every removed message
+      count += record.ids.length + 1;
+    } else if (record.type !== 'message') {
+      // A state or update record supersedes an earlier one
+      count += 1;
+    }
+  }
+  return count;
+}
+
+/**
+ * Computes the records that turn one version of a chat room into another
+ * Messages must be changed by replacing their object; changes made in place are not seen.
+ * @param before The chat room as stored
+ * @param after The changed chat room
+ * @param beforeStateJson The serialized state of the stored chat room
+ * @returns The records, or null if new messages were inserted or messages were reordered,
+ *   which can only be stored by rewriting the room
+ */
+export function diffChatRoom(
+  before: ChatRoom,
+  after: ChatRoom,
+  beforeStateJson: string
+): RoomLogRecord[] | null {
+  const unchanged = new Set(before.messages);
+  const beforeIndex = new Map<string, number>();
+  before.messages.forEach((msg, index) => beforeIndex.set(msg.id, index));
+
+  const records: RoomLogRecord[] = [];
+  const appended: RoomLogRecord[] = [];
+  const keptIds = new Set<string>();
+  let lastIndex = -1;
+
+  for (const msg of after.messages) {
+    const index = beforeIndex.get(msg.id);
+    if (index === undefined) {
+      appended.push({ type: 'message', message: serializeMessage(msg) });
+      continue;
+    }
+
+    // Existing messages must keep their order and come before all new ones
+    if (appended.length > 0 || index < lastIndex) {
+      return null;
+    }
+    lastIndex = index;
+    keptIds.add(msg.id);
+
+    if (!unchanged.has(msg)) {
+      records.push({ type: 'update', message: serializeMessage(msg) });
+    }
+  }
+
+  const removedIds = before.messages.filter((msg) => !keptIds.has(msg.id)).map((msg) => msg.id);
+  if (removedIds.length > 0) {
+    records.push({ type: 'remove', ids: removedIds });
+  }
+
+  const state = serializeRoomState(after);
+  if (JSON.stringify(state) !== beforeStateJson) {
+    records.push({ type: 'state', state });
+  }
+
+  return [...records, ...appended];
+}
@@ -0,0 +1,282 @@
+/**
+ * Full-text search index for chat messages
+ * An inverted index from words to the messages containing them, ranked with BM25.
+ * The index is updated incrementally as messages are added, edited, retracted and pruned.
+ */
+
+import { Message } from './types.js';
+
+/**
+ * BM25 term frequency saturation
+ */
+const BM25_K1 = 1.2;
+
+/**
+ * BM25 document length normalization
+ */
+const BM25_B = 0.75;
+
+/**
+ * Weight of a word that only starts with a query term, relative to an exact match
+ */
+const PREFIX_MATCH_WEIGHT = 0.5;
+
+/**
+ * Index format version; indexes saved with another version are rebuilt
+ */
+const INDEX_VERSION = 2;
+
+/**
+ * Search index in the form it is saved in
+ * Postings are flat [document number, term frequency, ...] lists, where the document
+ * number is the position in docs
+ */
+export interface SerializedSearchIndex {
+  version: number;
+  /** Indexed message IDs with their length in words and the number of revisions indexed */
+  docs: Array<[string, number, number]>;
+  /** Word to its postings */
+  postings: { [term: string]: number[] };
+}
+
+/**
+ * A parsed search query
+ */
+export interface ParsedQuery {
+  /** Words that must all occur (lowercase) */
+  terms: string[];
+  /** Quoted phrases that must occur verbatim, ignoring case (lowercase) */
+  phrases: string[];
+}
+
+/**
+ * Splits text into lowercase words
+ * @param text The text
+ * @returns The words, in order
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Parses a search query into words and "quoted phrases"
+ * The words of a phrase also count as terms, so phrases benefit from the index
+ * @param query The search query
+ * @returns The parsed query
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+  const phrases: string[] = [];
+  const rest = query.replace(/"([^"]*)"/g, (_match, phrase: string) => {
+    if (phrase.trim()) {
+      phrases.push(phrase.trim().toLowerCase());
+    }
+    return ' ';
+  });
+
+  const terms = [...tokenize(rest), ...phrases.flatMap(tokenize)];
+  return { terms: [...new Set(terms)], phrases };
+}
+
+/**
+ * Inverted index over the content of a chat room's messages
+ */
+export class SearchIndex {
+  /** Message ID to its length in words and the number of earlier revisions when indexed */
+  private docs: Map<string, { length: number; revision: number }> = new Map();
+  /** Word to the messages containing it, with the number of occurrences */
+  private postings: Map<string, Map<string, number>> = new Map();
+  private totalLength: number = 0;
+
+  /**
+   * Restores a saved index
+   * @param data The saved index
+   * @returns The index, or an empty index if the data has an unknown format
+   */
+  static fromJSON(data: SerializedSearchIndex): SearchIndex {
+    const index = new SearchIndex();
+    if (data.version !== INDEX_VERSION) {
+      return index;
+    }
+
+    for (const [id, length, revision] of data.docs) {
+      index.docs.set(id, { length, revision });
+      index.totalLength += length;
+    }
+    for (const term in data.postings) {
+      const list = data.postings[term];
+      const docs = new Map<string, number>();
+      for (let i = 0; i < list.length; i += 2) {
+        docs.set(data.docs[list[i]][0], list[i + 1]);
+      }
+      index.postings.set(term, docs);
+    }
+    return index;
+  }
+
+  /**
+   * Converts the index to its saved form
+   * @returns The serializable index
+   */
+  toJSON(): SerializedSearchIndex {
+    const docNumbers = new Map<string, number>();
+    const docs: SerializedSearchIndex['docs'] = [];
+    for (const [id, { length, revision }] of this.docs) {
+      docNumbers.set(id, docs.length);
+      docs.push([id, length, revision]);
+    }
+
+    const postings: SerializedSearchIndex['postings'] = {};
+    for (const [term, termDocs] of this.postings) {
+      const list: number[] = [];
+      for (const [id, frequency] of termDocs) {
+        list.push(docNumbers.get(id)!, frequency);
+      }
+      postings[term] = list;
+    }
+
+    return { version: INDEX_VERSION, docs, postings };
+  }
+
+  /**
+   * Brings the index in line with a chat room's messages
+   * Indexes new messages, re-indexes edited ones, and drops messages that were retracted
+   * or are no longer in the room
+   * @param messages All messages of the chat room
+   * @returns The number of messages added, changed or removed
+   */
+  sync(messages: Message[]): number {
+    const currentIds = new Set<string>();
+    const edited: Message[] = [];
+    let changes = 0;
+
+    for (const msg of messages) {
+      if (msg.retractedAt) {
+        continue;
+      }
+      currentIds.add(msg.id);
+
+      const indexed = this.docs.get(msg.id);
+      if (!indexed) {
+        this.add(msg);
+        changes++;
+      } else if (indexed.revision !== (msg.revisions?.length ?? 0)) {
+        edited.push(msg);
+      }
+    }
+
+    const removedIds = new Set<string>(edited.map((msg) => msg.id));
+    for (const id of this.docs.keys()) {
+      if (!currentIds.has(id)) {
+        removedIds.add(id);
+      }
+    }
+    if (removedIds.size > 0) {
+      this.remove(removedIds);
+      changes += removedIds.size;
+    }
+
+    // Edited messages are indexed again with their new content
+    for (const msg of edited) {
+      this.add(msg);
+    }
+
+    return changes;
+  }
+
+  /**
+   * Adds a message to the index
+   * @param msg The message
+   */
+  add(msg: Message): void {
+    const words = tokenize(msg.content);
+    const frequencies = new Map<string, number>();
+    for (const word of words) {
+      frequencies.set(word, (frequencies.get(word) ?? 0) + 1);
+    }
+
+    for (const [word, frequency] of frequencies) {
+      let termDocs = this.postings.get(word);
+      if (!termDocs) {
+        termDocs = new Map();
+        this.postings.set(word, termDocs);
+      }
+      termDocs.set(msg.id, frequency);
+    }
+
+    this.docs.set(msg.id, { length: words.length, revision: msg.revisions?.length ?? 0 });
+    this.totalLength += words.length;
+  }
+
+  /**
+   * Removes messages from the index
+   * Takes a batch, since every removal has to visit all postings
+   * @param ids The message IDs
+   */
+  remove(ids: Set<string>): void {
+    for (const [term, termDocs] of this.postings) {
+      for (const id of ids) {
+        termDocs.delete(id);
+      }
+      if (termDocs.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    for (const id of ids) {
+      this.totalLength -= this.docs.get(id)?.length ?? 0;
+      this.docs.delete(id);
+    }
+  }
+
+  /**
+   * Scores the messages that contain every term, with BM25
+   * A term also matches longer words starting with it, at a lower weight
+   * @param terms The query terms (lowercase)
+   * @returns Map of message ID to relevance score
+   */
+  score(terms: string[]): Map<string, number> {
+    const docCount = this.docs.size;
+    const averageLength = docCount > 0 ? this.totalLength / docCount : 0;
+    let scores: Map<string, number> | null = null;
+
+    for (const term of terms) {
+      const termScores = new Map<string, number>();
+
+      for (const [word, termDocs] of this.postings) {
+        if (!word.startsWith(term)) {
+          continue;
+        }
+
+        const weight = word === term ? 1 : PREFIX_MATCH_WEIGHT;
+        const idf = Math.log(1 + (docCount - termDocs.size + 0.5) / (termDocs.size + 0.5));
+
+        for (const [id, frequency] of termDocs) {
+          const length = this.docs.get(id)!.length;
+          const normalization = BM25_K1 * (1 - BM25_B + (BM25_B * length) / (averageLength || 1));
+          const termScore = (idf * frequency * (BM25_K1 + 1)) / (frequency + normalization);
+          termScores.set(id, (termScores.get(id) ?? 0) + weight * termScore);
+        }
+      }
+
+      // Every term must match
+      if (scores === null) {
+        scores = termScores;
+      } else {
+        const combined = new Map<string, number>();
+        for (const [id, score] of scores) {
+          const termScore = termScores.get(id);
+          if (termScore !== undefined) {
+            combined.set(id, score + termScore);
+          }
+        }
+        scores = combined;
+      }
+
+      if (scores.size === 0) {
+        break;
+      }
+    }
+
+    return scores ?? new Map();
+  }
+}
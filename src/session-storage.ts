@@ -0,0 +1,168 @@
+/**
+ * Storage for many agents in one server process
+ * The sessions of the HTTP transport share a single file storage backend, so chat rooms stay
+ * durable and visible to agents in other processes. Updates made by one session are passed to
+ * the watchers of all other sessions in memory, without waiting for the file system to report
+ * them. Each session keeps its own agent identity.
+ */
+
+import { AgentIdentity, ChatRoom, Message, TaskBoard } from './types.js';
+import { AgentNamer } from './agent-namer.js';
+import { PersistenceManager, PersistenceOptions } from './persistence.js';
+import { SerializedSearchIndex } from './search-index.js';
+import { StorageBackend } from './storage-backend.js';
+
+/**
+ * File storage shared by the sessions of one server process
+ */
+export class SharedStorage {
+  private readonly options: PersistenceOptions;
+  private readonly files: PersistenceManager;
+  /** Change listeners of all sessions by project path */
+  private watchers: Map<string, Set<() => void>> = new Map();
+
+  /**
+   * @param options Where the files are kept (default: ./data and ./.mcp-identities)
+   */
+  constructor(options: PersistenceOptions = {}) {
+    this.options = options;
+    this.files = new PersistenceManager(options);
+  }
+
+  /**
+   * Creates the storage backend of a session
+   * @param sessionId The session ID, which keeps the session's identity file apart
+   * @returns The storage backend
+   */
+  createSessionStorage(sessionId: string): StorageBackend {
+    const identities = new PersistenceManager({ ...this.options, instanceId: sessionId });
+    return new SessionStorage(this, this.files, identities);
+  }
+
+  /**
+   * Listens for updates of a chat room made by any session
+   * @param projectPath The project path
+   * @param onChange Called after every update of the chat room
+   * @returns Function that stops listening
+   */
+  addWatcher(projectPath: string, onChange: () => void): () => void {
+    let listeners = this.watchers.get(projectPath);
+    if (!listeners) {
+      listeners = new Set();
+      this.watchers.set(projectPath, listeners);
+    }
+    listeners.add(onChange);
+
+    return () => {
+      listeners.delete(onChange);
+      if (listeners.size === 0 && this.watchers.get(projectPath) === listeners) {
+        this.watchers.delete(projectPath);
+      }
+    };
+  }
+
+  /**
+   * Tells the listeners of a chat room that it was updated
+   * @param projectPath The project path
+   */
+  notifyChange(projectPath: string): void {
+    for (const onChange of this.watchers.get(projectPath) ?? []) {
+      onChange();
+    }
+  }
+}
+
+/**
+ * Storage backend of one session
+ * Chat rooms, task boards, archives and search indexes are kept in the shared files;
+ * the agent identity is kept in an identity file of the session.
+ */
+class SessionStorage implements StorageBackend {
+  constructor(
+    private readonly shared: SharedStorage,
+    private readonly files: PersistenceManager,
+    private readonly identities: PersistenceManager
+  ) {}
+
+  async loadChatRoom(projectPath: string): Promise<ChatRoom | null> {
+    return this.files.loadChatRoom(projectPath);
+  }
+
+  /**
+   * Atomically updates a chat room, then notifies the watchers of all sessions
+   * @param projectPath The project path
+   * @param updateFn Function that modifies the chat room
+   * @returns The updated chat room
+   */
+  async atomicUpdateChatRoom(
+    projectPath: string,
+    updateFn: (chatRoom: ChatRoom) => void | Promise<void>
+  ): Promise<ChatRoom> {
+    const updated = await this.files.atomicUpdateChatRoom(projectPath, updateFn);
+    this.shared.notifyChange(projectPath);
+    return updated;
+  }
+
+  /**
+   * Watches a chat room for updates by sessions in this process and by other processes
+   * @param projectPath The project path
+   * @param onChange Called whenever the chat room may have changed
+   * @returns Function that stops watching
+   */
+  async watchChatRoom(projectPath: string, onChange: () => void): Promise<() => void> {
+    const stopWatchingFiles = await this.files.watchChatRoom(projectPath, onChange);
+    const removeWatcher = this.shared.addWatcher(projectPath, onChange);
+
+    return () => {
+      removeWatcher();
+      stopWatchingFiles();
+    };
+  }
+
+  async listSavedChatRooms(): Promise<string[]> {
+    return this.files.listSavedChatRooms();
+  }
+
+  async deleteChatRoom(projectPath: string): Promise<void> {
+    await this.files.deleteChatRoom(projectPath);
+  }
+
+  async archiveMessages(projectPath: string, messages: Message[]): Promise<void> {
+    await this.files.archiveMessages(projectPath, messages);
+  }
+
+  async loadArchivedMessages(projectPath: string): Promise<Message[]> {
+    return this.files.loadArchivedMessages(projectPath);
+  }
+
+  async loadTaskBoard(projectPath: string): Promise<TaskBoard | null> {
+    return this.files.loadTaskBoard(projectPath);
+  }
+
+  async atomicUpdateTaskBoard(
+    projectPath: string,
+    updateFn: (taskBoard: TaskBoard) => void | Promise<void>
+  ): Promise<TaskBoard> {
+    return this.files.atomicUpdateTaskBoard(projectPath, updateFn);
+  }
+
+  async loadSearchIndex(projectPath: string): Promise<SerializedSearchIndex | null> {
+    return this.files.loadSearchIndex(projectPath);
+  }
+
+  async saveSearchIndex(projectPath: string, index: SerializedSearchIndex): Promise<void> {
+    await this.files.saveSearchIndex(projectPath, index);
+  }
+
+  async loadOrCreateIdentity(namer: AgentNamer, identityKey?: string): Promise<AgentIdentity> {
+    return this.identities.loadOrCreateIdentity(namer, identityKey);
+  }
+
+  async saveIdentity(identity: AgentIdentity): Promise<void> {
+    await this.identities.saveIdentity(identity);
+  }
+
+  async releaseIdentity(): Promise<void> {
+    await this.identities.releaseIdentity();
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Storage backend interface
+ * ChatManager keeps all chat rooms, task boards and agent identities in a storage backend.
+ * PersistenceManager stores them in files shared between processes; InMemoryStorage keeps
+ * them in memory for tests and single-process embedding.
+ */
+
+import { AgentIdentity, ChatRoom, Message, TaskBoard } from './types.js';
+import { AgentNamer } from './agent-namer.js';
+import { SerializedSearchIndex } from './search-index.js';
+
+/**
+ * Storage for chat rooms, their archives, task boards, search indexes and agent identities
+ */
+export interface StorageBackend {
+  /**
+   * Loads a chat room
+   * @param projectPath The project path
+   * @returns The chat room or null if not found
+   */
+  loadChatRoom(projectPath: string): Promise<ChatRoom | null>;
+
+  /**
+   * Atomically updates a chat room, creating it if needed
+   * No other update of the same chat room may run until updateFn has finished.
+   * Messages must be changed by replacing their object in chatRoom.messages, not in place.
+   * New messages are given the next sequence numbers of the chat room.
+   * @param projectPath The project path
+   * @param updateFn Function that modifies the chat room
+   * @returns The updated chat room
+   * @throws Error if a new message replies to a message that is not in the chat room
+   */
+  atomicUpdateChatRoom(
+    projectPath: string,
+    updateFn: (chatRoom: ChatRoom) => void | Promise<void>
+  ): Promise<ChatRoom>;
+
+  /**
+   * Watches a chat room for changes, including changes made by other agents
+   * @param projectPath The project path
+   * @param onChange Called whenever the chat room may have changed
+   * @returns Function that stops watching
+   */
+  watchChatRoom(projectPath: string, onChange: () => void): Promise<() => void>;
+
+  /**
+   * Lists all saved chat rooms
+   * @returns Array of project paths
+   */
+  listSavedChatRooms(): Promise<string[]>;
+
+  /**
+   * Deletes a chat room, including its archive
+   * @param projectPath The project path
+   */
+  deleteChatRoom(projectPath: string): Promise<void>;
+
+  /**
+   * Adds messages pruned from a chat room to its archive
+   * Called while the chat room is being updated, before the messages are removed from it.
+   * If the update fails afterwards, the messages may be archived while still in the room.
+   * @param projectPath The project path
+   * @param messages The pruned messages
+   */
+  archiveMessages(projectPath: string, messages: Message[]): Promise<void>;
+
+  /**
+   * Loads the archived messages of a chat room
+   * @param projectPath The project path
+   * @returns The messages in the order they were archived, each at most once
+   */
+  loadArchivedMessages(projectPath: string): Promise<Message[]>;
+
+  /**
+   * Loads a task board
+   * @param projectPath The project path
+   * @returns The task board or null if not found
+   */
+  loadTaskBoard(projectPath: string): Promise<TaskBoard | null>;
+
+  /**
+   * Atomically updates a task board, creating it if needed
+   * @param projectPath The project path
+   * @param updateFn Function that modifies the task board
+   * @returns The updated task board
+   */
+  atomicUpdateTaskBoard(
+    projectPath: string,
+    updateFn: (taskBoard: TaskBoard) => void | Promise<void>
+  ): Promise<TaskBoard>;
+
+  /**
+   * Loads the saved search index of a chat room
+   * The index is a cache: it may lag behind the chat room and is brought up to date by the caller
+   * @param projectPath The project path
+   * @returns The saved index or null if none was saved
+   */
+  loadSearchIndex(projectPath: string): Promise<SerializedSearchIndex | null>;
+
+  /**
+   * Saves the search index of a chat room, replacing the saved one
+   * @param projectPath The project path
+   * @param index The index
+   */
+  saveSearchIndex(projectPath: string, index: SerializedSearchIndex): Promise<void>;
+
+  /**
+   * Loads or creates the identity of an agent
+   * With an identity key, the same key always maps to the same name, as long as
+   * no other live agent is currently using that key
+   * @param namer The agent namer to use for creating new identities
+   * @param identityKey Optional key identifying the logical agent
+   * @returns The agent identity
+   */
+  loadOrCreateIdentity(namer: AgentNamer, identityKey?: string): Promise<AgentIdentity>;
+
+  /**
+   * Saves changes to an identity loaded with loadOrCreateIdentity
+   * @param identity The agent identity
+   */
+  saveIdentity(identity: AgentIdentity): Promise<void>;
+
+  /**
+   * Releases an identity, so another agent can use its identity key
+   * @param identity The agent identity
+   */
+  releaseIdentity(identity: AgentIdentity): Promise<void>;
+}
+
+/**
+ * Validates that newly added replies reference a message in the chat room
+ * @param chatRoom The updated chat room
+ * @param existingIds IDs of the messages present before the update
+ * @throws Error if a new message replies to an unknown message
+ */
+export function validateReplyReferences(chatRoom: ChatRoom, existingIds: Set<string>): void {
+  const knownIds = new Set(existingIds);
+  for (const msg of chatRoom.messages) {
+    knownIds.add(msg.id);
+  }
+
+  for (const msg of chatRoom.messages) {
+    if (msg.replyTo && !existingIds.has(msg.id) && !knownIds.has(msg.replyTo)) {
+      throw new Error(`Reply target not found in chat room: ${msg.replyTo}`);
+    }
+  }
+}
+
+/**
+ * Gives every message without a sequence number the next one in the chat room
+ * Messages are numbered in their order in the room. Numbered messages are replaced rather
+ * than changed in place, so the change is stored like any other update.
+ * @param chatRoom The updated chat room
+ */
+export function assignSequenceNumbers(chatRoom: ChatRoom): void {
+  for (const msg of chatRoom.messages) {
+    if (msg.seq !== undefined && msg.seq >= chatRoom.nextSeq) {
+      chatRoom.nextSeq = msg.seq + 1;
+    }
+  }
+
+  chatRoom.messages = chatRoom.messages.map((msg) =>
+    msg.seq === undefined ? { ...msg, seq: chatRoom.nextSeq++ } : msg
+  );
+}
@@ -0,0 +1,277 @@
+/**
+ * Chat transcript export formats
+ * Renders a chat room's history as Markdown or HTML for human readers, and converts it
+ * to and from a versioned JSON bundle for moving history between chat rooms and machines.
+ */
+
+import { MESSAGE_TYPES, Message, Transcript } from './types.js';
+import { MetadataSchemaRegistry } from './message-schemas.js';
+import { SerializableMessage, deserializeMessage, serializeMessage } from './room-log.js';
+
+/**
+ * Marks a JSON document as a chat bundle
+ */
+const BUNDLE_FORMAT = 'mcp-agent-chat';
+
+/**
+ * Bundle format version; bundles with a newer version are rejected
+ */
+const BUNDLE_VERSION = 1;
+
+/**
+ * Chat transcript in the form it is exported as JSON
+ */
+export interface ChatBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  projectPath: string;
+  createdAt: string;
+  exportedAt: string;
+  exportedBy: string;
+  messages: SerializableMessage[];
+  lastSeen: { [agentName: string]: string };
+}
+
+/**
+ * Converts a transcript to a JSON bundle
+ * Sequence numbers are left out, since they are only meaningful within their chat room
+ * @param transcript The transcript
+ * @returns The bundle
+ */
+export function toChatBundle(transcript: Transcript): ChatBundle {
+  const lastSeen: ChatBundle['lastSeen'] = {};
+  for (const [agentName, date] of Object.entries(transcript.lastSeen)) {
+    lastSeen[agentName] = date.toISOString();
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    projectPath: transcript.projectPath,
+    createdAt: transcript.createdAt.toISOString(),
+    exportedAt: transcript.exportedAt.toISOString(),
+    exportedBy: transcript.exportedBy,
+    messages: transcript.messages.map((msg) => ({ ...serializeMessage(msg), seq: undefined })),
+    lastSeen,
+  };
+}
+
+/**
+ * Reads a transcript from a JSON bundle
+ * @param json The bundle as JSON text
+ * @returns The transcript
+ * @throws Error if the text is not a valid chat bundle or has a newer version
+ */
+export function fromChatBundle(json: string): Transcript {
+  let data: Partial<ChatBundle>;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(
+      `Invalid chat bundle: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (data?.format !== BUNDLE_FORMAT || !Array.isArray(data.messages)) {
+    throw new Error('Invalid chat bundle: not an exported chat');
+  }
+  if (typeof data.version !== 'number' || data.version > BUNDLE_VERSION) {
+    throw new Error(`Unsupported chat bundle version: ${data.version}`);
+  }
+  for (const msg of data.messages) {
+    if (typeof msg?.id !== 'string' || typeof msg.sender !== 'string' || !msg.timestamp) {
+      throw new Error('Invalid chat bundle: message without ID, sender or timestamp');
+    }
+    if (typeof msg.content !== 'string') {
+      throw new Error(`Invalid chat bundle: message ${msg.id} has no text content`);
+    }
+    if (!MESSAGE_TYPES.includes(msg.type)) {
+      throw new Error(`Invalid chat bundle: message ${msg.id} has unknown type ${msg.type}`);
+    }
+    if (!isValidDate(msg.timestamp)) {
+      throw new Error(`Invalid chat bundle: message ${msg.id} has an invalid timestamp`);
+    }
+  }
+  const bundleLastSeen = data.lastSeen ?? {};
+  if (typeof bundleLastSeen !== 'object' || bundleLastSeen === null) {
+    throw new Error('Invalid chat bundle: lastSeen is not an object');
+  }
+  for (const [agentName, date] of Object.entries(bundleLastSeen)) {
+    if (!isValidDate(date)) {
+      throw new Error(`Invalid chat bundle: invalid last seen time of ${agentName}`);
+    }
+  }
+  for (const field of ['createdAt', 'exportedAt'] as const) {
+    if (data[field] !== undefined && !isValidDate(data[field])) {
+      throw new Error(`Invalid chat bundle: invalid ${field}`);
+    }
+  }
+
+  const lastSeen: Transcript['lastSeen'] = {};
+  for (const [agentName, date] of Object.entries(bundleLastSeen)) {
+    lastSeen[agentName] = new Date(date);
+  }
+
+  return {
+    projectPath: data.projectPath ?? '',
+    createdAt: new Date(data.createdAt ?? data.exportedAt ?? Date.now()),
+    exportedAt: new Date(data.exportedAt ?? Date.now()),
+    exportedBy: data.exportedBy ?? '',
+    messages: data.messages.map((msg) => ({ ...deserializeMessage(msg), seq: undefined })),
+    lastSeen,
+  };
+}
+
+/**
+ * Checks whether a bundle value is a time that parses to a valid date
+ * @param value The value
+ * @returns True for ISO date strings and other parseable times
+ */
+function isValidDate(value: unknown): boolean {
+  return typeof value === 'string' && !isNaN(new Date(value).getTime());
+}
+
+/**
+ * Describes the message details shown next to its sender
+ * @param msg The message
+ * @param schemas The metadata schemas, for summarizing metadata
+ * @returns Short labels such as the message type, recipient and reply target
+ */
+function describeMessage(msg: Message, schemas: MetadataSchemaRegistry): string[] {
+  const labels: string[] = [];
+  if (msg.type !== 'text') {
+    const summary = schemas.summarize(msg);
+    labels.push(summary ? `${msg.type} ${summary}` : msg.type);
+  }
+  if (msg.recipient) {
+    labels.push(`direct to ${msg.recipient}`);
+  }
+  if (msg.replyTo) {
+    labels.push(`reply to #${msg.replyTo.slice(0, 8)}`);
+  }
+  if (msg.pinnedAt) {
+    labels.push('pinned');
+  }
+  if (msg.editedAt) {
+    labels.push('edited');
+  }
+  if (msg.acks?.length) {
+    labels.push(`acked by ${msg.acks.map((ack) => ack.agent).join(', ')}`);
+  }
+  return labels;
+}
+
+/**
+ * Renders a transcript as Markdown
+ * @param transcript The transcript
+ * @param schemas The metadata schemas, for summarizing metadata
+ * @returns The Markdown document
+ */
+export function renderMarkdown(transcript: Transcript, schemas: MetadataSchemaRegistry): string {
+  const lines = [
+    `# Chat transcript: ${transcript.projectPath}`,
+    '',
+    `Exported by ${transcript.exportedBy} at ${transcript.exportedAt.toISOString()}. ` +
+      `${transcript.messages.length} message(s) since ${transcript.createdAt.toISOString()}.`,
+    '',
+    '## Participants',
+    '',
+    ...Object.entries(transcript.lastSeen).map(
+      ([agentName, date]) => `- ${agentName} (last seen ${date.toISOString()})`
+    ),
+    '',
+    '## Messages',
+  ];
+
+  for (const msg of transcript.messages) {
+    const labels = describeMessage(msg, schemas);
+    lines.push(
+      '',
+      `### ${msg.sender} · ${msg.timestamp.toISOString()} · #${msg.id.slice(0, 8)}`,
+      ...(labels.length > 0 ? ['', `_${labels.join(' · ')}_`] : []),
+      '',
+      msg.retractedAt ? '_[retracted]_' : msg.content
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Escapes text for use in HTML
+ * @param text The text
+ * @returns The escaped text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Renders a transcript as a standalone HTML page
+ * @param transcript The transcript
+ * @param schemas The metadata schemas, for summarizing metadata
+ * @returns The HTML document
+ */
+export function renderHtml(transcript: Transcript, schemas: MetadataSchemaRegistry): string {
+  const title = escapeHtml(`Chat transcript: ${transcript.projectPath}`);
+  const summary =
+    `Exported by ${escapeHtml(transcript.exportedBy)} at ${transcript.exportedAt.toISOString()}. ` +
+    `${transcript.messages.length} message(s) since ${transcript.createdAt.toISOString()}.`;
+  const participants = Object.entries(transcript.lastSeen)
+    .map(
+      ([agentName, date]) =>
+        `<li>${escapeHtml(agentName)} ` +
+        `<span class="meta">last seen ${date.toISOString()}</span></li>`
+    )
+    .join('\n');
+
+  const messages = transcript.messages
+    .map((msg) => {
+      const labels = describeMessage(msg, schemas);
+      const content = msg.retractedAt
+        ? '<em>[retracted]</em>'
+        : escapeHtml(msg.content).replace(/\n/g, '<br>');
+      const time = msg.timestamp.toISOString();
+      const meta = [`#${msg.id.slice(0, 8)}`, ...labels].join(' · ');
+      return [
+        `<article id="msg-${escapeHtml(msg.id)}" class="message ${escapeHtml(msg.type)}">`,
+        `<header><strong>${escapeHtml(msg.sender)}</strong> ` +
+          `<time datetime="${time}">${time}</time> ` +
+          `<span class="meta">${escapeHtml(meta)}</span></header>`,
+        `<p>${content}</p>`,
+        '</article>',
+      ].join('\n');
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 50rem; margin: 2rem auto; padding: 0 1rem; }
+.message { border-bottom: 1px solid #ddd; padding: 0.5rem 0; }
+.message.system, .message.notification { color: #555; }
+.meta { color: #777; font-size: 0.85em; }
+time { color: #777; font-size: 0.85em; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="meta">${summary}</p>
+<h2>Participants</h2>
+<ul>
+${participants}
+</ul>
+<h2>Messages</h2>
+${messages}
+</body>
+</html>
+`;
+}
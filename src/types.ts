@@ -16,6 +16,39 @@ export const MESSAGE_RETENTION_CONFIG = {
   ENV_VAR_NAME: 'MCP_MESSAGE_RETENTION_LIMIT',
 };
 
+/**
+ * Configuration constants for agent presence
+ * An agent's state follows from how long ago it was last seen:
+ * online, then idle, then away, then offline once the offline threshold has passed
+ */
+export const PRESENCE_CONFIG = {
+  /** Default seconds without activity before an agent is idle */
+  DEFAULT_IDLE_SECONDS: 120,
+  /** Default seconds without activity before an agent is away */
+  DEFAULT_AWAY_SECONDS: 300,
+  /** Default seconds without activity before an agent is offline */
+  DEFAULT_OFFLINE_SECONDS: 600,
+  /** Environment variable names for configuring the thresholds */
+  IDLE_ENV_VAR_NAME: 'MCP_PRESENCE_IDLE_SECONDS',
+  AWAY_ENV_VAR_NAME: 'MCP_PRESENCE_AWAY_SECONDS',
+  OFFLINE_ENV_VAR_NAME: 'MCP_PRESENCE_OFFLINE_SECONDS',
+};
+
+/**
+ * Presence state of an agent in a chat room
+ */
+export type PresenceState = 'online' | 'idle' | 'away' | 'offline';
+
+/**
+ * All message types
+ */
+export const MESSAGE_TYPES: ReadonlyArray<Message['type']> = [
+  'text',
+  'system',
+  'command',
+  'notification',
+];
+
 /**
  * Represents a single message in a chat
  */
@@ -32,6 +65,98 @@ export interface Message {
   type: 'text' | 'system' | 'command' | 'notification';
   /** Optional metadata for the message (e.g., command parameters, notification level) */
   metadata?: Record<string, unknown>;
+  /** Recipient agent name for direct messages (undefined for room-wide messages) */
+  recipient?: string;
+  /** ID of the message this message replies to (undefined for top-level messages) */
+  replyTo?: string;
+  /**
+   * Position in the chat room, strictly increasing in message order and never reused.
+   * Assigned by the storage backend when the message is stored
+   */
+  seq?: number;
+  /** When the sender last edited the message (undefined if never edited) */
+  editedAt?: Date;
+  /** When the sender retracted the message; its content is then empty */
+  retractedAt?: Date;
+  /** Earlier versions of the content, oldest first (undefined if never edited or retracted) */
+  revisions?: MessageRevision[];
+  /** Acknowledgements by other agents, one per agent (undefined if never acknowledged) */
+  acks?: MessageAck[];
+  /** When the message was pinned; pinned messages are never pruned */
+  pinnedAt?: Date;
+  /** Name of the agent that pinned the message */
+  pinnedBy?: string;
+}
+
+/**
+ * Acknowledgement of a message by an agent
+ */
+export interface MessageAck {
+  /** Name of the acknowledging agent */
+  agent: string;
+  /** Optional short reaction, e.g. 'on it', 'done' or 'blocked' */
+  reaction?: string;
+  /** When the agent acknowledged the message */
+  timestamp: Date;
+}
+
+/**
+ * Who has acknowledged and read a message
+ */
+export interface MessageStatus {
+  message: Message;
+  /** Acknowledgements, oldest first */
+  acks: MessageAck[];
+  /** Agents other than the sender that have read or acknowledged the message */
+  readBy: string[];
+  /** Agents known in the chat room that can see the message but haven't read it */
+  unreadBy: string[];
+}
+
+/**
+ * An earlier version of a message's content
+ */
+export interface MessageRevision {
+  /** The content of this version */
+  content: string;
+  /** When this version was posted */
+  timestamp: Date;
+}
+
+/**
+ * Delivery status of a direct message, derived from the recipient's last seen time
+ * - 'active': recipient was seen recently
+ * - 'inactive': recipient has been seen in this room, but not recently
+ * - 'unknown': recipient has never been seen in this room
+ */
+export type RecipientStatus = 'active' | 'inactive' | 'unknown';
+
+/**
+ * Advisory claim of a set of files by an agent, expressed as a glob pattern
+ */
+export interface PathClaim {
+  /** Glob pattern relative to the project root (e.g., 'src/api/**') */
+  pattern: string;
+  /** Name of the agent holding the claim */
+  agent: string;
+  /** When the claim was made */
+  claimedAt: Date;
+  /** Optional note on what the agent is doing with the files */
+  note?: string;
+}
+
+/**
+ * What an agent does and is currently working on, as shown to other agents
+ */
+export interface AgentProfile {
+  /** Role in the team (e.g., 'reviewer', 'implementer') */
+  role?: string;
+  /** Free-text description of capabilities and skills */
+  capabilities?: string;
+  /** One line on what the agent is doing right now */
+  activity?: string;
+  /** When the profile was last changed */
+  updatedAt: Date;
 }
 
 /**
@@ -46,6 +171,176 @@ export interface ChatRoom {
   createdAt: Date;
   /** Dictionary of agent names to their last seen timestamp */
   lastSeen: { [agentName: string]: Date };
+  /** Dictionary of agent names to the ID of the last message they have read */
+  readCursors: { [agentName: string]: string };
+  /** Advisory file claims; a claim lapses when its holder's lastSeen is too old */
+  claims: PathClaim[];
+  /** Dictionary of agent names to their profile in this room */
+  profiles: { [agentName: string]: AgentProfile };
+  /** Dictionary of agent names to when they left or were announced as timed out */
+  departures: { [agentName: string]: Date };
+  /** Sequence number of the next stored message */
+  nextSeq: number;
+  /** Retention settings of this chat room, overriding the server-wide ones */
+  retention: RetentionPolicy;
+}
+
+/**
+ * Limits on the messages kept in a chat room
+ * Messages beyond the limits are moved to the chat room's archive; pinned messages are exempt
+ */
+export interface RetentionPolicy {
+  /** Maximum number of messages, not counting pinned ones */
+  maxMessages?: number;
+  /** Maximum age of messages in days (0: no age limit) */
+  maxAgeDays?: number;
+}
+
+/**
+ * One page of a chat room's messages, in chronological order
+ */
+export interface MessagePage {
+  messages: Message[];
+  /** Sequence number to pass as the cursor for the next page, if there are more messages */
+  nextCursor?: number;
+}
+
+/**
+ * Options for searching chat messages
+ */
+export interface SearchOptions {
+  /** Treat the query as a case-insensitive regular expression instead of words */
+  regex?: boolean;
+  /** Only messages from this sender */
+  sender?: string;
+  /** Only messages of this type */
+  type?: Message['type'];
+  /** Only messages whose metadata has all of these keys */
+  metadataKeys?: string[];
+  /** Only messages sent at or after this ISO 8601 timestamp */
+  sinceTimestamp?: string;
+  /** Only messages sent at or before this ISO 8601 timestamp */
+  untilTimestamp?: string;
+  /** Search every chat room instead of only the given project's */
+  allRooms?: boolean;
+  /** Also search messages that were pruned into the archive */
+  includeArchived?: boolean;
+  /** Number of surrounding messages to include before and after each hit (default: 0) */
+  contextSize?: number;
+  /** Maximum number of hits (default: 20) */
+  limit?: number;
+}
+
+/**
+ * A message found by a search, with its relevance and surrounding messages
+ */
+export interface SearchHit {
+  /** Project path of the chat room the message is in */
+  projectPath: string;
+  /** The matching message */
+  message: Message;
+  /** Relevance score; higher is better */
+  score: number;
+  /** Messages right before the hit, oldest first */
+  before: Message[];
+  /** Messages right after the hit, oldest first */
+  after: Message[];
+  /** Whether the message was pruned into the archive */
+  archived: boolean;
+}
+
+/**
+ * A question asked with askAgent that has not been answered yet
+ * Questions and answers are ordinary messages linked by the question ID in their metadata:
+ * the question has `questionId`, `expiresAt` and optionally `askedOf`, the answer has `answerTo`
+ */
+export interface PendingQuestion {
+  /** Correlation ID of the question */
+  questionId: string;
+  /** The message asking the question */
+  message: Message;
+  /** Agent the question is addressed to (undefined if anyone may answer) */
+  askedOf?: string;
+  /** When the asker stops waiting for an answer */
+  expiresAt: Date;
+}
+
+/**
+ * Outcome of asking a question with askAgent
+ */
+export interface AskResult {
+  /** Correlation ID of the question */
+  questionId: string;
+  /** The message asking the question */
+  question: Message;
+  /** The answer, or null if none arrived before the timeout */
+  answer: Message | null;
+  /** Status of the agent the question is addressed to (undefined if anyone may answer) */
+  recipientStatus?: RecipientStatus;
+}
+
+/**
+ * Format of an exported chat transcript
+ * - markdown / html: readable transcripts for humans
+ * - json: a versioned bundle that can be imported into another chat room
+ */
+export type TranscriptFormat = 'markdown' | 'html' | 'json';
+
+/**
+ * A chat room's history as exported for one agent
+ */
+export interface Transcript {
+  /** Project path of the exported chat room */
+  projectPath: string;
+  /** When the chat room was created */
+  createdAt: Date;
+  /** When the transcript was exported */
+  exportedAt: Date;
+  /** Name of the agent that exported the transcript */
+  exportedBy: string;
+  /** The messages visible to the exporting agent, archived ones first, in chronological order */
+  messages: Message[];
+  /** Dictionary of agent names to their last seen timestamp */
+  lastSeen: { [agentName: string]: Date };
+}
+
+/**
+ * Lifecycle state of a task on the task board
+ */
+export type TaskStatus = 'open' | 'claimed' | 'in_progress' | 'blocked' | 'done';
+
+/**
+ * A unit of work on a project's task board
+ */
+export interface Task {
+  /** Short task ID, unique within the board (e.g., 'T3') */
+  id: string;
+  /** One-line summary of the work */
+  title: string;
+  /** Optional longer description */
+  description?: string;
+  /** Current status */
+  status: TaskStatus;
+  /** Name of the agent who created the task */
+  createdBy: string;
+  /** Name of the agent working on the task (undefined while open) */
+  assignee?: string;
+  /** When the task was created */
+  createdAt: Date;
+  /** When the task was last changed */
+  updatedAt: Date;
+}
+
+/**
+ * Shared task board for a project, stored next to its chat room
+ */
+export interface TaskBoard {
+  /** Project path/folder identifier */
+  projectPath: string;
+  /** All tasks on the board, in creation order */
+  tasks: Task[];
+  /** Number used for the next task ID */
+  nextTaskNumber: number;
 }
 
 /**
@@ -56,4 +351,6 @@ export interface AgentIdentity {
   name: string;
   /** When this identity was created */
   createdAt: Date;
+  /** Role and capabilities, carried into every room the agent joins */
+  profile?: Pick<AgentProfile, 'role' | 'capabilities'>;
 }